@@ -3,13 +3,13 @@ set -euo pipefail
 
 # Validate required variables
 : "${SWAGGER_URL:?'SWAGGER_URL is required'}"
-: "${TOKEN_URL:?'TOKEN_URL is required'}"
-: "${API_USERNAME:?'API_USERNAME is required'}"
-: "${API_PASSWORD:?'API_PASSWORD is required'}"
 
 # Defaults
 TEST_MODE="${TEST_MODE:-readonly}"
 OUTPUT="${OUTPUT:-test-results/junit.xml}"
+BASE_SPEC="${BASE_SPEC:-}"
+SPEC_DIFF_FAIL_ON="${SPEC_DIFF_FAIL_ON:-breaking}"
+SPEC_DIFF_ONLY="${SPEC_DIFF_ONLY:-false}"
 PARALLEL="${PARALLEL:-false}"
 MAX_PARALLEL="${MAX_PARALLEL:-5}"
 AUTO_START_VM="${AUTO_START_VM:-false}"
@@ -17,6 +17,35 @@ USE_HIERARCHICAL="${USE_HIERARCHICAL:-false}"
 TEST_POSTS="${TEST_POSTS:-false}"
 EXTRA_ARGS="${EXTRA_ARGS:-}"
 
+mkdir -p "$(dirname "$OUTPUT")"
+
+# Compare against the base spec first so spec regressions fail the build
+# before any request is sent to the live API
+if [ -n "$BASE_SPEC" ]; then
+  REPORT_DIR="$(dirname "$OUTPUT")"
+  DIFF_CMD="api-contract-guard spec-diff"
+  DIFF_CMD="$DIFF_CMD --old $BASE_SPEC"
+  DIFF_CMD="$DIFF_CMD --new $SWAGGER_URL"
+  DIFF_CMD="$DIFF_CMD --fail-on $SPEC_DIFF_FAIL_ON"
+  DIFF_CMD="$DIFF_CMD --junit $REPORT_DIR/spec-diff.xml"
+  DIFF_CMD="$DIFF_CMD --markdown $REPORT_DIR/spec-diff.md"
+
+  echo "Running: $DIFF_CMD"
+  eval "$DIFF_CMD"
+fi
+
+if [ "$SPEC_DIFF_ONLY" = "true" ]; then
+  if [ -z "$BASE_SPEC" ]; then
+    echo "SPEC_DIFF_ONLY requires BASE_SPEC" >&2
+    exit 1
+  fi
+  exit 0
+fi
+
+: "${TOKEN_URL:?'TOKEN_URL is required'}"
+: "${API_USERNAME:?'API_USERNAME is required'}"
+: "${API_PASSWORD:?'API_PASSWORD is required'}"
+
 # Build CLI flags
 CMD="api-contract-guard test"
 CMD="$CMD --swagger-url $SWAGGER_URL"
@@ -48,7 +77,5 @@ if [ -n "$EXTRA_ARGS" ]; then
   CMD="$CMD $EXTRA_ARGS"
 fi
 
-mkdir -p "$(dirname "$OUTPUT")"
-
 echo "Running: $CMD"
 eval "$CMD"
@@ -6,6 +6,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Home from "./pages/Home";
 import { EndpointGroup, TestResult, AuthConfig } from "./types";
+import { groupEndpoints } from "./lib/endpoint-grouping";
 
 // Lazy-loaded pages
 const Endpoints = lazy(() => import("./pages/Endpoints"));
@@ -29,12 +30,26 @@ const App = () => {
   });
 
   const [testResults, setTestResults] = useState<Map<string, TestResult>>(new Map());
+  const [groupBy, setGroupBy] = useState('prefix');
 
   const handleConfigUpdate = (newConfig: typeof config) => {
-    setConfig(newConfig);
+    // Specs are parsed with the default grouping - keep the user's choice
+    const endpointGroups = groupBy === 'prefix'
+      ? newConfig.endpointGroups
+      : groupEndpoints(newConfig.endpointGroups.flatMap(g => g.endpoints), groupBy);
+    setConfig({ ...newConfig, endpointGroups });
     setTestResults(new Map()); // Clear results when config changes
   };
 
+  const handleGroupByChange = (newGroupBy: string) => {
+    setGroupBy(newGroupBy);
+    setConfig(prev => ({
+      ...prev,
+      endpointGroups: groupEndpoints(prev.endpointGroups.flatMap(g => g.endpoints), newGroupBy),
+    }));
+    setTestResults(new Map()); // Results are keyed by group
+  };
+
   const handleTestComplete = (resource: string, result: TestResult) => {
     setTestResults(prev => {
       const newMap = new Map(prev);
@@ -68,6 +83,8 @@ const App = () => {
                     baseUrl={config.baseUrl}
                     auth={config.auth}
                     endpointGroups={config.endpointGroups}
+                    groupBy={groupBy}
+                    onGroupByChange={handleGroupByChange}
                     onTestComplete={handleTestComplete}
                     testResults={testResults}
                   />
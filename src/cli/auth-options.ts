@@ -0,0 +1,131 @@
+/**
+ * Auth Options
+ *
+ * CLI flags for the auth strategies of test and test-posts, resolved into an
+ * AuthConfig. Every value comes from the first of: the flag, the config file's
+ * `auth` section, the env var (API_USERNAME, API_PASSWORD, API_CLIENT_ID,
+ * API_CLIENT_SECRET, API_TOKEN, API_CLIENT_KEY_PASSPHRASE).
+ *
+ * The strategy defaults to oauth2 with the password grant.
+ */
+
+import { Command, InvalidArgumentError } from 'commander';
+import { ApiKeyLocation, AuthConfig, AuthType, OAuth2GrantType } from '../types/index.js';
+import { getGrantType } from '../lib/auth.js';
+
+export interface AuthOptions {
+  auth?: AuthType;
+  tokenUrl?: string;
+  grantType?: OAuth2GrantType;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  audience?: string;
+  token?: string;
+  apiKeyIn?: ApiKeyLocation;
+  apiKeyName?: string;
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  caCert?: string;
+}
+
+/**
+ * Add the auth flags to a command
+ */
+export function addAuthOptions(command: Command): Command {
+  return command
+    .option('--auth <type>', 'Auth strategy: oauth2, basic, bearer, apikey or none (default: oauth2)',
+      choiceParser(['oauth2', 'basic', 'bearer', 'apikey', 'none']))
+    .option('--token-url <url>', 'OAuth2 token endpoint')
+    .option('--grant-type <grant>', 'OAuth2 grant: password or client_credentials (default: password)',
+      choiceParser(['password', 'client_credentials']))
+    .option('--username <user>', 'OAuth2 / basic auth username (or use env var API_USERNAME)')
+    .option('--password <pass>', 'OAuth2 / basic auth password (or use env var API_PASSWORD)')
+    .option('--client-id <id>', 'OAuth2 client ID (or use env var API_CLIENT_ID)')
+    .option('--client-secret <secret>', 'OAuth2 client secret (or use env var API_CLIENT_SECRET)')
+    .option('--scope <scopes>', 'OAuth2 scopes, space-separated')
+    .option('--audience <audience>', 'OAuth2 audience')
+    .option('--token <token>', 'Bearer token or API key (or use env var API_TOKEN)')
+    .option('--api-key-in <location>', 'Where the API key is sent: header, query or cookie (default: header)',
+      choiceParser(['header', 'query', 'cookie']))
+    .option('--api-key-name <name>', 'Header, query parameter or cookie name of the API key (default: X-API-Key)')
+    .option('--client-cert <file>', 'PEM client certificate for mutual TLS')
+    .option('--client-key <file>', 'PEM private key of the client certificate')
+    .option('--client-key-passphrase <pass>', 'Passphrase of the client key (or use env var API_CLIENT_KEY_PASSPHRASE)')
+    .option('--ca-cert <file>', 'PEM CA bundle to verify the server certificate with');
+}
+
+/**
+ * Build the auth config from the flags, the config file and env vars
+ * @throws When the selected strategy is missing a credential
+ */
+export function resolveAuthConfig(options: AuthOptions, fileAuth: Partial<AuthConfig> = {}): AuthConfig {
+  const flags = options as Record<string, unknown>;
+  const file = fileAuth as Record<string, unknown>;
+
+  const auth: AuthConfig = { type: options.auth || fileAuth.type || 'oauth2' };
+  const fields: Array<[keyof AuthConfig, string?]> = [
+    ['tokenUrl'], ['grantType'],
+    ['username', 'API_USERNAME'], ['password', 'API_PASSWORD'],
+    ['clientId', 'API_CLIENT_ID'], ['clientSecret', 'API_CLIENT_SECRET'],
+    ['scope'], ['audience'],
+    ['token', 'API_TOKEN'], ['apiKeyIn'], ['apiKeyName'],
+    ['clientCert'], ['clientKey'], ['clientKeyPassphrase', 'API_CLIENT_KEY_PASSPHRASE'], ['caCert'],
+  ];
+  for (const [key, envVar] of fields) {
+    const resolved = flags[key] ?? file[key] ?? (envVar ? process.env[envVar] : undefined);
+    if (resolved !== undefined && resolved !== '') {
+      Object.assign(auth, { [key]: resolved });
+    }
+  }
+
+  validateAuthConfig(auth);
+  return auth;
+}
+
+function validateAuthConfig(auth: AuthConfig): void {
+  switch (auth.type) {
+    case 'oauth2':
+      if (!auth.tokenUrl) {
+        throw new Error('OAuth2 requires a token endpoint (via --token-url or auth.tokenUrl in the config file)');
+      }
+      if (getGrantType(auth) === 'client_credentials') {
+        if (!auth.clientId || !auth.clientSecret) {
+          throw new Error('Client ID and secret are required for the client_credentials grant (via flags or env vars API_CLIENT_ID/API_CLIENT_SECRET)');
+        }
+      } else if (!auth.username || !auth.password) {
+        throw new Error('Username and password are required (via flags or env vars API_USERNAME/API_PASSWORD)');
+      }
+      break;
+    case 'basic':
+      if (!auth.username || !auth.password) {
+        throw new Error('Username and password are required for basic auth (via flags or env vars API_USERNAME/API_PASSWORD)');
+      }
+      break;
+    case 'bearer':
+    case 'apikey':
+      if (!auth.token) {
+        throw new Error(`A ${auth.type === 'bearer' ? 'bearer token' : 'API key'} is required (via --token or env var API_TOKEN)`);
+      }
+      break;
+  }
+
+  if (!!auth.clientCert !== !!auth.clientKey) {
+    throw new Error('Mutual TLS requires both a client certificate and its key (--client-cert and --client-key)');
+  }
+}
+
+/**
+ * Helper: Parser that only accepts one of the given values
+ */
+function choiceParser<T extends string>(choices: T[]): (value: string) => T {
+  return (value: string) => {
+    if (!choices.includes(value as T)) {
+      throw new InvalidArgumentError(`Expected one of: ${choices.join(', ')}.`);
+    }
+    return value as T;
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Golden Baselines
+ *
+ * Normalized GET responses stored on disk, one JSON file per endpoint, to
+ * detect regressions between runs:
+ * - record:  `gate baseline record` stores the current responses
+ * - compare: `gate test --against-baseline` diffs each live response against its baseline
+ * - update:  `gate test --update-baseline` reports the diffs and accepts them as the new baseline
+ *
+ * Responses are normalized before they are stored or compared: meta fields
+ * (ids, timestamps) are removed and object keys are sorted, so baseline files
+ * diff cleanly in version control. The `compare` rules of gate.config decide
+ * which differences are suppressed, and whether values or only the shape are compared.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { compareResponses, stripMetaFields, resolveCompareRules, CompareRules, DEFAULT_META_FIELDS } from '../lib/comparator.js';
+import { Difference, Endpoint } from '../types/index.js';
+
+export type BaselineMode = 'record' | 'compare' | 'update';
+
+export interface BaselineOptions {
+  /** Directory with the baseline files */
+  dir: string;
+  mode: BaselineMode;
+}
+
+export interface BaselineEntry {
+  /** "METHOD /path" of the endpoint */
+  endpoint: string;
+  /** URL the response was recorded from */
+  url: string;
+  status: number;
+  recordedAt: string;
+  /** Normalized response body */
+  body: unknown;
+}
+
+export const DEFAULT_BASELINE_DIR = 'baselines';
+
+/**
+ * Baseline file of an endpoint, e.g. baselines/GET_api_v2_systems_{system}.json
+ */
+export function getBaselinePath(dir: string, endpoint: Endpoint): string {
+  const name = `${endpoint.method}_${endpoint.path}`
+    .replace(/[^A-Za-z0-9{}.-]+/g, '_')
+    .replace(/_+$/, '');
+  return resolve(process.cwd(), dir, `${name}.json`);
+}
+
+/**
+ * Read the baseline of an endpoint
+ * @returns The entry, or undefined when none was recorded
+ */
+export function readBaseline(dir: string, endpoint: Endpoint): BaselineEntry | undefined {
+  const path = getBaselinePath(dir, endpoint);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as BaselineEntry;
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new Error(`Invalid baseline file ${path}: ${err.message}`);
+  }
+}
+
+/**
+ * Store a response as the baseline of an endpoint
+ * @returns Path of the written file
+ */
+export function writeBaseline(dir: string, endpoint: Endpoint, url: string, status: number, body: unknown, metaFields?: string[]): string {
+  const path = getBaselinePath(dir, endpoint);
+  const entry: BaselineEntry = {
+    endpoint: `${endpoint.method} ${endpoint.path}`,
+    url,
+    status,
+    recordedAt: new Date().toISOString(),
+    body: normalizeResponse(body, metaFields),
+  };
+
+  mkdirSync(resolve(process.cwd(), dir), { recursive: true });
+  writeFileSync(path, JSON.stringify(entry, null, 2) + '\n', 'utf-8');
+  return path;
+}
+
+/**
+ * Diff a live response against its baseline
+ * Body differences are reported under "baseline", e.g. baseline.items[0].name;
+ * differences covered by a compare rule are marked with `suppressedBy`.
+ */
+export function compareWithBaseline(entry: BaselineEntry, status: number, body: unknown, rules?: CompareRules): Difference[] {
+  const differences: Difference[] = [];
+  const resolved = resolveCompareRules(rules, entry.endpoint);
+
+  if (entry.status !== status) {
+    differences.push({
+      path: 'status',
+      expected: entry.status,
+      actual: status,
+      type: 'changed',
+      message: `Status ${status} differs from the baseline (${entry.status})`,
+    });
+  }
+
+  for (const difference of compareResponses(entry.body, normalizeResponse(body, resolved.metaFields), resolved)) {
+    differences.push({ ...difference, path: prefixPath(difference.path) });
+  }
+
+  return differences;
+}
+
+/**
+ * Normalize a response body: strip meta fields and sort object keys
+ */
+export function normalizeResponse(body: unknown, metaFields: string[] = DEFAULT_META_FIELDS): unknown {
+  return sortKeys(stripMetaFields(body, metaFields));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+function prefixPath(path: string): string {
+  if (path === 'root') return 'baseline';
+  return path.startsWith('[') || path.startsWith('.') ? `baseline${path}` : `baseline.${path}`;
+}
@@ -1,16 +1,37 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { readFileSync, existsSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { AzureVMStarter } from './azure-starter.js';
 import { TestOrchestrator } from './orchestrator.js';
 import { writeJUnitReport } from './junit-reporter.js';
-import { parseSwaggerUrl } from '../lib/swagger.js';
+import { parseSwaggerUrl, parseSwaggerSpec, getRequestSchema } from '../lib/swagger.js';
+import { isRemoteSpecSource, loadSpec } from '../lib/spec-loader.js';
+import { dereferenceSpec } from '../lib/ref-resolver.js';
 import { filterBlacklistedEndpoints } from './blacklist.js';
 import { CoverageAnalyzer } from './coverage-analyzer.js';
-import { AuthConfig, Endpoint } from '../types/index.js';
-import { banner, customHelp, demo } from './format.js';
+import { isEndpointSelected } from './endpoint-filter.js';
+import { parseGroupBy } from '../lib/endpoint-grouping.js';
+import { printSpecDiff, specDiffToMarkdown, specDiffToTestResults } from './spec-diff-reporter.js';
+import { diffSpecs, ChangeSeverity } from '../lib/spec-diff.js';
+import { printSpecLint, specLintToMarkdown, specLintToTestResults } from './spec-lint-reporter.js';
+import { lintSpec, LintSeverity, LINT_RULES } from '../lib/spec-lint.js';
+import { loadConfig, DEFAULT_CONFIG_FILES } from './config.js';
+import { BaselineOptions, DEFAULT_BASELINE_DIR } from './baseline.js';
+import { CompareMode } from '../lib/comparator.js';
+import { FileRestoreJournal, restorePending, DEFAULT_JOURNAL_FILE } from './restore-journal.js';
+import { recordHarFile, replayHarFiles, printReplayReport } from './har-file.js';
+import { MockApi, MockFaults } from '../lib/mock.js';
+import { startMockServer, MOCK_SPEC_PATH } from './mock-server.js';
+import { writeRequestPlan } from './request-plan.js';
+import { describeAuth, getTokenProvider } from '../lib/auth.js';
+import { addAuthOptions, resolveAuthConfig } from './auth-options.js';
+import { generateRequestBody } from '../lib/body-generator.js';
+import { validateAgainstSchema } from '../lib/schema-validator.js';
+import { scaffoldTestCase, formatTestCases } from './fixture-scaffold.js';
+import { AuthConfig, Endpoint, PostTestCase } from '../types/index.js';
+import { banner, customHelp, demo, pass, fail, info, heading, c } from './format.js';
 
 const program = new Command();
 
@@ -33,46 +54,78 @@ program
 /**
  * Test command - Run regression tests
  */
-program
+const testCommand = program
   .command('test')
   .description('Run API regression tests against Swagger/OpenAPI spec')
-  .requiredOption('--swagger-url <url>', 'Swagger/OpenAPI JSON URL')
-  .requiredOption('--token-url <url>', 'OAuth2 token endpoint')
-  .requiredOption('--username <user>', 'OAuth2 username (or use env var API_USERNAME)')
-  .requiredOption('--password <pass>', 'OAuth2 password (or use env var API_PASSWORD)')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)');
+
+addAuthOptions(testCommand)
   .option('--output <file>', 'JUnit XML output file path', 'junit.xml')
   .option('--auto-start-vm', 'Automatically start Azure VM if API is down', true)
   .option('--no-auto-start-vm', 'Do not automatically start Azure VM')
   .option('--parallel', 'Run tests in parallel', false)
   .option('--max-parallel <n>', 'Maximum parallel tests', '5')
-  .option('--mode <mode>', 'Test mode: full (CRUD) or readonly (GET only)', 'full')
+  .option('--mode <mode>', 'Test mode: full (CRUD), readonly (GET only) or negative (requests that must be rejected)', 'full')
   .option('--use-real-data', 'Discover and use real IDs from API instead of placeholder "1"', false)
   .option('--use-hierarchical', 'Test parent-child API relationships (loop through all parent resources)', false)
   .option('--test-posts', 'Run POST endpoint tests with predefined fixtures', false)
   .option('--skip-cleanup', 'Skip cleanup step in POST fixture tests', false)
+  .option('--no-schema-validation', 'Do not validate response bodies against the documented response schemas')
+  .option('--no-generate-bodies', 'Do not POST bodies generated from the request schema when there is no fetched data to re-create')
+  .option('--seed <n>', 'Seed for generated request bodies', parseIntegerOption, 1)
+  .option('--config <file>', 'Config file with expected-status overrides, compare rules and auth (default: gate.config.yaml, .yml or .json if present)')
+  .option('--server <index|description>', 'Spec server to test against: index into servers or its description (default: first)')
+  .option('--server-var <key=value>', 'Value for a server URL variable (repeatable)', collectServerVar, {})
+  .option('--base-url <url>', 'Base URL override (ignores the spec servers)')
+  .option('--include <filter>', 'Only test endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--exclude <filter>', 'Skip endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--group-by <strategy>', 'Group endpoints by: prefix, tag, operationId-prefix or depth=N', parseGroupByOption, 'prefix')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .option('--against-baseline', 'Diff each GET response against its recorded baseline', false)
+  .option('--update-baseline', 'Accept the live GET responses as the new baselines (reports what changed)', false)
+  .option('--baseline-dir <dir>', 'Directory with the baseline files', DEFAULT_BASELINE_DIR)
+  .option('--compare-mode <mode>', 'Compare response values, or only their shape (field names, types, nullability): value or shape (default: value, or compare.mode in the config)', parseCompareMode)
+  .option('--journal <file>', 'Restore journal with a snapshot of every resource full mode deletes', DEFAULT_JOURNAL_FILE)
+  .option('--dry-run', 'Print the ordered requests the run would send (method, URL, body, step) without sending them', false)
+  .option('--plan-output <file>', 'Also write the --dry-run request plan as JSON')
+  .option('--replay <har|dir>', 'Answer requests from a HAR recording (file, or directory of .har files) instead of the network')
+  .option('--record-har <file>', 'Record every HTTP exchange (spec, token, discovery and test requests) as a HAR 1.2 file, credentials redacted')
   .action(async (options) => {
     try {
       banner();
       
+      if (options.planOutput && !options.dryRun) {
+        throw new Error('--plan-output requires --dry-run');
+      }
+      
       // Ensure VM is running if auto-start is enabled
-      if (options.autoStartVm) {
+      // (a local spec gives us no URL to probe, so the check is skipped; a dry run or replay sends nothing)
+      if (options.autoStartVm && !options.dryRun && !options.replay && isRemoteSpecSource(options.swaggerUrl)) {
         const vmStarter = new AzureVMStarter();
         await vmStarter.ensureVMRunning(options.swaggerUrl);
         console.log('');
       }
       
-      // Setup authentication
-      const auth: AuthConfig = {
-        type: 'oauth2',
-        username: options.username || process.env.API_USERNAME,
-        password: options.password || process.env.API_PASSWORD,
-        tokenUrl: options.tokenUrl
-      };
+      // Written on exit, so a failed run leaves its exchanges behind
+      if (options.recordHar) {
+        recordHarFile(options.recordHar);
+      }
+      const replay = options.replay ? replayHarFiles(options.replay) : undefined;
       
-      if (!auth.username || !auth.password) {
-        throw new Error('Username and password are required (via flags or env vars API_USERNAME/API_PASSWORD)');
+      let baseline: BaselineOptions | undefined;
+      if (options.againstBaseline || options.updateBaseline) {
+        if (options.mode === 'negative' || options.useHierarchical) {
+          throw new Error('Baselines are not supported with --mode negative or --use-hierarchical');
+        }
+        baseline = { dir: options.baselineDir, mode: options.updateBaseline ? 'update' : 'compare' };
       }
       
+      // Setup authentication (flags > config file > env vars)
+      // A replay needs no credentials unless --auth asks for them
+      const config = loadConfig(options.config);
+      const auth: AuthConfig = replay && !options.auth ? { type: 'none' } : resolveAuthConfig(options, config.auth);
+      
       // Validate mutually exclusive options
       if (options.useRealData && options.useHierarchical) {
         console.warn('⚠️  Note: --use-hierarchical includes its own data discovery.');
@@ -90,13 +143,44 @@ program
         useRealData: options.useRealData,
         useHierarchical: options.useHierarchical,
         testPosts: options.testPosts,
-        skipCleanup: options.skipCleanup
+        skipCleanup: options.skipCleanup,
+        validateSchema: options.schemaValidation,
+        generateBodies: options.generateBodies,
+        bodySeed: options.seed,
+        server: options.server,
+        serverVariables: options.serverVar,
+        baseUrl: options.baseUrl,
+        include: options.include,
+        exclude: options.exclude,
+        groupBy: options.groupBy,
+        specHeaders: options.specHeader,
+        specCache: options.specCache,
+        expectedStatus: config.expectedStatus,
+        // --compare-mode replaces the global mode; per-endpoint modes in the config still win
+        compareRules: options.compareMode ? { ...config.compare, mode: options.compareMode } : config.compare,
+        baseline,
+        // Replayed deletes must not leave entries for "gate restore" to send to the real API
+        journal: replay ? undefined : options.journal,
+        dryRun: options.dryRun
       });
       
       const result = await orchestrator.runAll();
       
+      if (result.plan) {
+        if (options.planOutput) {
+          writeRequestPlan(result.plan, options.planOutput);
+        }
+        if (replay) {
+          printReplayReport(replay);
+        }
+        process.exit(0);
+      }
+      
       // Print summary
       orchestrator.printSummary(result);
+      if (replay) {
+        printReplayReport(replay);
+      }
       
       // Generate JUnit report
       if (options.output) {
@@ -128,42 +212,51 @@ program
 /**
  * Test POST command - Run POST endpoint tests with fixtures
  */
-program
+const testPostsCommand = program
   .command('test-posts')
   .description('Run POST endpoint tests with predefined fixtures')
-  .requiredOption('--swagger-url <url>', 'Swagger/OpenAPI JSON URL (for base URL extraction)')
-  .requiredOption('--token-url <url>', 'OAuth2 token endpoint')
-  .requiredOption('--username <user>', 'OAuth2 username (or use env var API_USERNAME)')
-  .requiredOption('--password <pass>', 'OAuth2 password (or use env var API_PASSWORD)')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; for base URL extraction)');
+
+addAuthOptions(testPostsCommand)
   .option('--output <file>', 'JUnit XML output file path', 'junit-posts.xml')
+  .option('--config <file>', 'Config file with auth settings (default: gate.config.yaml, .yml or .json if present)')
   .option('--auto-start-vm', 'Automatically start Azure VM if API is down', true)
   .option('--no-auto-start-vm', 'Do not automatically start Azure VM')
   .option('--skip-cleanup', 'Skip cleanup step after tests', false)
   .option('--skip-verify', 'Skip verification step after POST', false)
   .option('--module <name>', 'Only run tests for specific module (e.g., SystemHandler, Model)')
+  .option('--server <index|description>', 'Spec server to test against: index into servers or its description (default: first)')
+  .option('--server-var <key=value>', 'Value for a server URL variable (repeatable)', collectServerVar, {})
+  .option('--base-url <url>', 'Base URL override (ignores the spec servers)')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .option('--dry-run', 'Print the ordered requests the run would send (method, URL, body, step) without sending them', false)
+  .option('--plan-output <file>', 'Also write the --dry-run request plan as JSON')
+  .option('--record-har <file>', 'Record every HTTP exchange (spec, token, discovery and test requests) as a HAR 1.2 file, credentials redacted')
   .action(async (options) => {
     try {
       banner();
       
+      if (options.planOutput && !options.dryRun) {
+        throw new Error('--plan-output requires --dry-run');
+      }
+      
       // Ensure VM is running if auto-start is enabled
-      if (options.autoStartVm) {
+      // (a local spec gives us no URL to probe, so the check is skipped; a dry run sends nothing)
+      if (options.autoStartVm && !options.dryRun && isRemoteSpecSource(options.swaggerUrl)) {
         const vmStarter = new AzureVMStarter();
         await vmStarter.ensureVMRunning(options.swaggerUrl);
         console.log('');
       }
       
-      // Setup authentication
-      const auth: AuthConfig = {
-        type: 'oauth2',
-        username: options.username || process.env.API_USERNAME,
-        password: options.password || process.env.API_PASSWORD,
-        tokenUrl: options.tokenUrl
-      };
-      
-      if (!auth.username || !auth.password) {
-        throw new Error('Username and password are required (via flags or env vars API_USERNAME/API_PASSWORD)');
+      // Written on exit, so a failed run leaves its exchanges behind
+      if (options.recordHar) {
+        recordHarFile(options.recordHar);
       }
       
+      // Setup authentication (flags > config file > env vars)
+      const auth = resolveAuthConfig(options, loadConfig(options.config).auth);
+      
       // Run POST tests
       const orchestrator = new TestOrchestrator({
         swaggerUrl: options.swaggerUrl,
@@ -172,11 +265,24 @@ program
         testPosts: true,
         skipCleanup: options.skipCleanup,
         skipVerify: options.skipVerify,
-        postModule: options.module
+        postModule: options.module,
+        server: options.server,
+        serverVariables: options.serverVar,
+        baseUrl: options.baseUrl,
+        specHeaders: options.specHeader,
+        specCache: options.specCache,
+        dryRun: options.dryRun
       });
       
       const result = await orchestrator.runPostTests();
       
+      if (result.plan) {
+        if (options.planOutput) {
+          writeRequestPlan(result.plan, options.planOutput);
+        }
+        process.exit(0);
+      }
+      
       // Print summary
       orchestrator.printPostSummary(result);
       
@@ -207,6 +313,209 @@ program
     }
   });
 
+/**
+ * Baseline command - Record golden GET responses
+ */
+const baselineCommand = program
+  .command('baseline')
+  .description('Manage golden baselines of GET responses')
+  .addHelpCommand(false);
+
+const baselineRecordCommand = baselineCommand
+  .command('record')
+  .description('Store the normalized GET responses of all endpoints as baselines')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)');
+
+addAuthOptions(baselineRecordCommand)
+  .option('--baseline-dir <dir>', 'Directory to write the baseline files to', DEFAULT_BASELINE_DIR)
+  .option('--config <file>', 'Config file with expected-status overrides, compare rules and auth (default: gate.config.yaml, .yml or .json if present)')
+  .option('--parallel', 'Fetch responses in parallel', false)
+  .option('--max-parallel <n>', 'Maximum parallel requests', '5')
+  .option('--use-real-data', 'Discover and use real IDs from API instead of placeholder "1"', false)
+  .option('--no-schema-validation', 'Do not validate response bodies against the documented response schemas')
+  .option('--server <index|description>', 'Spec server to record from: index into servers or its description (default: first)')
+  .option('--server-var <key=value>', 'Value for a server URL variable (repeatable)', collectServerVar, {})
+  .option('--base-url <url>', 'Base URL override (ignores the spec servers)')
+  .option('--include <filter>', 'Only record endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--exclude <filter>', 'Skip endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .action(async (options) => {
+    try {
+      banner();
+
+      const config = loadConfig(options.config);
+      const auth = resolveAuthConfig(options, config.auth);
+
+      // Readonly run: only GET endpoints, each response written as its baseline
+      const orchestrator = new TestOrchestrator({
+        swaggerUrl: options.swaggerUrl,
+        auth,
+        mode: 'readonly',
+        parallel: options.parallel,
+        maxParallel: parseInt(options.maxParallel),
+        useRealData: options.useRealData,
+        validateSchema: options.schemaValidation,
+        server: options.server,
+        serverVariables: options.serverVar,
+        baseUrl: options.baseUrl,
+        include: options.include,
+        exclude: options.exclude,
+        specHeaders: options.specHeader,
+        specCache: options.specCache,
+        expectedStatus: config.expectedStatus,
+        compareRules: config.compare,
+        baseline: { dir: options.baselineDir, mode: 'record' }
+      });
+
+      const result = await orchestrator.runAll();
+      orchestrator.printSummary(result);
+
+      if (result.failed > 0) {
+        console.log('⚠️  Endpoints without a successful GET response were not recorded');
+        process.exit(1);
+      }
+      console.log('✅ Baselines recorded');
+      process.exit(0);
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Restore command - Re-create deleted resources from a restore journal
+ */
+const restoreCommand = program
+  .command('restore')
+  .description('Re-create the resources of a restore journal that full mode deleted and could not restore')
+  .option('--journal <file>', 'Restore journal written by "test"', DEFAULT_JOURNAL_FILE);
+
+addAuthOptions(restoreCommand)
+  .option('--config <file>', 'Config file with auth settings (default: gate.config.yaml, .yml or .json if present)')
+  .action(async (options) => {
+    try {
+      banner();
+
+      if (!existsSync(options.journal)) {
+        throw new Error(`Restore journal not found: ${options.journal}`);
+      }
+
+      const config = loadConfig(options.config);
+      const auth = resolveAuthConfig(options, config.auth);
+      const journal = new FileRestoreJournal(options.journal);
+      const pending = journal.pending();
+
+      info(`Journal: ${journal.path}`);
+      info(`Auth: ${describeAuth(auth)}`);
+      if (pending.length === 0) {
+        pass('Nothing to restore');
+        process.exit(0);
+      }
+
+      heading(`Restoring ${pending.length} resource(s)`);
+      console.log('');
+
+      const counts = await restorePending(journal, getTokenProvider(auth).client, (snapshot) => {
+        if (snapshot.state === 'restored') {
+          pass(`${snapshot.restore?.method} ${snapshot.restore?.url} (${snapshot.url})`);
+        } else if (snapshot.state === 'kept') {
+          info(`${snapshot.url} exists - nothing to restore`);
+        } else {
+          fail(`${snapshot.url}: ${snapshot.error}`);
+        }
+      });
+
+      console.log('');
+      info(`${counts.restored} restored, ${counts.kept} already present, ${counts.failed} failed`);
+      if (counts.failed > 0) {
+        console.log(`❌ Some resources could not be restored - their last known state is in ${journal.path}`);
+        process.exit(1);
+      }
+      console.log('✅ All resources restored');
+      process.exit(0);
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Mock command - Serve a local mock API from the spec
+ */
+program
+  .command('mock')
+  .description('Serve a local mock API from the spec: examples or generated data, in-memory CRUD state, optional faults')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)')
+  .option('--port <n>', 'Port to listen on', parseIntegerOption, 4010)
+  .option('--host <host>', 'Interface to listen on', '127.0.0.1')
+  .option('--seed <n>', 'Seed for generated data and fault picks (same seed, same responses)', parseIntegerOption, 1)
+  .option('--items <n>', 'Items each collection starts with (when the spec has no list example)', parseIntegerOption, 3)
+  .option('--faults', 'Inject faults: 300 ms latency, 10% 500 responses, 20% responses with a dropped field', false)
+  .option('--latency <ms>', 'Delay every response (overrides --faults)', parseIntegerOption)
+  .option('--error-rate <ratio>', 'Share of requests answered with 500, 0-1 (overrides --faults)', parseRatioOption)
+  .option('--drop-rate <ratio>', 'Share of responses with one field removed, 0-1 (overrides --faults)', parseRatioOption)
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .action(async (options) => {
+    try {
+      banner();
+
+      const fetchOptions = { headers: options.specHeader, cache: options.specCache };
+      const { spec, source, kind } = await loadSpec(options.swaggerUrl, fetchOptions);
+      const { spec: resolvedSpec } = await dereferenceSpec(spec, source, fetchOptions);
+      const { groups, baseUrl } = parseSwaggerSpec(resolvedSpec, source, kind);
+      const basePath = new URL(baseUrl || '/', 'http://localhost').pathname.replace(/\/$/, '');
+
+      const preset: MockFaults = options.faults ? { latency: 300, errorRate: 0.1, dropRate: 0.2 } : {};
+      const faults: MockFaults = {
+        latency: options.latency ?? preset.latency,
+        errorRate: options.errorRate ?? preset.errorRate,
+        dropRate: options.dropRate ?? preset.dropRate,
+      };
+      const api = new MockApi(groups.flatMap(group => group.endpoints), { seed: options.seed, items: options.items, faults });
+
+      const { server, url } = await startMockServer(api, {
+        port: options.port,
+        host: options.host,
+        basePath,
+        spec,
+        onRequest: (method, path, response) => {
+          const color = response.status < 400 ? c.green : c.red;
+          const fault = response.headers['X-Mock-Fault'] ? ` ${c.yellow}(fault: ${response.headers['X-Mock-Fault']})${c.reset}` : '';
+          console.log(`  ${method.padEnd(6)} ${path} ${color}${response.status}${c.reset}${fault}`);
+        },
+      });
+
+      info(`${api.operations.length} operation(s) served at ${url}${basePath}`);
+      info(`Spec: ${url}${MOCK_SPEC_PATH}`);
+      if (faults.latency || faults.errorRate || faults.dropRate) {
+        info(`Faults: ${faults.latency ?? 0} ms latency, ${Math.round((faults.errorRate ?? 0) * 100)}% errors, ${Math.round((faults.dropRate ?? 0) * 100)}% dropped fields`);
+      }
+      console.log('');
+      console.log(`  ${c.dim}gate test --swagger-url ${url}${MOCK_SPEC_PATH} --auth none --no-auto-start-vm${c.reset}`);
+      console.log(`  ${c.dim}Press Ctrl+C to stop${c.reset}`);
+      console.log('');
+
+      process.once('SIGINT', () => {
+        server.close();
+        process.exit(0);
+      });
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
 /**
  * VM Start command - Manually start Azure VM
  */
@@ -241,15 +550,30 @@ program
 program
   .command('list-endpoints')
   .description('List all endpoints from Swagger (excluding blacklisted)')
-  .requiredOption('--swagger-url <url>', 'Swagger/OpenAPI JSON URL')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)')
   .option('--include-blacklisted', 'Include blacklisted endpoints in output', false)
   .option('--show-full-urls', 'Show full URLs with base URL', false)
+  .option('--server <index|description>', 'Spec server to test against: index into servers or its description (default: first)')
+  .option('--server-var <key=value>', 'Value for a server URL variable (repeatable)', collectServerVar, {})
+  .option('--base-url <url>', 'Base URL override (ignores the spec servers)')
+  .option('--include <filter>', 'Only list endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--exclude <filter>', 'Hide endpoints matching tag:, operationId:, method: or path: filters (repeatable, comma-separated)', collectList, [])
+  .option('--group-by <strategy>', 'Group endpoints by: prefix, tag, operationId-prefix or depth=N', parseGroupByOption, 'prefix')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
   .action(async (options) => {
     try {
       console.log('📋 Fetching endpoints from Swagger...');
       console.log('');
       
-      const { groups, baseUrl } = await parseSwaggerUrl(options.swaggerUrl);
+      const { groups, baseUrl } = await parseSwaggerUrl(options.swaggerUrl, {
+        server: options.server,
+        serverVariables: options.serverVar,
+        baseUrl: options.baseUrl,
+        groupBy: options.groupBy,
+        headers: options.specHeader,
+        cache: options.specCache
+      });
       
       console.log(`Base URL: ${baseUrl}`);
       console.log('');
@@ -257,10 +581,16 @@ program
       let totalCount = 0;
       let blacklistedCount = 0;
       
+      const filters = { include: options.include, exclude: options.exclude };
+      let filteredCount = 0;
+      
       groups.forEach(group => {
+        const selected = group.endpoints.filter(endpoint => isEndpointSelected(endpoint, filters));
+        filteredCount += group.endpoints.length - selected.length;
+        
         const endpoints = options.includeBlacklisted 
-          ? group.endpoints 
-          : filterBlacklistedEndpoints(group.endpoints);
+          ? selected 
+          : filterBlacklistedEndpoints(selected);
         
         if (endpoints.length === 0) return;
         
@@ -287,7 +617,7 @@ program
           totalCount++;
         });
         
-        const blacklisted = group.endpoints.length - endpoints.length;
+        const blacklisted = selected.length - endpoints.length;
         if (blacklisted > 0) {
           blacklistedCount += blacklisted;
           console.log(`  ⊘ ${blacklisted} endpoint(s) blacklisted`);
@@ -296,9 +626,12 @@ program
       
       console.log('');
       console.log('═══════════════════════════════════════');
-      console.log(`Total Endpoints: ${totalCount + blacklistedCount}`);
+      console.log(`Total Endpoints: ${totalCount + blacklistedCount + filteredCount}`);
       console.log(`Testable: ${totalCount}`);
       console.log(`Blacklisted: ${blacklistedCount}`);
+      if (filteredCount > 0) {
+        console.log(`Filtered out: ${filteredCount}`);
+      }
       console.log('═══════════════════════════════════════');
       
       process.exit(0);
@@ -362,9 +695,12 @@ program
 program
   .command('coverage')
   .description('Generate comprehensive API coverage report')
-  .requiredOption('--swagger-url <url>', 'Swagger/OpenAPI JSON URL')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)')
   .option('--test-results <file>', 'JUnit XML test results file to analyze')
   .option('--format <format>', 'Output format: console, markdown, or both', 'both')
+  .option('--group-by <strategy>', 'Group endpoints by: prefix, tag, operationId-prefix or depth=N', parseGroupByOption, 'prefix')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
   .action(async (options) => {
     try {
       console.log('🔍 Generating API Coverage Report...');
@@ -372,7 +708,11 @@ program
       
       // Parse Swagger
       console.log(`📋 Parsing Swagger from: ${options.swaggerUrl}`);
-      const { groups } = await parseSwaggerUrl(options.swaggerUrl);
+      const { groups } = await parseSwaggerUrl(options.swaggerUrl, {
+        groupBy: options.groupBy,
+        headers: options.specHeader,
+        cache: options.specCache
+      });
       
       // Flatten all endpoints
       const allEndpoints: Endpoint[] = [];
@@ -384,7 +724,7 @@ program
       console.log('');
       
       // Create analyzer
-      const analyzer = new CoverageAnalyzer(allEndpoints);
+      const analyzer = new CoverageAnalyzer(allEndpoints, options.groupBy);
       
       // Load test results if provided
       if (options.testResults && existsSync(options.testResults)) {
@@ -396,6 +736,7 @@ program
           
           testResults.forEach(result => {
             analyzer.addTestResult(result.path, result.method, result.passed);
+            result.statuses.forEach(observed => analyzer.addObservedStatus(observed.path, observed.method, observed.status));
           });
           
           console.log(`✅ Loaded ${testResults.length} test results`);
@@ -448,11 +789,313 @@ program
     }
   });
 
+/**
+ * Spec Diff command - Detect breaking changes between two specs
+ */
+program
+  .command('spec-diff')
+  .description('Compare two specs and classify changes as breaking, non-breaking or info')
+  .requiredOption('--old <source>', 'Baseline spec (URL, file path, or - for stdin; JSON or YAML)')
+  .requiredOption('--new <source>', 'Changed spec (URL, file path, or - for stdin; JSON or YAML)')
+  .option('--markdown <file>', 'Write a Markdown report to this file')
+  .option('--junit <file>', 'Write a JUnit XML report to this file')
+  .option('--fail-on <severity>', 'Exit non-zero on changes of this severity or worse: breaking, non-breaking, info, or none', 'breaking')
+  .option('--spec-header <name:value>', 'Header sent when fetching spec URLs, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache fetched specs or fall back to the last cached copy')
+  .action(async (options) => {
+    try {
+      const failOnLevels: Record<string, ChangeSeverity[]> = {
+        'breaking': ['breaking'],
+        'non-breaking': ['breaking', 'non-breaking'],
+        'info': ['breaking', 'non-breaking', 'info'],
+        'none': [],
+      };
+      const failOn = failOnLevels[options.failOn];
+      if (!failOn) {
+        throw new Error(`Invalid --fail-on value: ${options.failOn} (expected breaking, non-breaking, info or none)`);
+      }
+      if (options.old === '-' && options.new === '-') {
+        throw new Error('Only one of --old and --new can be read from stdin');
+      }
+
+      console.log('🔍 Comparing API specs...');
+      console.log('');
+
+      const fetchOptions = { headers: options.specHeader, cache: options.specCache };
+      console.log(`📋 Old spec: ${options.old}`);
+      const oldSpec = await parseSwaggerUrl(options.old, fetchOptions);
+      console.log(`📋 New spec: ${options.new}`);
+      const newSpec = await parseSwaggerUrl(options.new, fetchOptions);
+      console.log('');
+
+      const result = diffSpecs(
+        oldSpec.groups.flatMap(group => group.endpoints),
+        newSpec.groups.flatMap(group => group.endpoints)
+      );
+
+      printSpecDiff(result);
+      console.log('');
+
+      if (options.markdown) {
+        writeFileSync(options.markdown, specDiffToMarkdown(result, options.old, options.new), 'utf-8');
+        console.log(`📄 Markdown report saved to: ${options.markdown}`);
+      }
+
+      if (options.junit) {
+        writeJUnitReport(specDiffToTestResults(result, failOn), options.junit, 'API Spec Diff');
+      }
+
+      const failing = result.changes.filter(change => failOn.includes(change.severity)).length;
+      if (failing > 0) {
+        console.log(`❌ ${failing} change(s) at or above "${options.failOn}" severity`);
+        process.exit(1);
+      }
+
+      console.log('✅ No blocking spec changes');
+      process.exit(0);
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Lint Spec command - Report contract-quality issues in a spec
+ */
+program
+  .command('lint-spec')
+  .description('Check a spec for contract-quality issues (operationIds, response schemas, path parameters, examples)')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)')
+  .option('--config <file>', `Config file with lint.rules severities (default: ${DEFAULT_CONFIG_FILES.join(', ')})`)
+  .option('--rule <rule=severity>', 'Override a rule severity: error, warn or off (repeatable)', collectRuleSeverity, {})
+  .option('--markdown <file>', 'Write a Markdown report to this file')
+  .option('--junit <file>', 'Write a JUnit XML report to this file')
+  .option('--fail-on <severity>', 'Exit non-zero on issues of this severity or worse: error, warn, or none', 'error')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .action(async (options) => {
+    try {
+      if (!['error', 'warn', 'none'].includes(options.failOn)) {
+        throw new Error(`Invalid --fail-on value: ${options.failOn} (expected error, warn or none)`);
+      }
+
+      const config = loadConfig(options.config);
+      const severities = { ...(config.lint?.rules || {}), ...options.rule };
+
+      console.log('🔍 Linting API spec...');
+      console.log('');
+      console.log(`📋 Spec: ${options.swaggerUrl}`);
+      const spec = await parseSwaggerUrl(options.swaggerUrl, { headers: options.specHeader, cache: options.specCache });
+      console.log('');
+
+      const result = lintSpec(spec.groups.flatMap(group => group.endpoints), severities);
+
+      printSpecLint(result);
+      console.log('');
+
+      if (options.markdown) {
+        writeFileSync(options.markdown, specLintToMarkdown(result, options.swaggerUrl), 'utf-8');
+        console.log(`📄 Markdown report saved to: ${options.markdown}`);
+      }
+
+      if (options.junit) {
+        writeJUnitReport(specLintToTestResults(result, options.failOn === 'warn'), options.junit, 'API Spec Lint');
+      }
+
+      const failing = options.failOn === 'none' ? 0 : options.failOn === 'warn' ? result.errors + result.warnings : result.errors;
+      if (failing > 0) {
+        console.log(`❌ ${failing} issue(s) at or above "${options.failOn}" severity`);
+        process.exit(1);
+      }
+
+      console.log('✅ No blocking lint issues');
+      process.exit(0);
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Generate Body command - Build request bodies from the requestBody schema
+ */
+program
+  .command('generate-body')
+  .description('Generate request bodies from the requestBody schema (JSON, or POST fixture scaffolds)')
+  .requiredOption('--swagger-url <source>', 'Swagger/OpenAPI spec (URL, file path, or - for stdin; JSON or YAML)')
+  .option('--endpoint <endpoint>', 'Endpoint, e.g. "POST /api/v2/systems/{system}" (repeatable; default: all POST endpoints)', collectList, [])
+  .option('--seed <n>', 'Seed for generated values (same seed, same bodies)', parseIntegerOption, 1)
+  .option('--required-only', 'Only generate required properties', false)
+  .option('--format <format>', 'Output format: json or fixture (POST_TEST_CASES entries)', 'json')
+  .option('--output <file>', 'Write to this file instead of stdout')
+  .option('--spec-header <name:value>', 'Header sent when fetching the spec URL, e.g. "Authorization: Bearer ..." (repeatable)', collectHeader, {})
+  .option('--no-spec-cache', 'Do not cache the fetched spec or fall back to the last cached copy')
+  .action(async (options) => {
+    try {
+      if (!['json', 'fixture'].includes(options.format)) {
+        throw new Error(`Invalid --format value: ${options.format} (expected json or fixture)`);
+      }
+
+      const { groups } = await parseSwaggerUrl(options.swaggerUrl, { headers: options.specHeader, cache: options.specCache });
+      const allEndpoints = groups.flatMap(group => group.endpoints);
+
+      const endpoints = options.endpoint.length > 0
+        ? options.endpoint.map((pattern: string) => {
+            const [method, path] = /^[A-Z]+\s/.test(pattern) ? pattern.split(/\s+/, 2) : ['POST', pattern];
+            const endpoint = allEndpoints.find(e => e.method === method && e.path === path);
+            if (!endpoint) {
+              throw new Error(`Endpoint not found in spec: ${method} ${path}`);
+            }
+            return endpoint;
+          })
+        : allEndpoints.filter(e => e.method === 'POST');
+
+      const generatedBodies: Record<string, unknown> = {};
+      const testCases: PostTestCase[] = [];
+
+      for (const endpoint of endpoints as Endpoint[]) {
+        const name = `${endpoint.method} ${endpoint.path}`;
+        const generated = generateRequestBody(endpoint, { seed: options.seed, includeOptional: !options.requiredOnly });
+        if (!generated) {
+          console.error(`⚠️  ${name}: no request body schema - skipped`);
+          continue;
+        }
+
+        const violations = validateAgainstSchema(generated.body, getRequestSchema(endpoint)!.schema);
+        for (const violation of violations) {
+          console.error(`⚠️  ${name}: generated ${violation.pointer || '/'} does not match the schema - ${violation.message}`);
+        }
+
+        generatedBodies[name] = generated.body;
+        testCases.push(scaffoldTestCase(endpoint, generated, allEndpoints));
+      }
+
+      const output = options.format === 'fixture'
+        ? formatTestCases(testCases)
+        : JSON.stringify(options.endpoint.length === 1 ? Object.values(generatedBodies)[0] ?? null : generatedBodies, null, 2) + '\n';
+
+      if (options.output) {
+        writeFileSync(options.output, output, 'utf-8');
+        console.error(`📄 ${testCases.length} generated bodies saved to: ${options.output}`);
+      } else {
+        process.stdout.write(output);
+      }
+      process.exit(0);
+
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error('');
+      console.error('❌ Error:', err.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Helper: Collect repeatable list options (e.g. --include, --exclude)
+ */
+function collectList(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Helper: Parse integer options (e.g. --seed)
+ */
+function parseIntegerOption(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || String(parsed) !== value.trim()) {
+    throw new InvalidArgumentError('Expected an integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Helper: Validate --group-by values
+ */
+function parseGroupByOption(value: string): string {
+  try {
+    parseGroupBy(value);
+  } catch (error: unknown) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+  return value;
+}
+
+/**
+ * Helper: Parse ratio options between 0 and 1 (e.g. --error-rate)
+ */
+function parseRatioOption(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || isNaN(parsed) || parsed < 0 || parsed > 1) {
+    throw new InvalidArgumentError('Expected a number between 0 and 1.');
+  }
+  return parsed;
+}
+
+/**
+ * Helper: Validate --compare-mode values
+ */
+function parseCompareMode(value: string): CompareMode {
+  if (value !== 'value' && value !== 'shape') {
+    throw new InvalidArgumentError('Expected value or shape');
+  }
+  return value;
+}
+
+/**
+ * Helper: Collect repeatable --spec-header "Name: value" options
+ */
+function collectHeader(value: string, previous: Record<string, string>): Record<string, string> {
+  const separator = value.indexOf(':');
+  if (separator <= 0) {
+    throw new InvalidArgumentError('Expected "Name: value".');
+  }
+  return { ...previous, [value.substring(0, separator).trim()]: value.substring(separator + 1).trim() };
+}
+
+/**
+ * Helper: Collect repeatable --server-var key=value options
+ */
+function collectServerVar(value: string, previous: Record<string, string>): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new InvalidArgumentError('Expected key=value.');
+  }
+  return { ...previous, [value.substring(0, separator)]: value.substring(separator + 1) };
+}
+
+/**
+ * Helper: Collect repeatable --rule rule=severity options
+ */
+function collectRuleSeverity(value: string, previous: Record<string, LintSeverity>): Record<string, LintSeverity> {
+  const separator = value.indexOf('=');
+  const rule = value.substring(0, separator);
+  const severity = value.substring(separator + 1);
+  if (separator <= 0 || !['error', 'warn', 'off'].includes(severity)) {
+    throw new InvalidArgumentError('Expected rule=severity with severity error, warn or off.');
+  }
+  if (!LINT_RULES[rule]) {
+    throw new InvalidArgumentError(`Unknown rule "${rule}" (available: ${Object.keys(LINT_RULES).join(', ')}).`);
+  }
+  return { ...previous, [rule]: severity as LintSeverity };
+}
+
+interface JUnitObservedStatus {
+  method: string;
+  path: string;
+  status: number;
+}
+
 /**
  * Helper: Parse JUnit XML to extract test results
  */
-function parseJUnitXML(xmlContent: string): Array<{ path: string; method: string; passed: boolean }> {
-  const results: Array<{ path: string; method: string; passed: boolean }> = [];
+function parseJUnitXML(xmlContent: string): Array<{ path: string; method: string; passed: boolean; statuses: JUnitObservedStatus[] }> {
+  const results: Array<{ path: string; method: string; passed: boolean; statuses: JUnitObservedStatus[] }> = [];
   
   // Simple XML parsing - look for testcase elements
   const testcaseRegex = /<testcase[^>]*name="([^"]*)"[^>]*>/g;
@@ -471,20 +1114,33 @@ function parseJUnitXML(xmlContent: string): Array<{ path: string; method: string
     // Check if it has a failure
     const hasFailed = testcaseContent.includes('<failure');
     
+    // Observed response statuses: <property name="status" value="GET /path 200 documented-success"/>
+    const statuses: JUnitObservedStatus[] = [];
+    const propertyRegex = /<property name="status" value="([^"]*)"\/>/g;
+    let property;
+    while ((property = propertyRegex.exec(testcaseContent)) !== null) {
+      const statusMatch = unescapeXml(property[1]).match(/^(GET|POST|PUT|DELETE|PATCH) (\S+) (\d{3})\b/);
+      if (statusMatch) {
+        statuses.push({ method: statusMatch[1], path: statusMatch[2], status: parseInt(statusMatch[3], 10) });
+      }
+    }
+    
     // Parse test name (format: "METHOD /path" or just path)
     const methodMatch = testName.match(/^(GET|POST|PUT|DELETE|PATCH)\s+(.+)$/);
     if (methodMatch) {
       results.push({
         method: methodMatch[1],
         path: methodMatch[2],
-        passed: !hasFailed
+        passed: !hasFailed,
+        statuses
       });
     } else {
       // Assume GET if no method prefix
       results.push({
         method: 'GET',
         path: testName,
-        passed: !hasFailed
+        passed: !hasFailed,
+        statuses
       });
     }
   }
@@ -492,6 +1148,15 @@ function parseJUnitXML(xmlContent: string): Array<{ path: string; method: string
   return results;
 }
 
+function unescapeXml(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 /**
  * Helper: Get color/symbol for HTTP method
  */
@@ -520,7 +1185,7 @@ program.configureHelp({
 // Show custom help when no args or --help
 if (process.argv.length <= 2 || process.argv.includes('-h') || process.argv.includes('--help')) {
   // Let commander handle subcommand --help normally (e.g. "gate test --help")
-  const subcommands = ['test', 'test-posts', 'vm-start', 'list-endpoints', 'get', 'coverage'];
+  const subcommands = ['test', 'test-posts', 'vm-start', 'list-endpoints', 'get', 'coverage', 'spec-diff', 'lint-spec', 'generate-body'];
   const hasSubcommand = process.argv.some(arg => subcommands.includes(arg));
   if (!hasSubcommand) {
     if (process.argv.includes('--demo')) {
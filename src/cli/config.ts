@@ -0,0 +1,178 @@
+/**
+ * Config File
+ *
+ * Optional project configuration, loaded from --config <file> or, when not
+ * given, from the first of DEFAULT_CONFIG_FILES found in the working directory.
+ * JSON and YAML are both supported.
+ *
+ * Example (gate.config.yaml):
+ *   lint:
+ *     rules:
+ *       operation-id-missing: error
+ *       required-query-param-example-missing: off
+ *   expectedStatus:
+ *     GET /api/v2/jobs/{job}: [200, 404]
+ *     DELETE /api/v2/systems/{system}: 204
+ *   compare:
+ *     ignore: [$.items[*].lastRun]
+ *     typeOnly: [duration]
+ *     masks:
+ *       guid: true
+ *       runId: '^run-\d+$'
+ *     arrays:
+ *       $.items: unordered
+ *     endpoints:
+ *       GET /api/v2/sourcefiles:
+ *         ignore: [$..runTimestamp]
+ *         arrays: { $: key:sourceFilename }
+ *       GET /api/v2/systems:
+ *         mode: shape
+ *   auth:
+ *     type: oauth2
+ *     grantType: client_credentials
+ *     tokenUrl: https://login.example.com/oauth/token
+ *     clientId: regression-suite
+ *     scope: api.read api.write
+ *     clientCert: ./certs/client.pem
+ *     clientKey: ./certs/client.key
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { parseDocumentContent } from '../lib/spec-loader.js';
+import { LintSeverity } from '../lib/spec-lint.js';
+import { CompareRules, CompareRuleSet, resolveCompareRules } from '../lib/comparator.js';
+import { AuthConfig } from '../types/index.js';
+
+export interface GateConfig {
+  lint?: {
+    /** Severity per lint rule: error, warn or off */
+    rules?: Record<string, LintSeverity>;
+  };
+  /**
+   * Statuses each endpoint ("METHOD /path") is expected to return, instead of its documented
+   * successes. A single code in the file is normalized to a list.
+   */
+  expectedStatus?: Record<string, number[]>;
+  /**
+   * Auth strategy for test, test-posts and spec fetching (CLI flags take precedence).
+   * Certificate paths are resolved relative to the config file.
+   */
+  auth?: Partial<AuthConfig>;
+  /** Rules that suppress comparison differences: ignored paths, type-only paths, value masks */
+  compare?: CompareRules;
+}
+
+const AUTH_TYPES = ['none', 'bearer', 'apikey', 'oauth2', 'basic'];
+const GRANT_TYPES = ['password', 'client_credentials'];
+const API_KEY_LOCATIONS = ['header', 'query', 'cookie'];
+
+export const DEFAULT_CONFIG_FILES = ['gate.config.yaml', 'gate.config.yml', 'gate.config.json'];
+
+/**
+ * Load the config file
+ * @param configPath - Explicit path (must exist); otherwise the default files are tried
+ * @returns The parsed config, or an empty config when no file is found
+ */
+export function loadConfig(configPath?: string): GateConfig {
+  let path: string | undefined;
+
+  if (configPath) {
+    path = resolve(process.cwd(), configPath);
+    if (!existsSync(path)) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+  } else {
+    path = DEFAULT_CONFIG_FILES.map(file => resolve(process.cwd(), file)).find(file => existsSync(file));
+  }
+
+  if (!path) {
+    return {};
+  }
+
+  const config = parseDocumentContent(readFileSync(path, 'utf-8'), path) as GateConfig;
+  validateConfig(config, path);
+  return config;
+}
+
+function validateConfig(config: GateConfig, path: string): void {
+  const rules = config.lint?.rules || {};
+  for (const [rule, severity] of Object.entries(rules)) {
+    if (!['error', 'warn', 'off'].includes(severity)) {
+      throw new Error(`Invalid severity "${severity}" for lint rule "${rule}" in ${path} (expected error, warn or off)`);
+    }
+  }
+
+  const expectedStatus = (config.expectedStatus || {}) as Record<string, unknown>;
+  for (const [endpoint, value] of Object.entries(expectedStatus)) {
+    if (!/^(GET|POST|PUT|PATCH|DELETE) \//.test(endpoint)) {
+      throw new Error(`Invalid expectedStatus key "${endpoint}" in ${path} (expected "METHOD /path", e.g. "GET /api/v2/jobs/{job}")`);
+    }
+    const statuses = Array.isArray(value) ? value : [value];
+    if (statuses.length === 0 || !statuses.every(status => Number.isInteger(status) && status >= 100 && status <= 599)) {
+      throw new Error(`Invalid expectedStatus for "${endpoint}" in ${path} (expected a status code or a list of status codes)`);
+    }
+    expectedStatus[endpoint] = statuses;
+  }
+
+  if (config.compare) {
+    validateCompareRules(config.compare, path);
+  }
+
+  const auth = config.auth;
+  if (auth) {
+    if (auth.type !== undefined && !AUTH_TYPES.includes(auth.type)) {
+      throw new Error(`Invalid auth type "${auth.type}" in ${path} (expected ${AUTH_TYPES.join(', ')})`);
+    }
+    if (auth.grantType !== undefined && !GRANT_TYPES.includes(auth.grantType)) {
+      throw new Error(`Invalid auth grantType "${auth.grantType}" in ${path} (expected ${GRANT_TYPES.join(' or ')})`);
+    }
+    if (auth.apiKeyIn !== undefined && !API_KEY_LOCATIONS.includes(auth.apiKeyIn)) {
+      throw new Error(`Invalid auth apiKeyIn "${auth.apiKeyIn}" in ${path} (expected ${API_KEY_LOCATIONS.join(', ')})`);
+    }
+    for (const key of ['clientCert', 'clientKey', 'caCert'] as const) {
+      if (auth[key]) {
+        auth[key] = resolve(dirname(path), String(auth[key]));
+      }
+    }
+  }
+}
+
+function validateCompareRules(compare: CompareRules, path: string): void {
+  const validateSet = (set: CompareRuleSet & { metaFields?: unknown }, where: string) => {
+    for (const key of ['ignore', 'typeOnly', 'metaFields'] as const) {
+      const value = set[key];
+      if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string'))) {
+        throw new Error(`Invalid ${where}.${key} in ${path} (expected a list of paths or field names)`);
+      }
+    }
+    if (set.mode !== undefined && set.mode !== 'value' && set.mode !== 'shape') {
+      throw new Error(`Invalid ${where}.mode "${set.mode}" in ${path} (expected value or shape)`);
+    }
+    if (set.arrays !== undefined && (typeof set.arrays !== 'object' || set.arrays === null || Array.isArray(set.arrays))) {
+      throw new Error(`Invalid ${where}.arrays in ${path} (expected a map of array paths to ordered, unordered or key:<field>)`);
+    }
+    for (const [name, pattern] of Object.entries(set.masks || {})) {
+      if (pattern !== true && typeof pattern !== 'string') {
+        throw new Error(`Invalid ${where}.masks.${name} in ${path} (expected a regex, or true for a built-in mask)`);
+      }
+    }
+  };
+
+  validateSet(compare, 'compare');
+  for (const [endpoint, set] of Object.entries(compare.endpoints || {})) {
+    if (!/^(GET|POST|PUT|PATCH|DELETE) \//.test(endpoint)) {
+      throw new Error(`Invalid compare.endpoints key "${endpoint}" in ${path} (expected "METHOD /path", e.g. "GET /api/v2/sourcefiles")`);
+    }
+    validateSet(set, `compare.endpoints["${endpoint}"]`);
+  }
+
+  // Compile every pattern and mask once, so mistakes surface before the run
+  try {
+    resolveCompareRules(compare);
+    Object.keys(compare.endpoints || {}).forEach(endpoint => resolveCompareRules(compare, endpoint));
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new Error(`Invalid compare rules in ${path}: ${err.message}`);
+  }
+}
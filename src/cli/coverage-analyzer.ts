@@ -4,6 +4,8 @@
  */
 
 import { Endpoint } from '../types/index.js';
+import { getGroupKey, GroupingStrategy, parseGroupBy } from '../lib/endpoint-grouping.js';
+import { findDocumentedStatus, getDocumentedStatuses } from '../lib/status-check.js';
 
 export interface CoverageStats {
   total: number;
@@ -21,6 +23,11 @@ export interface CoverageStats {
     tested: number;
     passing: number;
   }>;
+  byGroup: Record<string, {
+    total: number;
+    tested: number;
+    passing: number;
+  }>;
   getResults: {
     total: number;
     passing: number;
@@ -35,20 +42,47 @@ export interface CoverageStats {
     total: number;
     autoTestable: number;
   };
+  statusCodes: {
+    /** Documented response statuses, over all endpoints */
+    documented: number;
+    /** Documented response statuses returned at least once */
+    observed: number;
+    /** Observed statuses that no documented response covers */
+    undocumented: number;
+    /** Endpoints with observed statuses */
+    byEndpoint: Array<{
+      method: string;
+      path: string;
+      documented: string[];
+      observed: string[];
+      undocumented: number[];
+    }>;
+  };
 }
 
 export class CoverageAnalyzer {
   private endpoints: Endpoint[];
+  private grouping: GroupingStrategy;
   private testResults: Map<string, boolean> = new Map();
+  private observedStatuses: Map<string, Set<number>> = new Map();
   
-  constructor(endpoints: Endpoint[]) {
+  constructor(endpoints: Endpoint[], groupBy: string = 'prefix') {
     this.endpoints = endpoints;
+    this.grouping = parseGroupBy(groupBy);
   }
 
   addTestResult(path: string, method: string, passed: boolean): void {
     this.testResults.set(`${method}:${path}`, passed);
   }
 
+  addObservedStatus(path: string, method: string, status: number): void {
+    const key = `${method}:${path}`;
+    if (!this.observedStatuses.has(key)) {
+      this.observedStatuses.set(key, new Set());
+    }
+    this.observedStatuses.get(key)!.add(status);
+  }
+
   analyze(): CoverageStats {
     const stats: CoverageStats = {
       total: this.endpoints.length,
@@ -62,6 +96,7 @@ export class CoverageAnalyzer {
         PATCH: 0
       },
       byVersion: {},
+      byGroup: {},
       getResults: {
         total: 0,
         passing: 0,
@@ -75,6 +110,12 @@ export class CoverageAnalyzer {
       postResults: {
         total: 0,
         autoTestable: 0
+      },
+      statusCodes: {
+        documented: 0,
+        observed: 0,
+        undocumented: 0,
+        byEndpoint: []
       }
     };
 
@@ -95,6 +136,12 @@ export class CoverageAnalyzer {
       }
       stats.byVersion[version].total++;
 
+      const group = getGroupKey(endpoint, this.grouping);
+      if (!stats.byGroup[group]) {
+        stats.byGroup[group] = { total: 0, tested: 0, passing: 0 };
+      }
+      stats.byGroup[group].total++;
+
       // Check if endpoint was tested
       const testKey = `${method}:${endpoint.path}`;
       const wasTested = this.testResults.has(testKey);
@@ -102,10 +149,12 @@ export class CoverageAnalyzer {
       if (wasTested) {
         stats.tested++;
         stats.byVersion[version].tested++;
+        stats.byGroup[group].tested++;
         
         const passed = this.testResults.get(testKey);
         if (passed) {
           stats.byVersion[version].passing++;
+          stats.byGroup[group].passing++;
         }
       }
 
@@ -127,6 +176,31 @@ export class CoverageAnalyzer {
       } else if (method === 'POST') {
         stats.postResults.total++;
       }
+
+      // Documented response statuses that the tests actually returned
+      const documented = getDocumentedStatuses(endpoint);
+      const observed = new Set<string>();
+      const undocumented: number[] = [];
+      for (const status of this.observedStatuses.get(testKey) || []) {
+        const documentedAs = findDocumentedStatus(endpoint, status);
+        if (documentedAs) {
+          observed.add(documentedAs);
+        } else {
+          undocumented.push(status);
+        }
+      }
+      stats.statusCodes.documented += documented.length;
+      stats.statusCodes.observed += observed.size;
+      stats.statusCodes.undocumented += undocumented.length;
+      if (this.observedStatuses.has(testKey)) {
+        stats.statusCodes.byEndpoint.push({
+          method,
+          path: endpoint.path,
+          documented,
+          observed: documented.filter(status => observed.has(status)),
+          undocumented: undocumented.sort((a, b) => a - b),
+        });
+      }
     }
 
     stats.blacklisted = stats.total - stats.tested;
@@ -189,6 +263,21 @@ export class CoverageAnalyzer {
     }
     lines.push('');
     
+    // Response status codes
+    if (stats.statusCodes.byEndpoint.length > 0) {
+      lines.push('🚦 RESPONSE STATUS CODES:');
+      lines.push(`├─ Documented: ${stats.statusCodes.documented}`);
+      lines.push(`├─ Observed: ${stats.statusCodes.observed} (${this.percentage(stats.statusCodes.observed, stats.statusCodes.documented)})`);
+      const undocumentedCheck = stats.statusCodes.undocumented > 0 ? '❌' : '✅';
+      lines.push(`└─ Undocumented statuses returned: ${stats.statusCodes.undocumented} ${undocumentedCheck}`);
+      stats.statusCodes.byEndpoint
+        .filter(entry => entry.undocumented.length > 0)
+        .forEach(entry => {
+          lines.push(`   └─ ${entry.method} ${entry.path}: ${entry.undocumented.join(', ')} (documented: ${entry.documented.join(', ') || 'none'})`);
+        });
+      lines.push('');
+    }
+    
     // By API version
     lines.push('🎯 COVERAGE BY API VERSION:');
     const versions = Object.keys(stats.byVersion).sort();
@@ -200,6 +289,16 @@ export class CoverageAnalyzer {
     });
     lines.push('');
     
+    // By group
+    lines.push('📁 COVERAGE BY GROUP:');
+    const groups = Object.keys(stats.byGroup).sort();
+    groups.forEach((group, index) => {
+      const gStats = stats.byGroup[group];
+      const prefix = index === groups.length - 1 ? '└─' : '├─';
+      lines.push(`${prefix} ${group}: ${gStats.total} endpoints → ${gStats.tested} tested, ${gStats.passing} passing (${this.percentage(gStats.passing, gStats.total)})`);
+    });
+    lines.push('');
+    
     // Recommendations
     lines.push('💡 RECOMMENDATIONS:');
     lines.push('1. ✅ All GET endpoints regression tested automatically');
@@ -249,6 +348,20 @@ export class CoverageAnalyzer {
     }
     lines.push('');
     
+    if (stats.statusCodes.byEndpoint.length > 0) {
+      lines.push('## Response Status Codes');
+      lines.push('');
+      lines.push(`${stats.statusCodes.observed} of ${stats.statusCodes.documented} documented statuses observed (${this.percentage(stats.statusCodes.observed, stats.statusCodes.documented)}), ${stats.statusCodes.undocumented} undocumented statuses returned.`);
+      lines.push('');
+      lines.push('| Endpoint | Documented | Observed | Not observed | Undocumented |');
+      lines.push('|----------|------------|----------|--------------|--------------|');
+      stats.statusCodes.byEndpoint.forEach(entry => {
+        const notObserved = entry.documented.filter(status => !entry.observed.includes(status));
+        lines.push(`| ${entry.method} ${entry.path} | ${entry.documented.join(', ') || '-'} | ${entry.observed.join(', ') || '-'} | ${notObserved.join(', ') || '-'} | ${entry.undocumented.join(', ') || '-'} |`);
+      });
+      lines.push('');
+    }
+    
     lines.push('## Coverage by API Version');
     lines.push('');
     lines.push('| Version | Total | Tested | Passing | Coverage |');
@@ -259,6 +372,16 @@ export class CoverageAnalyzer {
     });
     lines.push('');
     
+    lines.push('## Coverage by Group');
+    lines.push('');
+    lines.push('| Group | Total | Tested | Passing | Coverage |');
+    lines.push('|-------|-------|--------|---------|----------|');
+    Object.keys(stats.byGroup).sort().forEach(group => {
+      const gStats = stats.byGroup[group];
+      lines.push(`| ${group} | ${gStats.total} | ${gStats.tested} | ${gStats.passing} | ${this.percentage(gStats.passing, gStats.total)} |`);
+    });
+    lines.push('');
+    
     lines.push('## Recommendations');
     lines.push('');
     lines.push('### ✅ Automated Testing');
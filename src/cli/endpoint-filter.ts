@@ -0,0 +1,184 @@
+/**
+ * Endpoint Selection Filters
+ *
+ * Narrows a test run with --include / --exclude terms:
+ * - tag:<name>          OpenAPI tag (case-insensitive)
+ * - operationId:<id>    operationId (alias: op:<id>)
+ * - method:<METHOD>     HTTP method
+ * - path:<glob>         Path glob: * matches within a segment, ** across segments
+ *
+ * Unprefixed terms are guessed: an HTTP method name is a method, a term starting
+ * with "/" is a path glob, anything else matches a tag, an operationId or a
+ * literal path segment (so "model" selects /api/v2/model/{mObject}).
+ * Terms can be joined with "+" to require all of them (tag:model+method:GET).
+ *
+ * An endpoint is tested when it matches any include term (or no includes are
+ * given) and no exclude term. The blacklist always applies.
+ */
+
+import { Endpoint, EndpointGroup } from '../types/index.js';
+import { isEndpointExcluded } from './blacklist.js';
+
+export interface EndpointFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+export type SkipReason = 'blacklisted' | 'excluded' | 'notIncluded';
+
+export interface EndpointSelection {
+  groups: EndpointGroup[];
+  total: number;
+  selected: number;
+  skipped: Record<SkipReason, number>;
+}
+
+type FilterKind = 'tag' | 'operationId' | 'method' | 'path' | 'any';
+
+interface FilterCondition {
+  kind: FilterKind;
+  value: string;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const PREFIXES: Record<string, FilterKind> = {
+  tag: 'tag',
+  operationid: 'operationId',
+  op: 'operationId',
+  method: 'method',
+  path: 'path',
+};
+
+/**
+ * Split comma-separated filter values (e.g. "--include tag:model,tag:schedule")
+ */
+export function parseFilterList(values: string[] | undefined): string[] {
+  return (values || [])
+    .flatMap(value => value.split(','))
+    .map(term => term.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check if an endpoint matches a filter term
+ */
+export function matchesFilter(endpoint: Endpoint, term: string): boolean {
+  return term.split('+').map(parseCondition).every(condition => matchesCondition(endpoint, condition));
+}
+
+/**
+ * Check if an endpoint passes the include/exclude filters (ignores the blacklist)
+ */
+export function isEndpointSelected(endpoint: Endpoint, filters: EndpointFilters = {}): boolean {
+  return filterSkipReason(endpoint, parseFilterList(filters.include), parseFilterList(filters.exclude)) === null;
+}
+
+/**
+ * Apply blacklist and include/exclude filters to endpoint groups
+ */
+export function selectEndpoints(groups: EndpointGroup[], filters: EndpointFilters = {}): EndpointSelection {
+  const include = parseFilterList(filters.include);
+  const exclude = parseFilterList(filters.exclude);
+  const skipped: Record<SkipReason, number> = { blacklisted: 0, excluded: 0, notIncluded: 0 };
+  let total = 0;
+
+  const selectedGroups = groups.map(group => ({
+    ...group,
+    endpoints: group.endpoints.filter(endpoint => {
+      total++;
+      const reason = isEndpointExcluded(endpoint.method, endpoint.path)
+        ? 'blacklisted'
+        : filterSkipReason(endpoint, include, exclude);
+      if (reason) {
+        skipped[reason]++;
+        return false;
+      }
+      return true;
+    })
+  })).filter(group => group.endpoints.length > 0);
+
+  const selected = selectedGroups.reduce((sum, g) => sum + g.endpoints.length, 0);
+  return { groups: selectedGroups, total, selected, skipped };
+}
+
+/**
+ * Describe skipped counts by reason, e.g. "3 blacklisted, 12 not matching --include"
+ */
+export function describeSkipped(skipped: Record<SkipReason, number>): string {
+  const parts: string[] = [];
+  if (skipped.blacklisted > 0) parts.push(`${skipped.blacklisted} blacklisted`);
+  if (skipped.notIncluded > 0) parts.push(`${skipped.notIncluded} not matching --include`);
+  if (skipped.excluded > 0) parts.push(`${skipped.excluded} matching --exclude`);
+  return parts.length > 0 ? parts.join(', ') : '0 skipped';
+}
+
+function filterSkipReason(endpoint: Endpoint, include: string[], exclude: string[]): SkipReason | null {
+  if (include.length > 0 && !include.some(term => matchesFilter(endpoint, term))) {
+    return 'notIncluded';
+  }
+  if (exclude.some(term => matchesFilter(endpoint, term))) {
+    return 'excluded';
+  }
+  return null;
+}
+
+function parseCondition(term: string): FilterCondition {
+  const separator = term.indexOf(':');
+  if (separator > 0) {
+    const kind = PREFIXES[term.substring(0, separator).toLowerCase()];
+    if (kind) {
+      return { kind, value: term.substring(separator + 1) };
+    }
+  }
+
+  if (HTTP_METHODS.includes(term.toUpperCase())) {
+    return { kind: 'method', value: term };
+  }
+  if (term.startsWith('/')) {
+    return { kind: 'path', value: term };
+  }
+  return { kind: 'any', value: term };
+}
+
+function matchesCondition(endpoint: Endpoint, condition: FilterCondition): boolean {
+  const value = condition.value.toLowerCase();
+  const tagMatch = () => (endpoint.tags || []).some(tag => tag.toLowerCase() === value);
+  const operationMatch = () => (endpoint.operationId || '').toLowerCase() === value;
+
+  switch (condition.kind) {
+    case 'tag':
+      return tagMatch();
+    case 'operationId':
+      return operationMatch();
+    case 'method':
+      return endpoint.method === condition.value.toUpperCase();
+    case 'path':
+      return globToRegExp(condition.value).test(endpoint.path);
+    case 'any':
+      return tagMatch() || operationMatch() ||
+        endpoint.path.toLowerCase().split('/').includes(value);
+  }
+}
+
+/**
+ * Convert a path glob to a regular expression
+ * "**" matches across segments, "*" within one segment, "?" a single character.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
@@ -0,0 +1,70 @@
+/**
+ * Fixture Scaffold
+ * Turns generated request bodies into POST_TEST_CASES entries (see test-fixtures.ts)
+ */
+
+import { Endpoint, PostTestCase } from '../types/index.js';
+import { GeneratedBody } from '../lib/body-generator.js';
+
+/**
+ * Build a POST test case for an endpoint from a generated body.
+ * Verify and cleanup endpoints are the GET and DELETE on the same path, when documented.
+ */
+export function scaffoldTestCase(endpoint: Endpoint, generated: GeneratedBody, allEndpoints: Endpoint[]): PostTestCase {
+  const samePath = (method: string) => allEndpoints.find(e => e.method === method && e.path === endpoint.path);
+  const successStatus = Object.keys(endpoint.responses || {}).find(status => /^2\d\d$/.test(status));
+
+  const testCase: PostTestCase = {
+    endpoint: `${endpoint.method} ${endpoint.path}`,
+    description: endpoint.summary || `Create ${endpoint.path.split('/').filter(p => p && !p.includes('{')).pop() || 'resource'}`,
+    pathParams: generated.pathParams,
+    requestBody: generated.body as Record<string, unknown>,
+    expectedStatus: successStatus ? parseInt(successStatus, 10) : 200,
+    ...(samePath('GET') ? { verifyEndpoint: `GET ${endpoint.path}` } : {}),
+    ...(samePath('DELETE') ? { cleanupEndpoint: `DELETE ${endpoint.path}` } : {}),
+    priority: 10,
+    module: endpoint.tags?.[0] || endpoint.path.split('/').filter(Boolean).find(p => !/^(api|v\d+)$/i.test(p)) || 'Generated',
+  };
+
+  return testCase;
+}
+
+/**
+ * Render test cases as TypeScript, ready to paste into POST_TEST_CASES
+ */
+export function formatTestCases(testCases: PostTestCase[]): string {
+  return testCases.map(testCase => `  ${toTsLiteral(testCase, '  ')},`).join('\n\n') + '\n';
+}
+
+/**
+ * Serialize a value as a TypeScript literal in the style of test-fixtures.ts
+ * (unquoted keys where possible, single-quoted strings, trailing commas)
+ */
+function toTsLiteral(value: unknown, indent: string): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+
+  const inner = indent + '  ';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${toTsLiteral(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '{}';
+  const pairs = entries.map(([key, v]) => {
+    const safeKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : toTsLiteral(key, inner);
+    return `${safeKey}: ${toTsLiteral(v, inner)}`;
+  });
+
+  // Small flat objects stay on one line, e.g. pathParams: { system: '__test__system' }
+  const inline = `{ ${pairs.join(', ')} }`;
+  if (entries.every(([, v]) => v === null || typeof v !== 'object') && inline.length <= 60) {
+    return inline;
+  }
+  return `{\n${pairs.map(pair => `${inner}${pair},`).join('\n')}\n${indent}}`;
+}
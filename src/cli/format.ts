@@ -42,8 +42,14 @@ export function customHelp(): void {
   console.log(`  ${c.bold}${c.white}COMMANDS${c.reset}`);
   console.log(`    ${c.green}test${c.reset}              Run API regression tests ${c.dim}(GET, POST, CRUD)${c.reset}`);
   console.log(`    ${c.green}test-posts${c.reset}        Run POST endpoint tests with fixtures`);
+  console.log(`    ${c.green}baseline record${c.reset}   Record golden GET responses for --against-baseline`);
+  console.log(`    ${c.green}restore${c.reset}           Re-create resources deleted by full mode from its journal`);
   console.log(`    ${c.green}list-endpoints${c.reset}    List all testable endpoints from Swagger`);
   console.log(`    ${c.green}coverage${c.reset}          Generate API coverage report`);
+  console.log(`    ${c.green}spec-diff${c.reset}         Detect breaking changes between two specs`);
+  console.log(`    ${c.green}lint-spec${c.reset}         Check a spec for contract-quality issues`);
+  console.log(`    ${c.green}generate-body${c.reset}     Generate request bodies from the spec`);
+  console.log(`    ${c.green}mock${c.reset}              Serve a local mock API from the spec`);
   console.log(`    ${c.yellow}vm-start${c.reset}          Start Azure VM and wait for readiness`);
   console.log(`    ${c.dim}get${c.reset}               Export env vars from .env.local`);
   console.log('');
@@ -69,7 +75,16 @@ export function customHelp(): void {
   console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--parallel --use-real-data${c.reset}      ${c.dim}# Fast parallel tests${c.reset}`);
   console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--use-hierarchical${c.reset}              ${c.dim}# Parent-child API tests${c.reset}`);
   console.log(`    ${c.cyan}gate test-posts${c.reset} ${c.dim}--module Systems${c.reset}           ${c.dim}# Test only Systems module${c.reset}`);
+  console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--grant-type client_credentials --client-id <id>${c.reset}  ${c.dim}# Service account${c.reset}`);
+  console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--mode readonly --against-baseline${c.reset}  ${c.dim}# Regression check vs baselines${c.reset}`);
+  console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--dry-run --plan-output plan.json${c.reset}  ${c.dim}# Review requests before a run${c.reset}`);
+  console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--record-har nightly.har${c.reset}        ${c.dim}# Keep every exchange for debugging${c.reset}`);
+  console.log(`    ${c.cyan}gate test${c.reset} ${c.dim}--replay nightly.har --auth none${c.reset}  ${c.dim}# Offline re-run of a recording${c.reset}`);
+  console.log(`    ${c.cyan}gate restore${c.reset} ${c.dim}--journal restore-journal.json${c.reset}  ${c.dim}# Recover deleted resources${c.reset}`);
   console.log(`    ${c.cyan}gate coverage${c.reset} ${c.dim}--test-results junit.xml${c.reset}     ${c.dim}# Coverage from results${c.reset}`);
+  console.log(`    ${c.cyan}gate spec-diff${c.reset} ${c.dim}--old main.yaml --new openapi.yaml${c.reset}  ${c.dim}# Block breaking changes${c.reset}`);
+  console.log(`    ${c.cyan}gate mock${c.reset} ${c.dim}--swagger-url openapi.yaml --faults${c.reset}  ${c.dim}# Local API with breakages${c.reset}`);
+  console.log(`    ${c.cyan}gate generate-body${c.reset} ${c.dim}--format fixture${c.reset}       ${c.dim}# Scaffold POST fixtures${c.reset}`);
   console.log('');
 }
 
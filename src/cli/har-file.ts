@@ -0,0 +1,96 @@
+/**
+ * HAR Files (--record-har, --replay)
+ *
+ * --record-har records every HTTP exchange of a run and writes them as a HAR 1.2
+ * file when the process exits - also when the run fails or throws, which is when
+ * the file is needed. The file opens in browser dev tools, Postman, Fiddler or any HAR viewer.
+ *
+ * --replay answers the requests of a run from one HAR file, or from every .har
+ * file of a directory (in name order), instead of the network.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { HarEntry, HarLog, HarRecorder, setHarRecorder, setHarReplay } from '../lib/har.js';
+import { HarReplay } from '../lib/replay.js';
+import { info } from './format.js';
+
+/**
+ * Start recording; the file is written on process exit
+ * @returns The recorder the exchanges go into
+ */
+export function recordHarFile(path: string): HarRecorder {
+  const recorder = new HarRecorder();
+  const outputPath = resolve(process.cwd(), path);
+  setHarRecorder(recorder);
+
+  process.once('exit', () => {
+    setHarRecorder(undefined);
+    writeHarFile(recorder, outputPath);
+  });
+  return recorder;
+}
+
+/**
+ * Write the recorded exchanges
+ */
+export function writeHarFile(recorder: HarRecorder, outputPath: string): void {
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, JSON.stringify(recorder.toHar(), null, 2) + '\n', 'utf-8');
+  console.log(`📄 HAR with ${recorder.entries.length} exchange(s) written to: ${outputPath}`);
+}
+
+/**
+ * Answer the requests of the run from a recording
+ * @param source - HAR file, or directory with .har files
+ */
+export function replayHarFiles(source: string): HarReplay {
+  const replay = new HarReplay(readHarEntries(source));
+  setHarReplay(replay);
+  return replay;
+}
+
+/**
+ * Read the entries of a HAR file, or of every .har file of a directory
+ */
+export function readHarEntries(source: string): HarEntry[] {
+  const path = resolve(process.cwd(), source);
+  if (!existsSync(path)) {
+    throw new Error(`Recording not found: ${source}`);
+  }
+
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter(name => name.endsWith('.har')).sort().map(name => join(path, name))
+    : [path];
+  if (files.length === 0) {
+    throw new Error(`No .har files in ${source}`);
+  }
+
+  return files.flatMap((file) => {
+    try {
+      const har = JSON.parse(readFileSync(file, 'utf-8')) as HarLog;
+      if (!Array.isArray(har.log?.entries)) {
+        throw new Error('missing "log.entries" list');
+      }
+      return har.log.entries;
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new Error(`Invalid HAR file ${file}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Print how many requests were answered from the recording, and the ones that were not
+ */
+export function printReplayReport(replay: HarReplay): void {
+  info(`Replay: ${replay.served} request(s) answered from ${replay.size} recorded exchange(s)`);
+  if (replay.unmatched.length > 0) {
+    console.warn(`⚠️  ${replay.unmatched.length} request(s) had no recording and failed:`);
+    for (const key of [...new Set(replay.unmatched)]) {
+      const count = replay.unmatched.filter(k => k === key).length;
+      console.warn(`     ${key}${count > 1 ? ` (${count}x)` : ''}`);
+    }
+  }
+  console.log('');
+}
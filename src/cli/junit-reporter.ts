@@ -22,6 +22,7 @@ interface JUnitTestCase {
   classname: string;
   name: string;
   time: number;
+  properties?: Array<{ name: string; value: string }>;
   failure?: {
     message: string;
     type: string;
@@ -43,6 +44,7 @@ export function generateJUnitXML(results: TestResult[], suiteName: string = 'API
       classname: 'APIRegressionTest',
       name: result.resource,
       time: result.duration / 1000, // Convert to seconds
+      properties: formatObservedStatuses(result),
     };
     
     if (!result.passed) {
@@ -73,6 +75,15 @@ export function generateJUnitXML(results: TestResult[], suiteName: string = 'API
   return buildXML(suite);
 }
 
+/**
+ * One "status" property per distinct response status, e.g. "GET /systems/{system} 404 documented-error".
+ * The coverage command reads these back to report which documented statuses were observed.
+ */
+function formatObservedStatuses(result: TestResult): Array<{ name: string; value: string }> {
+  const values = (result.observedStatuses || []).map(observed => `${observed.method} ${observed.path} ${observed.status} ${observed.outcome}`);
+  return Array.from(new Set(values)).map(value => ({ name: 'status', value }));
+}
+
 /**
  * Format failure message for JUnit
  */
@@ -137,15 +148,38 @@ function formatFailureDetails(result: TestResult): string {
     result.differences.forEach((diff: Difference, idx: number) => {
       lines.push(`  ${idx + 1}. Path: ${diff.path}`);
       lines.push(`     Type: ${diff.type}`);
-      lines.push(`     Expected: ${JSON.stringify(diff.expected)}`);
-      lines.push(`     Actual: ${JSON.stringify(diff.actual)}`);
+      if (diff.message) {
+        lines.push(`     Message: ${diff.message}`);
+      }
+      lines.push(`     Expected: ${formatDiffValue(diff.expected)}`);
+      lines.push(`     Actual: ${formatDiffValue(diff.actual)}`);
       lines.push('');
     });
   }
   
+  // Differences a compare rule suppressed (kept on the COMPARE steps)
+  const suppressed = (result.steps || [])
+    .filter(step => step.step === 'COMPARE')
+    .flatMap(step => ((step.data as { differences?: Difference[] } | undefined)?.differences || []))
+    .filter(diff => diff.suppressedBy);
+  if (suppressed.length > 0) {
+    lines.push('Suppressed Differences:');
+    suppressed.forEach(diff => {
+      lines.push(`  ${diff.path} (${diff.type}) - suppressed by ${diff.suppressedBy}`);
+    });
+    lines.push('');
+  }
+  
   return lines.join('\n');
 }
 
+/**
+ * Difference value for the failure details (added / removed fields and list elements have no value on one side)
+ */
+function formatDiffValue(value: unknown): string {
+  return value === undefined ? '(not present)' : JSON.stringify(value);
+}
+
 /**
  * Build JUnit XML string
  */
@@ -159,6 +193,14 @@ function buildXML(suite: JUnitTestSuite): string {
   suite.testcases.forEach(testcase => {
     lines.push(`    <testcase classname="${escapeXml(testcase.classname)}" name="${escapeXml(testcase.name)}" time="${testcase.time.toFixed(3)}">`);
     
+    if (testcase.properties && testcase.properties.length > 0) {
+      lines.push('      <properties>');
+      testcase.properties.forEach(property => {
+        lines.push(`        <property name="${escapeXml(property.name)}" value="${escapeXml(property.value)}"/>`);
+      });
+      lines.push('      </properties>');
+    }
+    
     if (testcase.failure) {
       lines.push(`      <failure message="${escapeXml(testcase.failure.message)}" type="${escapeXml(testcase.failure.type)}">`);
       lines.push(escapeXml(testcase.failure.content));
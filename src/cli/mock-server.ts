@@ -0,0 +1,117 @@
+/**
+ * Mock Server (gate mock)
+ *
+ * Serves a MockApi over HTTP under the base path of the spec's server, plus the
+ * spec itself at /openapi.json with its servers pointing at the mock, so a test
+ * run only needs `--swagger-url http://localhost:<port>/openapi.json --auth none`.
+ * Credentials are not checked. Responses allow any origin, for the web UI.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MockApi, MockResponse } from '../lib/mock.js';
+
+export const MOCK_SPEC_PATH = '/openapi.json';
+
+export interface MockServerOptions {
+  port: number;
+  host: string;
+  /** Path prefix of the API, e.g. /api (from the spec's server URL) */
+  basePath: string;
+  /** Spec document served at MOCK_SPEC_PATH */
+  spec: Record<string, unknown>;
+  /** Called after each answered request */
+  onRequest?: (method: string, path: string, response: MockResponse) => void;
+}
+
+/**
+ * Start serving the mock API
+ * @returns The listening server and its URL
+ */
+export async function startMockServer(api: MockApi, options: MockServerOptions): Promise<{ server: Server; url: string }> {
+  let url = '';
+  const server = createServer((req, res) => {
+    void handleRequest(api, options, url, req, res);
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolvePromise());
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = options.host === '0.0.0.0' || options.host === '::' ? 'localhost' : options.host;
+  url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}`;
+  return { server, url };
+}
+
+/**
+ * The spec with its servers replaced by the mock's URL
+ */
+export function pointSpecAt(spec: Record<string, unknown>, url: string, basePath: string): Record<string, unknown> {
+  if (spec.swagger) {
+    const { host, protocol } = new URL(url);
+    return { ...spec, host, schemes: [protocol.replace(':', '')], basePath: basePath || '/' };
+  }
+  return { ...spec, servers: [{ url: `${url}${basePath}`, description: 'gate mock' }] };
+}
+
+async function handleRequest(api: MockApi, options: MockServerOptions, url: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const method = (req.method || 'GET').toUpperCase();
+  const path = new URL(req.url || '/', 'http://mock.invalid').pathname;
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE',
+      'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || '*',
+    });
+    res.end();
+    return;
+  }
+
+  if (method === 'GET' && path === MOCK_SPEC_PATH) {
+    send(res, { status: 200, body: pointSpecAt(options.spec, url, options.basePath), headers: {}, delay: 0 });
+    return;
+  }
+
+  const raw = await readBody(req);
+  let body: unknown;
+  let invalidJson = false;
+  if (raw) {
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      invalidJson = true;
+    }
+  }
+
+  const response = path === options.basePath || path.startsWith(`${options.basePath}/`)
+    ? api.handle({ method, path: path.slice(options.basePath.length) || '/', body, invalidJson })
+    : { status: 404, body: { message: `Not below the API base path ${options.basePath}` }, headers: {}, delay: 0 };
+
+  if (response.delay > 0) {
+    await new Promise(resolvePromise => setTimeout(resolvePromise, response.delay));
+  }
+  options.onRequest?.(method, path, response);
+  send(res, response);
+}
+
+function send(res: ServerResponse, response: MockResponse): void {
+  const hasBody = response.body !== undefined && response.status !== 204;
+  res.writeHead(response.status, {
+    ...response.headers,
+    ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+  });
+  res.end(hasBody ? JSON.stringify(response.body) : undefined);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    let raw = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => resolvePromise(raw));
+    req.on('error', reject);
+  });
+}
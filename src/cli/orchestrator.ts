@@ -1,9 +1,17 @@
-import { parseSwaggerUrl } from '../lib/swagger.js';
-import { runEndpointTest } from '../lib/tester.js';
-import { filterBlacklistedEndpoints, isEndpointExcluded } from './blacklist.js';
-import { discoverTestData, discoverHierarchicalTestData, TestDataCache, HierarchicalTestData } from '../lib/data-discovery.js';
+import { parseSwaggerUrl, ParseOptions } from '../lib/swagger.js';
+import { runEndpointTest, planEndpointTest, TestOptions } from '../lib/tester.js';
+import { runNegativeTest, buildNegativeProbes } from '../lib/negative-tester.js';
+import { BaselineOptions, compareWithBaseline, readBaseline, writeBaseline } from './baseline.js';
+import { CompareRules, failingDifferences, resolveCompareRules } from '../lib/comparator.js';
+import { describeAuth, getTokenProvider } from '../lib/auth.js';
+import { CollectionChange, diffListings, isPending } from '../lib/restore.js';
+import { FileRestoreJournal } from './restore-journal.js';
+import { PlannedTest, RequestPlan, printRequestPlan } from './request-plan.js';
+import { isEndpointExcluded } from './blacklist.js';
+import { selectEndpoints, describeSkipped, SkipReason } from './endpoint-filter.js';
+import { discoverTestData, discoverHierarchicalTestData, substitutePathParameters, TestDataCache, HierarchicalTestData } from '../lib/data-discovery.js';
 import { findParentApiDefinition, getChildApiPaths, isChildApi } from '../lib/hierarchical-apis.js';
-import { Endpoint, EndpointGroup, AuthConfig, TestResult } from '../types/index.js';
+import { Endpoint, EndpointGroup, AuthConfig, TestResult, TestStep, Difference, PlannedRequest } from '../types/index.js';
 import { pass, fail, skip, info, heading, progress, summaryTable, c } from './format.js';
 import { 
   POST_TEST_CASES, 
@@ -13,15 +21,19 @@ import {
 } from '../lib/test-fixtures.js';
 import { 
   runPostEndpointTests, 
+  planPostEndpointTests,
   printPostTestSummary, 
   PostTestResult,
   generatePostTestSummary
 } from '../lib/post-endpoint-tester.js';
 
+/** full: CRUD round trips, readonly: GET only, negative: requests the API must reject */
+export type TestMode = 'full' | 'readonly' | 'negative';
+
 export interface OrchestratorOptions {
   swaggerUrl: string;
   auth?: AuthConfig;
-  mode?: 'full' | 'readonly';
+  mode?: TestMode;
   parallel?: boolean;
   maxParallel?: number;
   useRealData?: boolean; // Enable real data discovery
@@ -30,6 +42,22 @@ export interface OrchestratorOptions {
   skipCleanup?: boolean; // Skip cleanup step in POST fixture tests
   skipVerify?: boolean; // Skip verification step in POST fixture tests
   postModule?: string; // Only run POST tests for specific module
+  validateSchema?: boolean; // Validate responses against documented schemas (default: true)
+  generateBodies?: boolean; // POST bodies generated from the request schema when there is no data to re-create (default: true)
+  bodySeed?: number; // Seed for generated bodies
+  server?: string; // Server to test against: index or description (default: first server)
+  serverVariables?: Record<string, string>; // Values for server URL variables
+  baseUrl?: string; // Base URL override (ignores the spec's servers)
+  include?: string[]; // Only test endpoints matching these filters (tag, operationId, method, path glob)
+  exclude?: string[]; // Skip endpoints matching these filters
+  groupBy?: string; // Grouping strategy: prefix (default), tag, operationId-prefix or depth=N
+  specHeaders?: Record<string, string>; // Extra headers for fetching the spec (besides auth)
+  specCache?: boolean; // Cache the fetched spec and fall back to it (default: true)
+  expectedStatus?: Record<string, number[]>; // Expected-status overrides per "METHOD /path" (from gate.config)
+  baseline?: BaselineOptions; // Record GET responses as baselines, or compare them against the stored ones
+  compareRules?: CompareRules; // Ignore / type-only / mask rules for comparisons (from gate.config)
+  journal?: string; // Restore journal file for snapshots of deleted resources (full mode)
+  dryRun?: boolean; // Print the request plan instead of sending the requests
 }
 
 export interface OrchestratorResult {
@@ -37,8 +65,20 @@ export interface OrchestratorResult {
   passed: number;
   failed: number;
   skipped: number;
+  skippedByReason?: Record<SkipReason, number>; // Breakdown of skipped (set by runAll)
   duration: number;
   results: TestResult[];
+  collectionChanges?: CollectionChange[]; // Net changes of the collections listed before and after a full mode run
+  plan?: RequestPlan; // Requests the run would send (--dry-run; none of them was sent)
+}
+
+/**
+ * Result of listing the collections again after a full mode run
+ */
+interface CollectionCheck {
+  changes: CollectionChange[];
+  /** Error per collection that could not be listed again */
+  unlisted: Map<string, string>;
 }
 
 /**
@@ -52,6 +92,8 @@ export interface OrchestratorResult {
  */
 export class TestOrchestrator {
   private options: OrchestratorOptions;
+  private baselineCounts = { recorded: 0, matched: 0, changed: 0, missing: 0 };
+  private journal?: FileRestoreJournal;
   
   constructor(options: OrchestratorOptions) {
     this.options = options;
@@ -66,16 +108,24 @@ export class TestOrchestrator {
     info(`Parsing Swagger from: ${this.options.swaggerUrl}`);
 
     // Parse Swagger
-    const { groups, baseUrl } = await parseSwaggerUrl(this.options.swaggerUrl);
+    const { groups, baseUrl } = await parseSwaggerUrl(this.options.swaggerUrl, this.parseOptions());
 
     pass(`Found ${groups.length} endpoint groups`);
     info(`Base URL: ${baseUrl}`);
+    info(`Auth: ${describeAuth(this.options.auth)}`);
+    this.warnIfRelativeBaseUrl(baseUrl);
     
     // Discover real test data if enabled
     let testDataCache: TestDataCache | undefined;
     let hierarchicalData: HierarchicalTestData[] | undefined;
     
-    if (this.options.useHierarchical) {
+    if (this.options.mode === 'negative') {
+      // Negative mode: probes use IDs that do not exist, no discovery needed
+      if (this.options.useHierarchical || this.options.useRealData) {
+        console.warn('⚠️  --use-hierarchical / --use-real-data are ignored in negative mode');
+        console.log('');
+      }
+    } else if (this.options.useHierarchical) {
       // Hierarchical mode: discover parent-child relationships
       try {
         hierarchicalData = await discoverHierarchicalTestData(baseUrl, this.options.auth);
@@ -97,19 +147,47 @@ export class TestOrchestrator {
       }
     }
     
-    // Filter blacklisted endpoints
-    const filteredGroups = groups.map(group => ({
-      ...group,
-      endpoints: filterBlacklistedEndpoints(group.endpoints)
-    })).filter(group => group.endpoints.length > 0);
-    
-    const totalEndpoints = groups.reduce((sum, g) => sum + g.endpoints.length, 0);
-    const filteredEndpoints = filteredGroups.reduce((sum, g) => sum + g.endpoints.length, 0);
-    const skipped = totalEndpoints - filteredEndpoints;
+    // Filter blacklisted endpoints and apply --include / --exclude
+    const selection = selectEndpoints(groups, { include: this.options.include, exclude: this.options.exclude });
+    const filteredGroups = selection.groups;
+    const filteredEndpoints = selection.selected;
+    const skipped = selection.total - selection.selected;
     
-    pass(`Testing ${filteredEndpoints} endpoints (${skipped} blacklisted)`);
+    pass(`Testing ${filteredEndpoints} endpoints (${describeSkipped(selection.skipped)})`);
+    if (filteredEndpoints === 0 && (this.options.include?.length || this.options.exclude?.length)) {
+      console.warn('⚠️  No endpoints match the --include / --exclude filters');
+    }
     console.log('');
     
+    if (this.options.dryRun) {
+      const plan = this.buildPlan(baseUrl, filteredGroups, groups, testDataCache, hierarchicalData);
+      printRequestPlan(plan);
+      return {
+        total: filteredEndpoints,
+        passed: 0,
+        failed: 0,
+        skipped,
+        skippedByReason: selection.skipped,
+        duration: Date.now() - startTime,
+        results: [],
+        plan
+      };
+    }
+    
+    // Full mode: journal the snapshots of deleted resources, and list the
+    // collections it writes to, to check the run leaves no trace
+    let listings: Map<string, unknown> | undefined;
+    if ((this.options.mode || 'full') === 'full') {
+      if (this.options.journal) {
+        this.journal = new FileRestoreJournal(this.options.journal);
+        const pending = this.journal.pending().length;
+        if (pending > 0) {
+          console.warn(`⚠️  ${this.journal.path} has ${pending} resource(s) from an earlier run that were not restored - run "gate restore --journal ${this.options.journal}"`);
+        }
+      }
+      listings = await this.listCollections(baseUrl, filteredGroups, groups, testDataCache);
+    }
+    
     // Run tests
     const results: TestResult[] = [];
     
@@ -125,9 +203,27 @@ export class TestOrchestrator {
       console.log('');
       
       if (this.options.parallel) {
-        results.push(...await this.runParallel(baseUrl, filteredGroups, testDataCache));
+        results.push(...await this.runParallel(baseUrl, filteredGroups, groups, testDataCache));
       } else {
-        results.push(...await this.runSequential(baseUrl, filteredGroups, testDataCache));
+        results.push(...await this.runSequential(baseUrl, filteredGroups, groups, testDataCache));
+      }
+    }
+    
+    if (this.options.baseline) {
+      this.printBaselineCounts(this.options.baseline);
+    }
+    
+    let collectionChanges: CollectionChange[] | undefined;
+    let total = filteredEndpoints;
+    if (listings) {
+      const checkStart = Date.now();
+      const check = await this.diffCollections(listings);
+      collectionChanges = check.changes;
+      this.printJournalCounts();
+      // A net change (or a collection that can't be listed again) fails the run like a test does (summary, JUnit, exit code)
+      if (listings.size > 0) {
+        results.push(this.collectionCheckResult(listings, check, Date.now() - checkStart));
+        total++;
       }
     }
     
@@ -138,12 +234,14 @@ export class TestOrchestrator {
     const failed = results.filter(r => !r.passed).length;
     
     return {
-      total: filteredEndpoints,
+      total,
       passed,
       failed,
       skipped,
+      skippedByReason: selection.skipped,
       duration,
-      results
+      results,
+      collectionChanges
     };
   }
   
@@ -153,6 +251,7 @@ export class TestOrchestrator {
   private async runSequential(
     baseUrl: string,
     groups: EndpointGroup[],
+    specGroups: EndpointGroup[],
     testDataCache?: TestDataCache
   ): Promise<TestResult[]> {
     const results: TestResult[] = [];
@@ -173,7 +272,7 @@ export class TestOrchestrator {
     let current = 1;
     const total = allEndpoints.length;
     
-    heading(`Testing ${total} endpoints (${this.options.mode === 'readonly' ? 'readonly mode - GET only' : 'full CRUD mode'})`);
+    heading(`Testing ${total} endpoints (${this.describeMode()})`);
     console.log('');
 
     for (const { endpoint, groupResource } of allEndpoints) {
@@ -181,28 +280,23 @@ export class TestOrchestrator {
       progress(current, total, fullPath);
       
       try {
-        // Create a temporary group with just this one endpoint
-        const singleEndpointGroup: EndpointGroup = {
-          resource: endpoint.path,
-          endpoints: [endpoint]
-        };
-        
-        const result = await runEndpointTest(
+        const result = await this.runTest(
           baseUrl,
-          singleEndpointGroup,
-          this.options.auth,
+          endpoint,
+          specGroups,
           (step) => {
             // Log each step with detailed error information
+            const label = step.probe ? `${step.step} ${step.probe}` : step.step;
             if (step.error) {
               const statusInfo = step.status ? ` [${step.status}]` : '';
-              console.log(`  ❌ ${step.step}${statusInfo}: ${step.url || endpoint.path}`);
+              console.log(`  ❌ ${label}${statusInfo}: ${step.url || endpoint.path}`);
               console.log(`     Error: ${step.error}`);
             } else if (step.status) {
-              const statusSymbol = step.status >= 200 && step.status < 300 ? '✓' : '⚠';
-              console.log(`  ${statusSymbol} ${step.step}: ${step.status} - ${step.url || endpoint.path}`);
+              const statusSymbol = step.step === 'PROBE' || (step.status >= 200 && step.status < 300) ? '✓' : '⚠';
+              console.log(`  ${statusSymbol} ${label}: ${step.status} - ${step.url || endpoint.path}`);
             }
           },
-          { mode: this.options.mode, testDataCache }
+          testDataCache
         );
         
         results.push(result);
@@ -213,7 +307,8 @@ export class TestOrchestrator {
           fail(`FAILED`);
 
           // Log all failed steps with full details
-          const failedSteps = result.steps.filter(s => s.error || (s.status && (s.status < 200 || s.status >= 400)));
+          // (a rejected probe is a 4xx by design - only its error marks a failure)
+          const failedSteps = result.steps.filter(s => s.error || (s.step !== 'PROBE' && s.status && (s.status < 200 || s.status >= 400)));
           if (failedSteps.length > 0) {
             console.log(`     ${c.red}Failed requests:${c.reset}`);
             failedSteps.forEach(step => {
@@ -256,6 +351,7 @@ export class TestOrchestrator {
   private async runParallel(
     baseUrl: string,
     groups: EndpointGroup[],
+    specGroups: EndpointGroup[],
     testDataCache?: TestDataCache
   ): Promise<TestResult[]> {
     const maxParallel = this.options.maxParallel || 5;
@@ -274,7 +370,7 @@ export class TestOrchestrator {
       }
     }
     
-    heading(`Testing ${allEndpoints.length} endpoints (${this.options.mode === 'readonly' ? 'readonly mode - GET only' : 'full CRUD mode'})`);
+    heading(`Testing ${allEndpoints.length} endpoints (${this.describeMode()})`);
     info(`Running tests in parallel (max ${maxParallel} concurrent)`);
     console.log('');
     
@@ -284,19 +380,7 @@ export class TestOrchestrator {
       
       const batchPromises = batch.map(async ({ endpoint, groupResource }) => {
         try {
-          // Create a temporary group with just this one endpoint
-          const singleEndpointGroup: EndpointGroup = {
-            resource: endpoint.path,
-            endpoints: [endpoint]
-          };
-          
-          return await runEndpointTest(
-            baseUrl, 
-            singleEndpointGroup, 
-            this.options.auth,
-            undefined,
-            { mode: this.options.mode, testDataCache }
-          );
+          return await this.runTest(baseUrl, endpoint, specGroups, undefined, testDataCache);
         } catch (error: unknown) {
           const err = error instanceof Error ? error : new Error(String(error));
           return {
@@ -330,13 +414,13 @@ export class TestOrchestrator {
   /**
    * Print all URLs that will be tested
    */
-  private async printTestUrls(baseUrl: string, groups: EndpointGroup[], mode: 'full' | 'readonly', testDataCache?: TestDataCache): Promise<void> {
+  private async printTestUrls(baseUrl: string, groups: EndpointGroup[], mode: TestMode, testDataCache?: TestDataCache): Promise<void> {
     console.log('═══════════════════════════════════════');
     console.log('        ALL TESTABLE ENDPOINTS');
     console.log('═══════════════════════════════════════');
     console.log('');
     console.log(`Base URL: ${baseUrl}`);
-    console.log(`Mode: ${mode === 'full' ? 'Full CRUD' : 'Readonly (GET only)'}`);
+    console.log(`Mode: ${mode === 'full' ? 'Full CRUD' : mode === 'negative' ? 'Negative (requests that must be rejected)' : 'Readonly (GET only)'}`);
     if (testDataCache) {
       console.log(`Data: Using real IDs from API ✨`);
     } else {
@@ -406,7 +490,12 @@ export class TestOrchestrator {
     console.log('═══════════════════════════════════════');
     console.log(`Total URLs to test: ${allTestUrls.length}`);
     if (mode === 'full') {
-      console.log('Note: Full CRUD mode will perform GET → DELETE → POST → VERIFY for each endpoint group');
+      console.log('Note: Full CRUD mode will perform GET → SNAPSHOT → DELETE → POST → VERIFY for each endpoint group');
+      console.log('      (RESTORE from the snapshot when the resource is not back),');
+      console.log('      and GET → PUT/PATCH → VERIFY → RESTORE for update endpoints');
+    } else if (mode === 'negative') {
+      console.log('Note: Negative mode probes each endpoint without/with invalid credentials, with a malformed');
+      console.log('      path parameter, an invalid JSON body and an unsupported method - expecting 4xx rejections');
     } else {
       console.log('Note: Readonly mode will only perform GET requests');
     }
@@ -468,7 +557,7 @@ export class TestOrchestrator {
                 console.log(`  ${statusSymbol} ${step.step}: ${step.status}`);
               }
             },
-            { mode: this.options.mode }
+            this.testOptions()
           );
           
           results.push(result);
@@ -529,7 +618,7 @@ export class TestOrchestrator {
                     console.log(`  ${statusSymbol} ${step.step}: ${step.status}`);
                   }
                 },
-                { mode: this.options.mode }
+                this.testOptions()
               );
               
               results.push(result);
@@ -568,7 +657,7 @@ export class TestOrchestrator {
                     console.log(`  ${statusSymbol} ${step.step}: ${step.status}`);
                   }
                 },
-                { mode: this.options.mode }
+                this.testOptions()
               );
               
               results.push(result);
@@ -599,6 +688,408 @@ export class TestOrchestrator {
     return results;
   }
   
+  /**
+   * Warn when the spec yields no usable base URL (e.g. a local spec with relative servers)
+   */
+  private warnIfRelativeBaseUrl(baseUrl: string): void {
+    if (!/^https?:\/\//i.test(baseUrl)) {
+      console.warn(`⚠️  Base URL "${baseUrl}" is not absolute - requests will fail.`);
+      console.warn('   Local specs need an absolute server URL (servers[].url or host), or pass --base-url.');
+    } else if (/\{[^}]+\}/.test(baseUrl)) {
+      console.warn(`⚠️  Base URL "${baseUrl}" has unresolved server variables - pass them with --server-var key=value.`);
+    }
+  }
+  
+  /**
+   * Create a temporary group with just this one endpoint.
+   * PUT and PATCH also get the GET on the same path (even when filtered out),
+   * to read the resource before and after the update.
+   */
+  private singleEndpointGroup(endpoint: Endpoint, specGroups: EndpointGroup[]): EndpointGroup {
+    const endpoints = [endpoint];
+    if (endpoint.method === 'PUT' || endpoint.method === 'PATCH') {
+      const getEndpoint = specGroups.flatMap(g => g.endpoints).find(e => e.method === 'GET' && e.path === endpoint.path);
+      if (getEndpoint) endpoints.push(getEndpoint);
+    }
+    return { resource: endpoint.path, endpoints };
+  }
+
+  /**
+   * Test one endpoint: negative probes in negative mode, the CRUD / readonly test otherwise
+   */
+  private async runTest(
+    baseUrl: string,
+    endpoint: Endpoint,
+    specGroups: EndpointGroup[],
+    onStep?: (step: TestStep) => void,
+    testDataCache?: TestDataCache
+  ): Promise<TestResult> {
+    if (this.options.mode === 'negative') {
+      return runNegativeTest(baseUrl, endpoint, this.options.auth, onStep, {
+        specEndpoints: specGroups.flatMap(g => g.endpoints),
+      });
+    }
+    const result = await runEndpointTest(baseUrl, this.singleEndpointGroup(endpoint, specGroups), this.options.auth, onStep, this.testOptions(testDataCache, specGroups));
+    if (this.options.baseline && endpoint.method === 'GET') {
+      this.applyBaseline(endpoint, result, this.options.baseline, onStep);
+    }
+    return result;
+  }
+
+  /**
+   * Record the GET response of a test as its baseline, or compare it against the stored one
+   * (adds a COMPARE step; in compare mode every difference fails the test)
+   */
+  private applyBaseline(endpoint: Endpoint, result: TestResult, baseline: BaselineOptions, onStep?: (step: TestStep) => void): void {
+    // The first successful GET is the response under test; without one there is nothing to compare
+    const getStep = result.steps.find(s => s.step === 'GET' && s.status && s.data !== undefined && !s.error);
+    if (!getStep?.status) {
+      return;
+    }
+
+    const url = getStep.url || endpoint.path;
+    const key = `${endpoint.method} ${endpoint.path}`;
+    const entry = baseline.mode === 'record' ? undefined : readBaseline(baseline.dir, endpoint);
+    let differences: Difference[] = [];
+    let error: string | undefined;
+
+    if (baseline.mode === 'compare') {
+      if (entry) {
+        differences = compareWithBaseline(entry, getStep.status, getStep.data, this.options.compareRules);
+        const failing = failingDifferences(differences).length;
+        error = failing > 0 ? `${failing} difference(s) from the baseline` : undefined;
+      } else {
+        differences = [{
+          path: 'baseline',
+          expected: 'recorded baseline',
+          actual: 'none',
+          type: 'changed',
+          message: `No baseline for ${key} in ${baseline.dir} - record one with "gate baseline record" or --update-baseline`,
+        }];
+        error = differences[0].message;
+      }
+      const failing = failingDifferences(differences);
+      this.baselineCounts[!entry ? 'missing' : failing.length > 0 ? 'changed' : 'matched']++;
+      result.differences.push(...failing);
+      result.passed = result.passed && failing.length === 0;
+    } else {
+      // record / update: accept the live response (update still reports what changed)
+      differences = entry ? compareWithBaseline(entry, getStep.status, getStep.data, this.options.compareRules) : [];
+      writeBaseline(baseline.dir, endpoint, url, getStep.status, getStep.data, resolveCompareRules(this.options.compareRules, key).metaFields);
+      this.baselineCounts[failingDifferences(differences).length > 0 ? 'changed' : 'recorded']++;
+    }
+
+    const step: TestStep = {
+      step: 'COMPARE',
+      method: 'GET',
+      url,
+      data: { baseline: key, differences },
+      error,
+      timestamp: new Date(),
+    };
+    result.steps.push(step);
+    onStep?.(step);
+  }
+
+  /**
+   * One-line baseline summary after the run
+   */
+  private printBaselineCounts(baseline: BaselineOptions): void {
+    const { recorded, matched, changed, missing } = this.baselineCounts;
+    if (baseline.mode === 'compare') {
+      info(`Baselines (${baseline.dir}): ${matched} matched, ${changed} changed, ${missing} missing`);
+    } else {
+      info(`Baselines written to ${baseline.dir}: ${recorded + changed}${changed > 0 ? ` (${changed} with accepted changes)` : ''}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * GET the collection listing of every selected DELETE / POST endpoint that has one
+   * (a DELETE /items/{id} belongs to GET /items)
+   * @returns Listing per URL; collections that can't be listed are left out
+   */
+  private async listCollections(baseUrl: string, groups: EndpointGroup[], specGroups: EndpointGroup[], testDataCache?: TestDataCache): Promise<Map<string, unknown>> {
+    const urls = this.collectionUrls(baseUrl, groups, specGroups, testDataCache);
+    const listings = new Map<string, unknown>();
+    for (const url of urls) {
+      const { data, error } = await this.fetchListing(url);
+      if (!error) {
+        listings.set(url, data);
+      }
+    }
+    if (listings.size < urls.length) {
+      console.warn(`⚠️  ${urls.length - listings.size} collection(s) could not be listed - their net change is not checked`);
+    }
+    if (listings.size > 0) {
+      info(`Listed ${listings.size} collection(s) to check the run leaves no trace`);
+      console.log('');
+    }
+    return listings;
+  }
+
+  /**
+   * URLs of the collection listings of the selected DELETE / POST endpoints
+   */
+  private collectionUrls(baseUrl: string, groups: EndpointGroup[], specGroups: EndpointGroup[], testDataCache?: TestDataCache): string[] {
+    const specEndpoints = specGroups.flatMap(g => g.endpoints);
+    const urls = new Set<string>();
+    for (const endpoint of groups.flatMap(g => g.endpoints)) {
+      if (endpoint.method !== 'DELETE' && endpoint.method !== 'POST') continue;
+      const collectionPath = endpoint.method === 'DELETE' ? endpoint.path.replace(/\/\{[^}]+\}\/?$/, '') : endpoint.path;
+      if (specEndpoints.some(e => e.method === 'GET' && e.path === collectionPath)) {
+        const path = testDataCache ? substitutePathParameters(collectionPath, testDataCache) : collectionPath.replace(/\{[^}]+\}/g, '1');
+        urls.add(`${baseUrl}${path}`);
+      }
+    }
+    return [...urls];
+  }
+
+  /**
+   * The requests runAll would send, in order (runSequential / runHierarchical order)
+   */
+  private buildPlan(
+    baseUrl: string,
+    groups: EndpointGroup[],
+    specGroups: EndpointGroup[],
+    testDataCache?: TestDataCache,
+    hierarchicalData?: HierarchicalTestData[]
+  ): RequestPlan {
+    const mode = this.options.mode || 'full';
+    const tests: PlannedTest[] = [];
+
+    if (this.options.useHierarchical && hierarchicalData) {
+      for (const parentData of hierarchicalData) {
+        const parentEndpoint = this.findEndpointByPath(groups, parentData.parentPath);
+        if (parentEndpoint) {
+          tests.push({
+            name: `GET ${parentData.parentPath}`,
+            requests: planEndpointTest(baseUrl, { resource: parentData.parentPath, endpoints: [parentEndpoint] }, this.testOptions()),
+          });
+        }
+
+        const parentDefinition = findParentApiDefinition(parentData.parentPath);
+        if (!parentDefinition) continue;
+        for (const resource of parentData.resources) {
+          for (const childPath of getChildApiPaths(parentDefinition, resource.id)) {
+            // Children missing from the spec are tested with a plain GET
+            const childEndpoint = this.findEndpointByPath(groups, childPath.path) || { method: 'GET', path: childPath.path, summary: childPath.description };
+            tests.push({
+              name: `GET ${childPath.path}`,
+              requests: planEndpointTest(baseUrl, { resource: childPath.path, endpoints: [childEndpoint] }, this.testOptions()),
+            });
+          }
+        }
+      }
+    } else {
+      const specEndpoints = specGroups.flatMap(g => g.endpoints);
+      for (const endpoint of groups.flatMap(g => g.endpoints)) {
+        if (mode === 'readonly' && endpoint.method !== 'GET') continue;
+
+        const requests: PlannedRequest[] = mode === 'negative'
+          ? buildNegativeProbes(endpoint, this.options.auth, specEndpoints).map(probe => ({
+              step: 'PROBE',
+              method: probe.method,
+              url: `${baseUrl}${probe.path}`,
+              body: probe.body,
+              note: `${probe.case}: ${probe.description} - expects ${probe.expectedStatuses.join(' / ')}`,
+            }))
+          : planEndpointTest(baseUrl, this.singleEndpointGroup(endpoint, specGroups), this.testOptions(testDataCache, specGroups));
+        tests.push({ name: `${endpoint.method} ${endpoint.path}`, requests });
+      }
+    }
+
+    if (mode === 'full') {
+      const listings = this.collectionUrls(baseUrl, groups, specGroups, testDataCache);
+      if (listings.length > 0) {
+        tests.unshift({ name: 'Collection listings (before the run)', requests: listings.map(url => ({ step: 'LIST', method: 'GET', url })) });
+        tests.push({ name: 'Collection listings (after the run, net change check)', requests: listings.map(url => ({ step: 'LIST', method: 'GET', url })) });
+      }
+    }
+
+    return { mode: this.describeMode(), baseUrl, tests: [...this.planAuth(), ...tests] };
+  }
+
+  /**
+   * The OAuth2 token request that precedes the tests (none for the other strategies)
+   */
+  private planAuth(): PlannedTest[] {
+    const auth = this.options.auth;
+    if (!auth?.tokenUrl || !getTokenProvider(auth).usesOAuth2) {
+      return [];
+    }
+    return [{ name: 'Authentication', requests: [{ step: 'AUTH', method: 'POST', url: auth.tokenUrl, note: 'Once - the token is shared by all tests' }] }];
+  }
+
+  /**
+   * List the collections again and report any net change since the run started
+   */
+  private async diffCollections(listings: Map<string, unknown>): Promise<CollectionCheck> {
+    const check: CollectionCheck = { changes: [], unlisted: new Map() };
+    if (listings.size === 0) {
+      return check;
+    }
+
+    const changes = check.changes;
+    for (const [url, before] of listings) {
+      const after = await this.fetchListing(url);
+      if (after.error) {
+        check.unlisted.set(url, after.error);
+        continue;
+      }
+      const change = diffListings(url, before, after.data);
+      if (change) changes.push(change);
+    }
+
+    if (check.unlisted.size > 0) {
+      fail(`Could not list ${check.unlisted.size} of ${listings.size} collection(s) again - their net change is unknown:`);
+      for (const [url, error] of check.unlisted) {
+        console.log(`     ${c.yellow}${url}: ${error}${c.reset}`);
+      }
+    }
+    if (changes.length === 0) {
+      if (check.unlisted.size === 0) {
+        pass(`No net change in ${listings.size} collection(s)`);
+      }
+    } else {
+      fail(`Net change in ${changes.length} of ${listings.size} collection(s):`);
+      for (const change of changes) {
+        const items = [...change.added.map(key => `+${key}`), ...change.removed.map(key => `-${key}`)];
+        console.log(`     ${c.yellow}${change.url}: ${change.before} → ${change.after} items${c.reset}`);
+        console.log(`       ${c.dim}${items.slice(0, 5).join(', ')}${items.length > 5 ? `, ... and ${items.length - 5} more` : ''}${c.reset}`);
+      }
+    }
+    console.log('');
+    return check;
+  }
+
+  /**
+   * The net change check as a test result: one VERIFY step per collection,
+   * failed when it changed or could not be listed again
+   */
+  private collectionCheckResult(listings: Map<string, unknown>, check: CollectionCheck, duration: number): TestResult {
+    const { changes, unlisted } = check;
+    const steps: TestStep[] = [...listings.keys()].map((url) => {
+      const change = changes.find(ch => ch.url === url);
+      const relistError = unlisted.get(url);
+      return {
+        step: 'VERIFY',
+        method: 'GET',
+        url,
+        error: relistError
+          ? `Could not re-list: ${relistError}`
+          : change ? `Net change: ${change.before} → ${change.after} items` : undefined,
+        timestamp: new Date(),
+      };
+    });
+
+    const differences: Difference[] = [
+      ...[...unlisted].map(([url, error]): Difference => ({
+        path: url,
+        expected: 'listing',
+        actual: 'no listing',
+        type: 'changed',
+        message: `Could not re-list: ${error}`,
+      })),
+      ...changes.map((change): Difference => ({
+        path: change.url,
+        expected: change.before,
+        actual: change.after,
+        type: 'changed',
+        message: [...change.added.map(key => `+${key}`), ...change.removed.map(key => `-${key}`)].join(', '),
+      })),
+    ];
+
+    return {
+      resource: 'Collection net change (full mode leaves no trace)',
+      steps,
+      passed: differences.length === 0,
+      differences,
+      duration,
+    };
+  }
+
+  private async fetchListing(url: string): Promise<{ data?: unknown; error?: string }> {
+    try {
+      const response = await getTokenProvider(this.options.auth).client.get(url, {
+        headers: { 'Accept': 'application/json' },
+        timeout: 30000,
+      });
+      return { data: response.data };
+    } catch (error: unknown) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Snapshot summary after a full mode run
+   */
+  private printJournalCounts(): void {
+    if (!this.journal) {
+      return;
+    }
+
+    const saved = this.journal.saved();
+    if (saved.length === 0) {
+      return;
+    }
+
+    const count = (state: string) => saved.filter(s => s.state === state).length;
+    const pending = saved.filter(isPending).length;
+    info(`Restore journal (${this.journal.path}): ${saved.length} deleted resource(s) - ${count('recreated')} re-created, ${count('restored')} restored, ${count('kept')} kept`);
+    if (pending > 0) {
+      console.warn(`⚠️  ${pending} resource(s) could not be restored - run "gate restore --journal ${this.options.journal}"`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Mode description for the test headings
+   */
+  private describeMode(): string {
+    switch (this.options.mode) {
+      case 'readonly':
+        return 'readonly mode - GET only';
+      case 'negative':
+        return 'negative mode - requests that must be rejected';
+      default:
+        return 'full CRUD mode';
+    }
+  }
+
+  /**
+   * Options passed to every runEndpointTest call
+   */
+  private testOptions(testDataCache?: TestDataCache, specGroups?: EndpointGroup[]): TestOptions {
+    return {
+      mode: this.options.mode === 'readonly' ? 'readonly' : 'full',
+      testDataCache,
+      validateSchema: this.options.validateSchema,
+      generateBodies: this.options.generateBodies,
+      bodySeed: this.options.bodySeed,
+      expectedStatus: this.options.expectedStatus,
+      compareRules: this.options.compareRules,
+      specEndpoints: specGroups?.flatMap(g => g.endpoints),
+      journal: this.journal,
+    };
+  }
+  
+  /**
+   * Server selection, grouping and spec fetch options for parseSwaggerUrl
+   * (the spec is fetched with the same credentials as the tests)
+   */
+  private parseOptions(): ParseOptions {
+    return {
+      server: this.options.server,
+      serverVariables: this.options.serverVariables,
+      baseUrl: this.options.baseUrl,
+      groupBy: this.options.groupBy,
+      auth: this.options.auth,
+      headers: this.options.specHeaders,
+      cache: this.options.specCache,
+    };
+  }
+  
   /**
    * Find an endpoint by path in groups
    * Matches both exact paths and paths with parameters
@@ -639,6 +1130,9 @@ export class TestOrchestrator {
   printSummary(result: OrchestratorResult): void {
     heading('TEST SUMMARY');
     summaryTable(result.total, result.passed, result.failed, result.skipped, result.duration);
+    if (result.skippedByReason && result.skipped > 0) {
+      info(`Skipped: ${describeSkipped(result.skippedByReason)}`);
+    }
 
     if (result.failed > 0) {
       heading('FAILED REQUESTS');
@@ -665,7 +1159,7 @@ export class TestOrchestrator {
         if (r.differences && r.differences.length > 0) {
           console.log(`     ${c.yellow}Differences: ${r.differences.length}${c.reset}`);
           r.differences.slice(0, 2).forEach(d => {
-            console.log(`       ${c.dim}• ${d.path}: ${d.type}${c.reset}`);
+            console.log(`       ${c.dim}• ${d.path}: ${d.message || d.type}${c.reset}`);
           });
           if (r.differences.length > 2) {
             console.log(`       ${c.dim}... and ${r.differences.length - 2} more${c.reset}`);
@@ -686,8 +1180,10 @@ export class TestOrchestrator {
     info('Running POST endpoint tests with fixtures');
 
     // Parse Swagger to get base URL
-    const { baseUrl } = await parseSwaggerUrl(this.options.swaggerUrl);
+    const { baseUrl } = await parseSwaggerUrl(this.options.swaggerUrl, this.parseOptions());
     info(`Base URL: ${baseUrl}`);
+    info(`Auth: ${describeAuth(this.options.auth)}`);
+    this.warnIfRelativeBaseUrl(baseUrl);
     
     // Get test cases (optionally filtered by module)
     let testCases = POST_TEST_CASES;
@@ -709,6 +1205,32 @@ export class TestOrchestrator {
     pass(`Testing ${filteredCases.length} POST endpoints (${skipped} blacklisted)`);
     console.log('');
     
+    if (this.options.dryRun) {
+      const planned = planPostEndpointTests(filteredCases, {
+        baseUrl,
+        skipCleanup: this.options.skipCleanup,
+        skipVerify: this.options.skipVerify
+      });
+      const plan: RequestPlan = {
+        mode: 'POST fixtures',
+        baseUrl,
+        tests: [
+          ...this.planAuth(),
+          ...planned.map(({ testCase, requests }) => ({ name: `${testCase.endpoint} - ${testCase.description}`, requests }))
+        ]
+      };
+      printRequestPlan(plan);
+      return {
+        total: filteredCases.length,
+        passed: 0,
+        failed: 0,
+        skipped,
+        duration: Date.now() - startTime,
+        results: [],
+        plan
+      };
+    }
+    
     // Print test cases that will be run
     heading('POST ENDPOINTS TO TEST');
     
@@ -0,0 +1,84 @@
+/**
+ * Request Plan (--dry-run)
+ *
+ * The ordered requests a `test` or `test-posts` run would send, resolved from the
+ * same inputs (filters, blacklist, discovered or placeholder IDs, query params,
+ * fixtures, hierarchical expansion), printed for review and exportable as JSON.
+ * Resolving the plan still sends the reads it depends on: the spec fetch, the
+ * token request and the data discovery GETs.
+ */
+
+import { writeFileSync } from 'fs';
+import { PlannedRequest } from '../types/index.js';
+import { heading, info, c } from './format.js';
+
+export interface PlannedTest {
+  /** Test the requests belong to, e.g. "DELETE /api/v2/systems/{system}" */
+  name: string;
+  requests: PlannedRequest[];
+}
+
+export interface RequestPlan {
+  /** Mode description, e.g. "full CRUD mode" */
+  mode: string;
+  baseUrl: string;
+  tests: PlannedTest[];
+}
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Print the plan, numbering requests in the order they are sent
+ */
+export function printRequestPlan(plan: RequestPlan): void {
+  heading(`REQUEST PLAN (${plan.mode})`);
+  info(`Base URL: ${plan.baseUrl}`);
+  console.log('');
+
+  let index = 1;
+  for (const test of plan.tests) {
+    console.log(`📁 ${test.name}`);
+    console.log('─'.repeat(70));
+    if (test.requests.length === 0) {
+      console.log(`  ${c.dim}(no requests)${c.reset}`);
+    }
+    for (const request of test.requests) {
+      const method = MUTATING_METHODS.includes(request.method) ? `${c.yellow}${request.method.padEnd(6)}${c.reset}` : request.method.padEnd(6);
+      console.log(`  ${String(index++).padStart(3)}. ${request.step.padEnd(8)} ${method} ${request.url}${formatParams(request.params)}`);
+      if (request.body !== undefined) {
+        const body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body, null, 2);
+        console.log(body.split('\n').map(line => `         ${c.dim}${line}${c.reset}`).join('\n'));
+      }
+      if (request.note) {
+        console.log(`         ${c.dim}↳ ${request.note}${c.reset}`);
+      }
+    }
+    console.log('');
+  }
+
+  const counts = countRequests(plan);
+  info(`${counts.total} request(s), ${counts.mutating} of them POST / PUT / PATCH / DELETE - none of them was sent`);
+  info('Only the spec fetch, the token request and the data discovery GETs (--use-real-data / --use-hierarchical) were sent');
+  console.log('');
+}
+
+/**
+ * Write the plan as JSON
+ */
+export function writeRequestPlan(plan: RequestPlan, outputPath: string): void {
+  writeFileSync(outputPath, JSON.stringify({ ...plan, ...countRequests(plan) }, null, 2) + '\n', 'utf-8');
+  console.log(`📄 Request plan written to: ${outputPath}`);
+}
+
+function countRequests(plan: RequestPlan): { total: number; mutating: number } {
+  const requests = plan.tests.flatMap(test => test.requests);
+  return {
+    total: requests.length,
+    mutating: requests.filter(request => MUTATING_METHODS.includes(request.method)).length,
+  };
+}
+
+function formatParams(params?: Record<string, unknown>): string {
+  if (!params) return '';
+  return '?' + Object.entries(params).map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`).join('&');
+}
@@ -0,0 +1,140 @@
+/**
+ * Restore Journal
+ *
+ * JSON file with the snapshot of every resource full mode deleted, rewritten on
+ * every state change so it survives an interrupted run. Entries of earlier runs
+ * are kept: `gate restore --journal <file>` re-creates the ones still pending.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { AxiosInstance } from 'axios';
+import { ResourceSnapshot, RestoreJournal, isPending, restoreSnapshot, updateSnapshot } from '../lib/restore.js';
+
+export const DEFAULT_JOURNAL_FILE = 'restore-journal.json';
+
+interface JournalFile {
+  snapshots: ResourceSnapshot[];
+}
+
+export interface RestoreCounts {
+  restored: number;
+  /** Pending entries whose resource exists again - nothing to do */
+  kept: number;
+  failed: number;
+}
+
+export class FileRestoreJournal implements RestoreJournal {
+  readonly path: string;
+  private snapshots: ResourceSnapshot[];
+  private savedIds = new Set<string>();
+
+  constructor(path: string) {
+    this.path = resolve(process.cwd(), path);
+    this.snapshots = readJournal(this.path);
+  }
+
+  save(snapshot: ResourceSnapshot): void {
+    const index = this.snapshots.findIndex(s => s.id === snapshot.id);
+    if (index >= 0) {
+      this.snapshots[index] = snapshot;
+    } else {
+      this.snapshots.push(snapshot);
+    }
+    this.savedIds.add(snapshot.id);
+
+    const file: JournalFile = { snapshots: this.snapshots };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  }
+
+  /** Entries that may still need restoring */
+  pending(): ResourceSnapshot[] {
+    return this.snapshots.filter(isPending);
+  }
+
+  /** Entries saved through this instance (the current run) */
+  saved(): ResourceSnapshot[] {
+    return this.snapshots.filter(s => this.savedIds.has(s.id));
+  }
+}
+
+/**
+ * Read the snapshots of a journal file
+ * @returns No entries when the file doesn't exist
+ */
+export function readJournal(path: string): ResourceSnapshot[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  try {
+    const journal = JSON.parse(readFileSync(path, 'utf-8')) as JournalFile;
+    if (!Array.isArray(journal.snapshots)) {
+      throw new Error('missing "snapshots" list');
+    }
+    return journal.snapshots;
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new Error(`Invalid restore journal ${path}: ${err.message}`);
+  }
+}
+
+/**
+ * Restore every pending entry of a journal
+ * A resource that can be read at its URL again is left alone (marked kept); only
+ * one the API answers with 404 or 410 is re-created. When the check fails
+ * otherwise (5xx, 401/403, timeout), the entry stays pending with the error.
+ * @param onSnapshot - Called with each entry after its restore attempt
+ */
+export async function restorePending(
+  journal: FileRestoreJournal,
+  http: AxiosInstance,
+  onSnapshot?: (snapshot: ResourceSnapshot) => void
+): Promise<RestoreCounts> {
+  const counts: RestoreCounts = { restored: 0, kept: 0, failed: 0 };
+  const config = { headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' }, timeout: 30000 };
+
+  for (const snapshot of journal.pending()) {
+    try {
+      if (await exists(http, snapshot.url, { ...config, params: snapshot.readParams })) {
+        updateSnapshot(snapshot, 'kept', journal);
+        counts.kept++;
+      } else {
+        await restoreSnapshot(http, snapshot, config);
+        updateSnapshot(snapshot, 'restored', journal);
+        counts.restored++;
+      }
+    } catch (error: unknown) {
+      // Also when the check failed: re-creating a resource that may still exist would duplicate it
+      updateSnapshot(snapshot, 'restore-failed', journal, errorMessage(error));
+      counts.failed++;
+    }
+    onSnapshot?.(snapshot);
+  }
+
+  return counts;
+}
+
+/**
+ * Whether the resource can be read at its URL
+ * @returns false only when the API answers 404 or 410; throws on any other failure
+ */
+async function exists(http: AxiosInstance, url: string, config: object): Promise<boolean> {
+  try {
+    await http.get(url, config);
+    return true;
+  } catch (error: unknown) {
+    const status = (error as { response?: { status?: number } }).response?.status;
+    if (status === 404 || status === 410) {
+      return false;
+    }
+    throw new Error(`Could not check whether ${url} exists: ${errorMessage(error)}`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+  const status = axiosError.response?.status ? ` [${axiosError.response.status}]` : '';
+  return `${axiosError.response?.data?.message || axiosError.message || 'Unknown error'}${status}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Spec Diff Reporter
+ * Renders spec-diff results as a console table, Markdown, or JUnit test results
+ */
+
+import { TestResult, Difference } from '../types/index.js';
+import { ChangeSeverity, SpecChange, SpecDiffResult } from '../lib/spec-diff.js';
+import { c } from './format.js';
+
+const SEVERITY_ORDER: ChangeSeverity[] = ['breaking', 'non-breaking', 'info'];
+
+const SEVERITY_LABEL: Record<ChangeSeverity, string> = {
+  'breaking': 'BREAKING',
+  'non-breaking': 'non-breaking',
+  'info': 'info',
+};
+
+/**
+ * Sort changes: breaking first, then by endpoint and location
+ */
+function sortChanges(changes: SpecChange[]): SpecChange[] {
+  return [...changes].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+    a.endpoint.localeCompare(b.endpoint) ||
+    a.location.localeCompare(b.location)
+  );
+}
+
+/**
+ * Print spec diff as a console table
+ */
+export function printSpecDiff(result: SpecDiffResult): void {
+  const colorFor: Record<ChangeSeverity, string> = {
+    'breaking': c.red,
+    'non-breaking': c.green,
+    'info': c.dim,
+  };
+
+  if (result.changes.length === 0) {
+    console.log('✅ No changes between the specs');
+    return;
+  }
+
+  const rows = sortChanges(result.changes);
+  const severityWidth = Math.max(...rows.map(r => SEVERITY_LABEL[r.severity].length), 'SEVERITY'.length);
+  const endpointWidth = Math.min(Math.max(...rows.map(r => r.endpoint.length), 'ENDPOINT'.length), 60);
+
+  console.log(`  ${c.bold}${'SEVERITY'.padEnd(severityWidth)}  ${'ENDPOINT'.padEnd(endpointWidth)}  CHANGE${c.reset}`);
+  console.log(`  ${'─'.repeat(severityWidth)}  ${'─'.repeat(endpointWidth)}  ${'─'.repeat(40)}`);
+
+  for (const change of rows) {
+    const color = colorFor[change.severity];
+    console.log(`  ${color}${SEVERITY_LABEL[change.severity].padEnd(severityWidth)}${c.reset}  ${change.endpoint.padEnd(endpointWidth)}  ${change.message}`);
+    if (change.location !== 'endpoint') {
+      console.log(`  ${' '.repeat(severityWidth)}  ${' '.repeat(endpointWidth)}  ${c.dim}at ${change.location}${c.reset}`);
+    }
+  }
+
+  console.log('');
+  console.log(`  ${c.red}Breaking:${c.reset}     ${String(result.breaking).padStart(4)}`);
+  console.log(`  ${c.green}Non-breaking:${c.reset} ${String(result.nonBreaking).padStart(4)}`);
+  console.log(`  ${c.dim}Info:${c.reset}         ${String(result.info).padStart(4)}`);
+}
+
+/**
+ * Export spec diff as Markdown (e.g. for a PR comment)
+ */
+export function specDiffToMarkdown(result: SpecDiffResult, oldSource: string, newSource: string): string {
+  const lines: string[] = [];
+
+  lines.push('# API Spec Diff');
+  lines.push('');
+  lines.push(`*Generated: ${new Date().toISOString()}*`);
+  lines.push('');
+  lines.push(`- **Old spec:** \`${oldSource}\``);
+  lines.push(`- **New spec:** \`${newSource}\``);
+  lines.push('');
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- **Breaking:** ${result.breaking}`);
+  lines.push(`- **Non-breaking:** ${result.nonBreaking}`);
+  lines.push(`- **Info:** ${result.info}`);
+  lines.push('');
+
+  if (result.changes.length === 0) {
+    lines.push('No changes between the specs.');
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+
+  for (const severity of SEVERITY_ORDER) {
+    const changes = sortChanges(result.changes.filter(ch => ch.severity === severity));
+    if (changes.length === 0) continue;
+
+    const title = severity === 'breaking' ? '❌ Breaking Changes' : severity === 'non-breaking' ? '✅ Non-breaking Changes' : 'ℹ️ Informational Changes';
+    lines.push(`## ${title}`);
+    lines.push('');
+    lines.push('| Endpoint | Location | Change | Rule |');
+    lines.push('|----------|----------|--------|------|');
+    for (const change of changes) {
+      lines.push(`| \`${escapeCell(change.endpoint)}\` | ${escapeCell(change.location)} | ${escapeCell(change.message)} | \`${change.rule}\` |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert spec diff to test results (one per endpoint) for the JUnit reporter.
+ * An endpoint fails when it has a change at or above the failure severity.
+ */
+export function specDiffToTestResults(result: SpecDiffResult, failOn: ChangeSeverity[] = ['breaking']): TestResult[] {
+  return result.endpoints.map((endpoint): TestResult => {
+    const changes = sortChanges(result.changes.filter(ch => ch.endpoint === endpoint));
+    const differences: Difference[] = changes.map(change => ({
+      path: change.location,
+      expected: change.before,
+      actual: change.after,
+      type: change.rule.endsWith('-removed') ? 'removed' : change.rule.endsWith('-added') ? 'added' : 'changed',
+      message: `[${change.severity}] ${change.message}`,
+    }));
+
+    return {
+      resource: endpoint,
+      steps: [],
+      passed: !changes.some(ch => failOn.includes(ch.severity)),
+      differences,
+      duration: 0,
+    };
+  });
+}
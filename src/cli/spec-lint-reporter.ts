@@ -0,0 +1,126 @@
+/**
+ * Spec Lint Reporter
+ * Renders lint-spec results as a console table, Markdown, or JUnit test results
+ */
+
+import { TestResult, Difference } from '../types/index.js';
+import { LintIssue, LintResult, LINT_RULES } from '../lib/spec-lint.js';
+import { c } from './format.js';
+
+/**
+ * Sort issues: errors first, then by endpoint and rule
+ */
+function sortIssues(issues: LintIssue[]): LintIssue[] {
+  return [...issues].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    a.endpoint.localeCompare(b.endpoint) ||
+    a.rule.localeCompare(b.rule)
+  );
+}
+
+/**
+ * Print lint issues as a console table
+ */
+export function printSpecLint(result: LintResult): void {
+  if (result.issues.length === 0) {
+    console.log(`✅ No lint issues in ${result.endpoints.length} endpoints`);
+    return;
+  }
+
+  const rows = sortIssues(result.issues);
+  const endpointWidth = Math.min(Math.max(...rows.map(r => r.endpoint.length), 'ENDPOINT'.length), 60);
+
+  console.log(`  ${c.bold}${'SEVERITY'.padEnd(8)}  ${'ENDPOINT'.padEnd(endpointWidth)}  ISSUE${c.reset}`);
+  console.log(`  ${'─'.repeat(8)}  ${'─'.repeat(endpointWidth)}  ${'─'.repeat(40)}`);
+
+  for (const issue of rows) {
+    const color = issue.severity === 'error' ? c.red : c.yellow;
+    console.log(`  ${color}${issue.severity.toUpperCase().padEnd(8)}${c.reset}  ${issue.endpoint.padEnd(endpointWidth)}  ${issue.message}`);
+    console.log(`  ${' '.repeat(8)}  ${' '.repeat(endpointWidth)}  ${c.dim}${issue.rule}${c.reset}`);
+  }
+
+  console.log('');
+  console.log(`  ${c.red}Errors:${c.reset}   ${String(result.errors).padStart(4)}`);
+  console.log(`  ${c.yellow}Warnings:${c.reset} ${String(result.warnings).padStart(4)}`);
+}
+
+/**
+ * Export lint issues as Markdown
+ */
+export function specLintToMarkdown(result: LintResult, source: string): string {
+  const lines: string[] = [];
+
+  lines.push('# API Spec Lint');
+  lines.push('');
+  lines.push(`*Generated: ${new Date().toISOString()}*`);
+  lines.push('');
+  lines.push(`- **Spec:** \`${source}\``);
+  lines.push(`- **Endpoints:** ${result.endpoints.length}`);
+  lines.push('');
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(`- **Errors:** ${result.errors}`);
+  lines.push(`- **Warnings:** ${result.warnings}`);
+  lines.push('');
+
+  if (result.issues.length === 0) {
+    lines.push('No lint issues found.');
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+
+  lines.push('## Issues by Rule');
+  lines.push('');
+  lines.push('| Rule | Count | Description |');
+  lines.push('|------|-------|-------------|');
+  for (const [rule, definition] of Object.entries(LINT_RULES)) {
+    const count = result.issues.filter(i => i.rule === rule).length;
+    if (count > 0) {
+      lines.push(`| \`${rule}\` | ${count} | ${escapeCell(definition.description)} |`);
+    }
+  }
+  lines.push('');
+
+  for (const severity of ['error', 'warn'] as const) {
+    const issues = sortIssues(result.issues.filter(i => i.severity === severity));
+    if (issues.length === 0) continue;
+
+    lines.push(`## ${severity === 'error' ? '❌ Errors' : '⚠️ Warnings'}`);
+    lines.push('');
+    lines.push('| Endpoint | Issue | Rule |');
+    lines.push('|----------|-------|------|');
+    for (const issue of issues) {
+      lines.push(`| \`${escapeCell(issue.endpoint)}\` | ${escapeCell(issue.message)} | \`${issue.rule}\` |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert lint issues to test results (one per endpoint) for the JUnit reporter.
+ * An endpoint fails when it has an error (or a warning, when failOnWarnings is set).
+ */
+export function specLintToTestResults(result: LintResult, failOnWarnings: boolean = false): TestResult[] {
+  return result.endpoints.map((endpoint): TestResult => {
+    const issues = sortIssues(result.issues.filter(i => i.endpoint === endpoint));
+    const differences: Difference[] = issues.map((issue): Difference => ({
+      path: issue.rule,
+      expected: LINT_RULES[issue.rule].description,
+      actual: null,
+      type: 'violation',
+      message: `[${issue.severity}] ${issue.message}`,
+    }));
+
+    return {
+      resource: endpoint,
+      steps: [],
+      passed: !issues.some(i => i.severity === 'error' || failOnWarnings),
+      differences,
+      duration: 0,
+    };
+  });
+}
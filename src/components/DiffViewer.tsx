@@ -10,7 +10,7 @@ interface DiffViewerProps {
 }
 
 export function DiffViewer({ original, verified, differences }: DiffViewerProps) {
-  if (!original && !verified) {
+  if (!original && !verified && differences.length === 0) {
     return (
       <div className="p-6 text-center text-muted-foreground">
         No data available for comparison
@@ -26,6 +26,14 @@ export function DiffViewer({ original, verified, differences }: DiffViewerProps)
         return 'diff-removed';
       case 'changed':
         return 'diff-changed';
+      case 'violation':
+        return 'diff-removed';
+      case 'type-changed':
+        return 'diff-changed';
+      case 'field-added':
+        return 'diff-added';
+      case 'field-removed':
+        return 'diff-removed';
       default:
         return '';
     }
@@ -39,22 +47,73 @@ export function DiffViewer({ original, verified, differences }: DiffViewerProps)
         return <Badge variant="destructive" className="text-[10px]">REMOVED</Badge>;
       case 'changed':
         return <Badge variant="warning" className="text-[10px]">CHANGED</Badge>;
+      case 'violation':
+        return <Badge variant="destructive" className="text-[10px]">SCHEMA</Badge>;
+      case 'type-changed':
+        return <Badge variant="warning" className="text-[10px]">TYPE</Badge>;
+      case 'field-added':
+        return <Badge variant="success" className="text-[10px]">FIELD ADDED</Badge>;
+      case 'field-removed':
+        return <Badge variant="destructive" className="text-[10px]">FIELD REMOVED</Badge>;
       default:
         return null;
     }
   };
 
   const formatValue = (value: unknown): string => {
-    if (value === undefined) return 'undefined';
+    // An added / removed field or list element has no value on one side
+    if (value === undefined) return '(not present)';
     if (value === null) return 'null';
     if (typeof value === 'object') return JSON.stringify(value, null, 2);
     return String(value);
   };
 
+  // Differences suppressed by a compare rule are listed, but don't count as failures
+  const failing = differences.filter(diff => !diff.suppressedBy);
+  const suppressed = differences.filter(diff => diff.suppressedBy);
+
+  const renderDifference = (diff: Difference, idx: number) => (
+    <motion.div
+      key={idx}
+      initial={{ opacity: 0, x: -10 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: idx * 0.05 }}
+      className={`p-3 rounded-md font-mono text-xs ${diff.suppressedBy ? 'bg-muted opacity-60' : getDiffTypeColor(diff.type)}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <code className="text-foreground font-semibold">{diff.path}</code>
+        {diff.suppressedBy ? <Badge variant="secondary" className="text-[10px]">SUPPRESSED</Badge> : getDiffBadge(diff.type)}
+      </div>
+      
+      {diff.suppressedBy && (
+        <p className="text-muted-foreground mb-2">Suppressed by {diff.suppressedBy}</p>
+      )}
+      
+      {diff.message && (
+        <p className="text-muted-foreground mb-2">{diff.message}</p>
+      )}
+      
+      <div className="grid grid-cols-2 gap-4 mt-2">
+        <div>
+          <span className="text-muted-foreground text-[10px] uppercase tracking-wider">Expected</span>
+          <pre className="mt-1 whitespace-pre-wrap break-words">
+            {formatValue(diff.expected)}
+          </pre>
+        </div>
+        <div>
+          <span className="text-muted-foreground text-[10px] uppercase tracking-wider">Actual</span>
+          <pre className="mt-1 whitespace-pre-wrap break-words">
+            {formatValue(diff.actual)}
+          </pre>
+        </div>
+      </div>
+    </motion.div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Differences Summary */}
-      {differences.length > 0 ? (
+      {failing.length > 0 ? (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -62,39 +121,14 @@ export function DiffViewer({ original, verified, differences }: DiffViewerProps)
         >
           <h4 className="text-sm font-medium text-foreground flex items-center gap-2">
             <span className="h-2 w-2 rounded-full bg-warning" />
-            {differences.length} Difference{differences.length !== 1 ? 's' : ''} Found
+            {failing.length} Difference{failing.length !== 1 ? 's' : ''} Found
+            {suppressed.length > 0 && (
+              <span className="text-muted-foreground font-normal">({suppressed.length} suppressed)</span>
+            )}
           </h4>
           
           <div className="space-y-2">
-            {differences.map((diff, idx) => (
-              <motion.div
-                key={idx}
-                initial={{ opacity: 0, x: -10 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: idx * 0.05 }}
-                className={`p-3 rounded-md font-mono text-xs ${getDiffTypeColor(diff.type)}`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <code className="text-foreground font-semibold">{diff.path}</code>
-                  {getDiffBadge(diff.type)}
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4 mt-2">
-                  <div>
-                    <span className="text-muted-foreground text-[10px] uppercase tracking-wider">Expected</span>
-                    <pre className="mt-1 whitespace-pre-wrap break-words">
-                      {formatValue(diff.expected)}
-                    </pre>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground text-[10px] uppercase tracking-wider">Actual</span>
-                    <pre className="mt-1 whitespace-pre-wrap break-words">
-                      {formatValue(diff.actual)}
-                    </pre>
-                  </div>
-                </div>
-              </motion.div>
-            ))}
+            {differences.map(renderDifference)}
           </div>
         </motion.div>
       ) : (
@@ -115,12 +149,19 @@ export function DiffViewer({ original, verified, differences }: DiffViewerProps)
           </div>
           <h4 className="font-medium text-success">Perfect Match!</h4>
           <p className="text-sm text-muted-foreground mt-1">
-            Original and recreated data are identical (ignoring metadata fields)
+            Original and recreated data are identical (ignoring metadata fields{suppressed.length > 0 ? ` and ${suppressed.length} suppressed difference${suppressed.length !== 1 ? 's' : ''}` : ''})
           </p>
         </motion.div>
       )}
 
+      {failing.length === 0 && suppressed.length > 0 && (
+        <div className="space-y-2">
+          {suppressed.map(renderDifference)}
+        </div>
+      )}
+
       {/* Side by Side View */}
+      {(original || verified) && (
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <h4 className="text-sm font-medium text-muted-foreground mb-2 uppercase tracking-wider">
@@ -139,6 +180,7 @@ export function DiffViewer({ original, verified, differences }: DiffViewerProps)
           </pre>
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
-import { TestStep } from '@/types';
+import { TestStep, Difference } from '@/types';
 import { CheckCircle2, XCircle, AlertCircle, Clock, ArrowDown } from 'lucide-react';
 import { motion } from 'framer-motion';
 
@@ -14,10 +14,11 @@ export function ResultsTimeline({ steps, isRunning }: ResultsTimelineProps) {
     if (step.error && step.step !== 'DELETE') {
       return <XCircle className="h-5 w-5 text-destructive" />;
     }
-    if (step.status && step.status >= 200 && step.status < 300) {
+    if (step.status && ((step.status >= 200 && step.status < 300) || (step.step === 'PROBE' && !step.error))) {
       return <CheckCircle2 className="h-5 w-5 text-success" />;
     }
-    if (step.status === 404 && step.step === 'DELETE') {
+    // Nothing to delete (or snapshot) is not a failure
+    if (step.status === 404 && (step.step === 'DELETE' || step.step === 'SNAPSHOT')) {
       return <AlertCircle className="h-5 w-5 text-warning" />;
     }
     if (step.error) {
@@ -32,14 +33,26 @@ export function ResultsTimeline({ steps, isRunning }: ResultsTimelineProps) {
         return 'Authenticate';
       case 'GET':
         return 'Fetch Original';
+      case 'PUT':
+        return 'Update Resource';
+      case 'PATCH':
+        return 'Patch Resource';
+      case 'RESTORE':
+        return 'Restore Original';
+      case 'SNAPSHOT':
+        return 'Snapshot Resource';
       case 'DELETE':
         return 'Delete Resource';
       case 'POST':
         return 'Recreate Resource';
       case 'VERIFY':
-        return 'Verify Created';
+        return 'Verify Persisted';
       case 'COMPARE':
         return 'Compare Results';
+      case 'VALIDATE':
+        return 'Validate Schema';
+      case 'PROBE':
+        return `Negative Probe${step.probe ? ` (${step.probe})` : ''}`;
       default:
         return step.step;
     }
@@ -47,7 +60,8 @@ export function ResultsTimeline({ steps, isRunning }: ResultsTimelineProps) {
 
   const getStatusBadge = (step: TestStep) => {
     if (step.step === 'COMPARE') {
-      const differences = step.data?.differences || [];
+      // Differences suppressed by a compare rule don't count
+      const differences = (step.data?.differences || []).filter((diff: Difference) => !diff.suppressedBy);
       return differences.length === 0 ? (
         <Badge variant="success">MATCH</Badge>
       ) : (
@@ -56,7 +70,9 @@ export function ResultsTimeline({ steps, isRunning }: ResultsTimelineProps) {
     }
     
     if (step.status) {
-      const variant = step.status >= 200 && step.status < 300 ? 'success' :
+      // A probe succeeds when the request is rejected
+      const variant = step.step === 'PROBE' ? (step.error ? 'destructive' : 'success') :
+        step.status >= 200 && step.status < 300 ? 'success' :
         step.status === 404 ? 'warning' : 'destructive';
       return <Badge variant={variant}>{step.status}</Badge>;
     }
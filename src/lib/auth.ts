@@ -0,0 +1,389 @@
+/**
+ * Authentication
+ *
+ * Credentials for every auth strategy, shared by spec loading, data discovery
+ * and the test runners:
+ * - oauth2: password or client_credentials grant (with scope and audience)
+ * - basic:  HTTP basic auth with username and password
+ * - bearer: a static bearer token
+ * - apikey: an API key in a header, query parameter or cookie
+ * Any of them can be combined with a mutual-TLS client certificate.
+ *
+ * Tokens are cached per auth configuration by a TokenProvider, so a run sends
+ * one token request instead of one per endpoint.
+ */
+
+import defaultAxios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { AuthConfig, OAuth2GrantType } from '@/types';
+import { createAxiosInstance } from './utils.js';
+import { instrumentClient } from './har.js';
+
+const axios = instrumentClient(createAxiosInstance());
+
+/** Refresh a token this long before it expires (at most 10% of its lifetime) */
+const REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * What a request needs to authenticate: headers, query parameters and the mTLS agent
+ */
+export interface AuthRequestOptions {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  /** https.Agent presenting the client certificate (Node.js only) */
+  httpsAgent?: unknown;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  /** Lifetime in seconds (`expires_in`), when the token endpoint returns one */
+  expiresIn?: number;
+}
+
+/**
+ * Get OAuth2 access token using password grant flow
+ */
+export async function getOAuth2Token(
+  tokenUrl: string,
+  username: string,
+  password: string
+): Promise<string> {
+  return (await requestOAuth2Token({ type: 'oauth2', tokenUrl, username, password })).accessToken;
+}
+
+/**
+ * The OAuth2 grant of an auth configuration: grantType, else the GRANT_TYPE env var, else password
+ */
+export function getGrantType(auth: AuthConfig): OAuth2GrantType {
+  const fromEnv = typeof process !== 'undefined' ? process.env.GRANT_TYPE : undefined;
+  return auth.grantType || (fromEnv === 'client_credentials' ? 'client_credentials' : 'password');
+}
+
+/**
+ * Request an OAuth2 access token and its lifetime (password or client_credentials grant)
+ * Matches Stefan's production implementation exactly for the password grant
+ * @param httpsAgent - Agent presenting the mTLS client certificate, when configured
+ */
+export async function requestOAuth2Token(auth: AuthConfig, httpsAgent?: unknown): Promise<OAuth2Token> {
+  try {
+    // Build form-encoded parameters (matching Stefan's implementation)
+    const params = new URLSearchParams();
+    const grantType = getGrantType(auth);
+    
+    params.append('grant_type', grantType);
+    
+    if (grantType === 'password') {
+      params.append('username', auth.username || '');
+      params.append('password', auth.password || '');
+    }
+    // Client authentication in the request body (client_secret_post)
+    if (auth.clientId) {
+      params.append('client_id', auth.clientId);
+    }
+    if (auth.clientSecret) {
+      params.append('client_secret', auth.clientSecret);
+    }
+    if (auth.scope) {
+      params.append('scope', auth.scope);
+    }
+    if (auth.audience) {
+      params.append('audience', auth.audience);
+    }
+
+    // POST with form-encoded data (NOT JSON)
+    const response = await axios.post(
+      auth.tokenUrl || '',
+      params.toString(), // Convert to form-encoded string (matching Stefan's code)
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        // SSL-handled axios instance is already configured via createAxiosInstance()
+        ...(httpsAgent ? { httpsAgent } : {}),
+      }
+    );
+
+    // Check if request was successful (matching Stefan's error handling)
+    if (response.status !== 200) {
+      const errorText = response.data ? JSON.stringify(response.data) : response.statusText;
+      console.error(`Failed to fetch access token: ${response.status} ${response.statusText} - ${errorText}`);
+      throw new Error(`Failed to fetch access token: ${response.status} ${response.statusText}`);
+    }
+
+    // Extract access token (matching Stefan's validation)
+    const data = response.data;
+    const accessToken = data?.access_token;
+
+    if (!accessToken) {
+      const errorMsg = data ? `No access_token in response. Response keys: ${Object.keys(data).join(', ')}` : 'Empty response';
+      throw new Error(`Access token is null: ${errorMsg}`);
+    }
+
+    const expiresIn = Number(data.expires_in);
+    return { accessToken, expiresIn: expiresIn > 0 ? expiresIn : undefined };
+  } catch (error: unknown) {
+    // Enhanced error handling matching Stefan's implementation
+    const axiosError = error as { response?: { status?: number; statusText?: string; data?: unknown }; message?: string };
+    if (axiosError.response) {
+      const status = axiosError.response.status;
+      const statusText = axiosError.response.statusText;
+      const errorData = axiosError.response.data;
+      const errorText = errorData ? (typeof errorData === 'string' ? errorData : JSON.stringify(errorData)) : statusText;
+
+      console.error(`OAuth2 authentication failed: ${status} ${statusText} - ${errorText}`);
+      throw new Error(`OAuth2 authentication failed: ${status} ${statusText} - ${String(errorText).substring(0, 200)}`);
+    }
+
+    throw new Error(`OAuth2 authentication failed: ${axiosError.message}`);
+  }
+}
+
+/**
+ * Token Provider
+ *
+ * Holds the credentials of one auth configuration and hands out what a request
+ * needs to authenticate.
+ * OAuth2 tokens are cached until shortly before `expires_in` runs out (tokens
+ * without `expires_in` are kept until the API rejects them). Concurrent callers
+ * share one in-flight token request, so --parallel runs stay at one request.
+ */
+export class TokenProvider {
+  /** Number of token requests sent to the token endpoint */
+  tokenRequests = 0;
+
+  private token?: string;
+  private issuedAt = 0;
+  private expiresAt?: number;
+  private pending?: Promise<string>;
+  private http?: AxiosInstance;
+  private agent?: Promise<unknown>;
+
+  constructor(private readonly auth?: AuthConfig) {}
+
+  /** Whether the configuration authenticates with an OAuth2 token */
+  get usesOAuth2(): boolean {
+    const auth = this.auth;
+    if (auth?.type !== 'oauth2' || !auth.tokenUrl) {
+      return false;
+    }
+    return getGrantType(auth) === 'client_credentials'
+      ? !!auth.clientId && !!auth.clientSecret
+      : !!auth.username && !!auth.password;
+  }
+
+  /**
+   * Get the access token: the cached one, or a fresh one when it is (about to be) expired
+   */
+  async getToken(): Promise<string> {
+    if (this.token && !this.expiresSoon()) {
+      return this.token;
+    }
+    return this.fetchToken();
+  }
+
+  /**
+   * Replace a token the API rejected with a fresh one.
+   * Requests that fail with the same token concurrently share one refresh.
+   */
+  async refresh(rejectedToken?: string): Promise<string> {
+    if (this.token && rejectedToken && this.token !== rejectedToken) {
+      return this.token;
+    }
+    this.token = undefined;
+    return this.fetchToken();
+  }
+
+  /**
+   * Build the request headers and query parameters (none when the config is incomplete)
+   */
+  async getRequestOptions(): Promise<AuthRequestOptions> {
+    const auth = this.auth;
+    const options: AuthRequestOptions = { headers: {}, params: {}, httpsAgent: await this.getHttpsAgent() };
+
+    if (this.usesOAuth2) {
+      options.headers.Authorization = `Bearer ${await this.getToken()}`;
+    } else if (auth?.type === 'basic' && auth.username && auth.password) {
+      options.headers.Authorization = `Basic ${encodeBase64(`${auth.username}:${auth.password}`)}`;
+    } else if (auth?.type === 'bearer' && auth.token) {
+      options.headers.Authorization = `Bearer ${auth.token}`;
+    } else if (auth?.type === 'apikey' && auth.token) {
+      const name = auth.apiKeyName || 'X-API-Key';
+      if (auth.apiKeyIn === 'query') {
+        options.params[name] = auth.token;
+      } else if (auth.apiKeyIn === 'cookie') {
+        options.headers.Cookie = `${name}=${encodeURIComponent(auth.token)}`;
+      } else {
+        options.headers[name] = auth.token;
+      }
+    }
+    return options;
+  }
+
+  /**
+   * Axios instance that adds the auth headers to every request and retries
+   * a request once with a fresh token when it fails with 401
+   */
+  get client(): AxiosInstance {
+    if (!this.http) {
+      // In the browser createAxiosInstance() returns the global instance - keep interceptors off it
+      const instance = createAxiosInstance();
+      const http = instrumentClient(instance === defaultAxios ? defaultAxios.create() : instance);
+
+      http.interceptors.request.use(async (config) => {
+        const { headers, params, httpsAgent } = await this.getRequestOptions();
+        for (const [name, value] of Object.entries(headers)) {
+          // Keep cookies the request sets itself
+          const existing = name === 'Cookie' ? config.headers.get('Cookie') : undefined;
+          config.headers.set(name, existing ? `${existing}; ${value}` : value);
+        }
+        if (Object.keys(params).length > 0) {
+          config.params = { ...config.params, ...params };
+        }
+        if (httpsAgent) {
+          config.httpsAgent = httpsAgent;
+        }
+        return config;
+      });
+
+      http.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as (InternalAxiosRequestConfig & { authRetried?: boolean }) | undefined;
+        if (error.response?.status !== 401 || !config || config.authRetried || !this.usesOAuth2) {
+          throw error;
+        }
+        config.authRetried = true;
+        const rejectedToken = String(config.headers.get('Authorization') || '').replace(/^Bearer /, '');
+        await this.refresh(rejectedToken);
+        return http.request(config);
+      });
+
+      this.http = http;
+    }
+    return this.http;
+  }
+
+  private expiresSoon(): boolean {
+    if (this.expiresAt === undefined) {
+      return false;
+    }
+    const margin = Math.min(REFRESH_MARGIN_MS, (this.expiresAt - this.issuedAt) / 10);
+    return Date.now() >= this.expiresAt - margin;
+  }
+
+  /**
+   * https.Agent presenting the mTLS client certificate, loaded once
+   * (none in the browser, which picks client certificates from its own store)
+   */
+  private getHttpsAgent(): Promise<unknown> | undefined {
+    const auth = this.auth;
+    if (!auth?.clientCert || typeof window !== 'undefined') {
+      return undefined;
+    }
+    this.agent ??= createClientCertificateAgent(auth);
+    return this.agent;
+  }
+
+  private fetchToken(): Promise<string> {
+    const auth = this.auth;
+    if (!auth || !this.usesOAuth2) {
+      return Promise.reject(new Error('OAuth2 authentication is not configured'));
+    }
+    if (!this.pending) {
+      this.tokenRequests++;
+      this.pending = Promise.resolve(this.getHttpsAgent())
+        .then(httpsAgent => requestOAuth2Token(auth, httpsAgent))
+        .then(({ accessToken, expiresIn }) => {
+          this.token = accessToken;
+          this.issuedAt = Date.now();
+          this.expiresAt = expiresIn ? this.issuedAt + expiresIn * 1000 : undefined;
+          return accessToken;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return this.pending;
+  }
+}
+
+const providers = new Map<string, TokenProvider>();
+
+/**
+ * Get the shared token provider of an auth configuration.
+ * Equal configurations (same strategy, credentials and token URL) share one provider and its token.
+ */
+export function getTokenProvider(auth?: AuthConfig): TokenProvider {
+  const key = JSON.stringify(auth ? { ...auth, grantType: getGrantType(auth) } : null);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new TokenProvider(auth);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Build the request headers, query parameters and mTLS agent for an auth configuration
+ * (uses the shared OAuth2 token for oauth2; nothing when the config is incomplete)
+ */
+export async function getAuthRequestOptions(auth?: AuthConfig): Promise<AuthRequestOptions> {
+  return getTokenProvider(auth).getRequestOptions();
+}
+
+/**
+ * Human readable name of an auth strategy, e.g. "OAuth2 (client_credentials grant) + mTLS"
+ */
+export function describeAuth(auth?: AuthConfig): string {
+  let name: string;
+  switch (auth?.type) {
+    case 'oauth2':
+      name = `OAuth2 (${getGrantType(auth)} grant)`;
+      break;
+    case 'basic':
+      name = 'HTTP basic';
+      break;
+    case 'bearer':
+      name = 'Bearer token';
+      break;
+    case 'apikey':
+      name = `API key (${auth.apiKeyIn || 'header'} ${auth.apiKeyName || 'X-API-Key'})`;
+      break;
+    default:
+      name = 'None';
+  }
+  return auth?.clientCert ? `${name} + mTLS` : name;
+}
+
+/**
+ * Create an https.Agent that presents the configured client certificate
+ * Honors NODE_TLS_REJECT_UNAUTHORIZED / ACCEPT_SELF_SIGNED_CERT like createAxiosInstance()
+ */
+async function createClientCertificateAgent(auth: AuthConfig): Promise<unknown> {
+  const [{ Agent }, { readFile }] = await Promise.all([import('https'), import('fs/promises')]);
+  const read = async (path: string, what: string) => {
+    try {
+      return await readFile(path);
+    } catch (error: unknown) {
+      throw new Error(`Cannot read ${what} ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (!auth.clientCert || !auth.clientKey) {
+    throw new Error('mTLS requires a client key (clientKey) next to the client certificate');
+  }
+
+  return new Agent({
+    cert: await read(auth.clientCert, 'client certificate'),
+    key: await read(auth.clientKey, 'client key'),
+    passphrase: auth.clientKeyPassphrase,
+    ca: auth.caCert ? await read(auth.caCert, 'CA certificate') : undefined,
+    rejectUnauthorized: process.env.NODE_TLS_REJECT_UNAUTHORIZED !== '0'
+      && process.env.ACCEPT_SELF_SIGNED_CERT !== 'true',
+  });
+}
+
+/**
+ * Base64-encode a UTF-8 string (browser and Node.js)
+ */
+function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes));
+}
@@ -0,0 +1,705 @@
+/**
+ * Body Generator
+ *
+ * Builds request payloads from a resolved request body schema, for endpoints
+ * without a hand-written fixture or previously fetched data to re-send.
+ *
+ * Values come from, in order: example / examples, const, default, enum, and
+ * otherwise the type with its constraints (format, minimum / maximum,
+ * exclusive bounds, multipleOf, minLength / maxLength, pattern, minItems /
+ * maxItems). Generated strings use the `__test__` prefix of the POST fixtures
+ * so test data is easy to recognize, and to clean up by hand when a run could
+ * not delete it.
+ *
+ * Generation is deterministic: the same schema and seed always produce the
+ * same body.
+ *
+ * Updates (PUT / PATCH) change a single scalar field of an existing resource
+ * to another valid value, so the change can be verified and reverted.
+ */
+
+import { Endpoint, JsonSchema } from '@/types';
+import { getRequestSchema } from './swagger.js';
+
+export interface GenerateOptions {
+  /** Seed for the random choices (default: 1) */
+  seed?: number | string;
+  /** Also generate optional properties (default: true) */
+  includeOptional?: boolean;
+  /** Nesting depth after which only required properties are generated (default: 4) */
+  maxDepth?: number;
+}
+
+export interface GeneratedBody {
+  contentType: string;
+  body: unknown;
+  /** Values for the endpoint's path parameters (also used for same-named body properties) */
+  pathParams: Record<string, string>;
+}
+
+const TEST_PREFIX = '__test__';
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+/** Fields stripped before comparing (see stripMetaFields) - never picked for updates */
+const META_FIELDS = ['id', '_id', 'createdAt', 'updatedAt', 'created_at', 'updated_at', 'timestamp'];
+
+export type Random = () => number;
+
+/**
+ * Generate a value that is valid against a schema
+ */
+export function generateBody(schema: JsonSchema, options: GenerateOptions = {}): unknown {
+  const context: Context = {
+    random: createRandom(options.seed ?? 1),
+    includeOptional: options.includeOptional !== false,
+    maxDepth: options.maxDepth ?? 4,
+    ancestors: [],
+  };
+  return generateValue(schema, context, 0, 'value');
+}
+
+/**
+ * Generate a request body (and path parameters) for an endpoint from its request schema.
+ * The seed is combined with the endpoint, so bodies do not depend on test order.
+ * @returns undefined when the endpoint documents no request body schema
+ */
+export function generateRequestBody(endpoint: Endpoint, options: GenerateOptions = {}): GeneratedBody | undefined {
+  const requestSchema = getRequestSchema(endpoint);
+  if (!requestSchema) return undefined;
+
+  const endpointSeed = `${options.seed ?? 1}:${endpoint.method} ${endpoint.path}`;
+  const pathParams = generatePathParams(endpoint);
+  const body = generateBody(requestSchema.schema, { ...options, seed: endpointSeed });
+
+  // Keep identifiers in the body consistent with the URL, e.g. POST /systems/{system} { system: ... }
+  if (isPlainObject(body)) {
+    for (const [name, value] of Object.entries(pathParams)) {
+      if (typeof body[name] === 'string') {
+        body[name] = value;
+      }
+    }
+  }
+
+  return { contentType: requestSchema.contentType, body, pathParams };
+}
+
+/**
+ * Test values for an endpoint's path parameters, e.g. { system: "__test__system" }
+ */
+export function generatePathParams(endpoint: Endpoint): Record<string, string> {
+  const names = (endpoint.path.match(/\{[^}]+\}/g) || []).map(p => p.slice(1, -1));
+  return Object.fromEntries(names.map(name => [name, `${TEST_PREFIX}${name}`]));
+}
+
+/**
+ * Remove writeOnly properties (e.g. passwords), which the API never returns
+ */
+export function omitWriteOnly(value: unknown, schema: JsonSchema): unknown {
+  const merged = mergeAllOf(schema);
+
+  if (Array.isArray(value) && merged.items) {
+    return value.map(item => omitWriteOnly(item, merged.items as JsonSchema));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const properties = (merged.properties || {}) as Record<string, JsonSchema>;
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertySchema?.writeOnly === true) continue;
+    result[key] = propertySchema ? omitWriteOnly(child, propertySchema) : child;
+  }
+  return result;
+}
+
+export interface GeneratedUpdate {
+  contentType: string;
+  /** Top-level property that is changed */
+  field: string;
+  value: unknown;
+  originalValue: unknown;
+  /** Request body that applies the change */
+  body: unknown;
+  /** Request body that puts the original value back */
+  restoreBody: unknown;
+}
+
+/**
+ * Build a PUT or PATCH request that changes one field of an existing resource.
+ * The field is the first top-level, writable, scalar property of the request schema
+ * for which a different valid value can be generated.
+ *
+ * PUT bodies carry the full resource (the writable properties of the original),
+ * PATCH bodies only the changed field - as a JSON Patch operation for application/json-patch+json.
+ * @param original - The resource as returned by GET
+ * @param resourceSchema - Schema of the resource (GET response), used when the request schema
+ *                         does not describe the resource itself (JSON Patch)
+ * @returns undefined when the endpoint has no JSON request body or no field can be changed
+ */
+export function generateUpdate(
+  endpoint: Endpoint,
+  original: unknown,
+  options: GenerateOptions = {},
+  resourceSchema?: JsonSchema
+): GeneratedUpdate | undefined {
+  const requestSchema = getRequestSchema(endpoint);
+  if (!isPlainObject(original) || !requestSchema || !/[/+]json\b/i.test(requestSchema.contentType)) {
+    return undefined;
+  }
+
+  const jsonPatch = /json-patch\+json/i.test(requestSchema.contentType);
+  const schema = mergeAllOf(jsonPatch ? resourceSchema || {} : requestSchema.schema);
+  const documented = isPlainObject(schema.properties) && Object.keys(schema.properties).length > 0;
+  const properties = documented ? schema.properties as Record<string, JsonSchema> : inferScalarProperties(original);
+  const pathParams = generatePathParams(endpoint);
+
+  for (const [field, propertySchema] of Object.entries(properties)) {
+    if (!(field in original) || field in pathParams || META_FIELDS.includes(field)) continue;
+    if (!propertySchema || propertySchema.readOnly === true || propertySchema.writeOnly === true) continue;
+
+    const originalValue = original[field];
+    const value = generateChangedValue(propertySchema, originalValue, `${options.seed ?? 1}:${endpoint.method} ${endpoint.path}`, field);
+    if (value === undefined) continue;
+
+    if (jsonPatch) {
+      const pointer = `/${field.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      return {
+        contentType: requestSchema.contentType,
+        field,
+        value,
+        originalValue,
+        body: [{ op: 'replace', path: pointer, value }],
+        restoreBody: [{ op: 'replace', path: pointer, value: clone(originalValue) }],
+      };
+    }
+
+    if (endpoint.method === 'PATCH') {
+      return {
+        contentType: requestSchema.contentType,
+        field,
+        value,
+        originalValue,
+        body: { [field]: value },
+        restoreBody: { [field]: clone(originalValue) },
+      };
+    }
+
+    // PUT replaces the resource - send everything the client may write
+    const writable = Object.fromEntries(
+      Object.entries(original).filter(([key]) => !documented || (key in properties && properties[key]?.readOnly !== true))
+    );
+    return {
+      contentType: requestSchema.contentType,
+      field,
+      value,
+      originalValue,
+      body: { ...clone(writable), [field]: value },
+      restoreBody: clone(writable),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * A valid value for a scalar property that differs from the current one
+ */
+function generateChangedValue(schema: JsonSchema, current: unknown, seed: string, name: string): unknown {
+  const merged = mergeAllOf(schema);
+  const type = inferType(merged);
+  if (!['string', 'integer', 'number', 'boolean'].includes(type) || merged.const !== undefined || merged.oneOf || merged.anyOf) {
+    return undefined;
+  }
+
+  if (Array.isArray(merged.enum)) {
+    return clone(merged.enum.find(value => value !== null && !containsValue([current], value)));
+  }
+  if (type === 'boolean') {
+    return typeof current === 'boolean' ? !current : true;
+  }
+
+  // Examples and defaults are often the current value - generate from the constraints
+  const { example: _example, examples: _examples, default: _default, 'x-example': _xExample, ...constraints } = merged;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const context: Context = { random: createRandom(`${seed}:${name}:${attempt}`), includeOptional: false, maxDepth: 0, ancestors: [] };
+    const value = generateValue(constraints, context, 0, name);
+    if (!containsValue([current], value)) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Property schemas for the scalar fields of an object, for request bodies without a documented schema
+ */
+function inferScalarProperties(value: Record<string, unknown>): Record<string, JsonSchema> {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (typeof child === 'string' || typeof child === 'boolean') {
+      properties[key] = { type: typeof child };
+    } else if (typeof child === 'number') {
+      properties[key] = { type: Number.isInteger(child) ? 'integer' : 'number' };
+    }
+  }
+  return properties;
+}
+
+interface Context {
+  random: Random;
+  includeOptional: boolean;
+  maxDepth: number;
+  /** Object schemas currently being generated, to skip optional recursive properties */
+  ancestors: JsonSchema[];
+}
+
+function generateValue(schema: JsonSchema, context: Context, depth: number, name: string): unknown {
+  if (!schema || typeof schema !== 'object' || typeof schema.$ref === 'string') {
+    return `${TEST_PREFIX}${name}`;
+  }
+
+  const example = pickExample(schema, context.random);
+  if (example !== undefined) return example;
+
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    // The first branch is usually the primary shape
+    const branches = (schema.oneOf || schema.anyOf) as JsonSchema[];
+    const { oneOf: _oneOf, anyOf: _anyOf, ...rest } = schema;
+    return generateValue(mergeAllOf({ allOf: [rest, branches[0]] }), context, depth, name);
+  }
+
+  const merged = mergeAllOf(schema);
+  if (merged !== schema) {
+    return generateValue(merged, context, depth, name);
+  }
+
+  switch (inferType(schema)) {
+    case 'object':
+      return generateObject(schema, context, depth);
+    case 'array':
+      return generateArray(schema, context, depth, name);
+    case 'integer':
+      return generateNumber(schema, context.random, true);
+    case 'number':
+      return generateNumber(schema, context.random, false);
+    case 'boolean':
+      return context.random() < 0.5;
+    case 'null':
+      return null;
+    default:
+      return generateString(schema, context.random, name);
+  }
+}
+
+function pickExample(schema: JsonSchema, random: Random): unknown {
+  if (schema.example !== undefined) return clone(schema.example);
+  if (schema['x-example'] !== undefined) return clone(schema['x-example']);
+
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    return clone(schema.examples[0]);
+  }
+  if (isPlainObject(schema.examples)) {
+    // OpenAPI 3 Example Objects: { name: { value } }
+    const first = Object.values(schema.examples)[0];
+    if (isPlainObject(first) && first.value !== undefined) return clone(first.value);
+  }
+
+  if (schema.const !== undefined) return clone(schema.const);
+  if (schema.default !== undefined) return clone(schema.default);
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const values = schema.enum.filter(value => value !== null);
+    const choices = values.length > 0 ? values : schema.enum;
+    return clone(choices[Math.floor(random() * choices.length)]);
+  }
+
+  return undefined;
+}
+
+function inferType(schema: JsonSchema): string {
+  const type = Array.isArray(schema.type)
+    ? (schema.type as string[]).find(t => t !== 'null') || 'null'
+    : schema.type as string | undefined;
+  if (type) return type;
+  if (schema.properties || schema.additionalProperties) return 'object';
+  if (schema.items) return 'array';
+  return 'string';
+}
+
+function generateObject(schema: JsonSchema, context: Context, depth: number): Record<string, unknown> {
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required || []) as string[]);
+  const result: Record<string, unknown> = {};
+
+  context.ancestors.push(schema);
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (propertySchema?.readOnly === true && !required.has(key)) continue;
+
+    const recursive = context.ancestors.includes(propertySchema) || context.ancestors.includes(propertySchema?.items as JsonSchema);
+    const include = required.has(key) || (context.includeOptional && depth < context.maxDepth && !recursive);
+    if (!include) continue;
+
+    // Past the depth limit, required nested structures are kept minimal
+    if (depth >= context.maxDepth * 2) {
+      result[key] = minimalValue(propertySchema);
+      continue;
+    }
+    result[key] = generateValue(propertySchema, context, depth + 1, key);
+  }
+
+  context.ancestors.pop();
+  return result;
+}
+
+function generateArray(schema: JsonSchema, context: Context, depth: number, name: string): unknown[] {
+  const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+  const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Math.max(minItems, 1);
+  const count = Math.min(Math.max(minItems, 1), maxItems);
+  if (depth >= context.maxDepth * 2 || !schema.items) {
+    return [];
+  }
+
+  const items: unknown[] = [];
+  for (let i = 0; i < count; i++) {
+    let item = generateValue(schema.items as JsonSchema, context, depth + 1, name);
+    // uniqueItems: retry a few times for a value that is not there yet
+    for (let attempt = 0; schema.uniqueItems === true && attempt < 5 && containsValue(items, item); attempt++) {
+      item = generateValue(schema.items as JsonSchema, context, depth + 1, `${name}${i}`);
+    }
+    const itemEnum = (schema.items as JsonSchema).enum;
+    if (schema.uniqueItems === true && containsValue(items, item) && Array.isArray(itemEnum)) {
+      item = itemEnum.find(value => !containsValue(items, value)) ?? item;
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+function generateNumber(schema: JsonSchema, random: Random, integer: boolean): number {
+  const multipleOf = typeof schema.multipleOf === 'number' && schema.multipleOf > 0 ? schema.multipleOf : integer ? 1 : undefined;
+
+  // exclusiveMinimum/Maximum are booleans in OpenAPI 3.0 and numbers in 3.1
+  let min = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+  let max = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+  const step = multipleOf ?? 0.01;
+  if (typeof schema.exclusiveMinimum === 'number') min = schema.exclusiveMinimum + step;
+  else if (schema.exclusiveMinimum === true && min !== undefined) min += step;
+  if (typeof schema.exclusiveMaximum === 'number') max = schema.exclusiveMaximum - step;
+  else if (schema.exclusiveMaximum === true && max !== undefined) max -= step;
+
+  if (min === undefined) min = max !== undefined ? Math.min(1, max) : 1;
+  if (max === undefined) max = min + 100;
+
+  if (multipleOf) {
+    const low = Math.ceil(min / multipleOf);
+    const high = Math.floor(max / multipleOf);
+    if (high < low) return low * multipleOf;
+    const value = (low + Math.floor(random() * (high - low + 1))) * multipleOf;
+    return integer ? Math.round(value) : Number(value.toFixed(10));
+  }
+  return Number((min + random() * (max - min)).toFixed(2));
+}
+
+function generateString(schema: JsonSchema, random: Random, name: string): string {
+  const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+  const maxLength = typeof schema.maxLength === 'number' ? schema.maxLength : undefined;
+
+  if (typeof schema.pattern === 'string') {
+    const fromPattern = generateFromPattern(schema.pattern, random, minLength, maxLength);
+    if (fromPattern !== undefined) return fromPattern;
+  }
+
+  const formatted = generateFormatted(schema.format as string | undefined, random);
+  if (formatted !== undefined) return formatted;
+
+  let value = `${TEST_PREFIX}${name}_${randomChars(random, 4)}`;
+  if (maxLength !== undefined && value.length > maxLength) {
+    value = maxLength >= TEST_PREFIX.length + 1
+      ? value.substring(0, maxLength)
+      : randomChars(random, Math.max(maxLength, minLength));
+  }
+  if (value.length < minLength) {
+    value += randomChars(random, minLength - value.length);
+  }
+  return value;
+}
+
+function generateFormatted(format: string | undefined, random: Random): string | undefined {
+  const day = Math.floor(random() * 365);
+  const date = new Date(BASE_DATE + day * 86400000 + Math.floor(random() * 86400) * 1000);
+
+  switch (format) {
+    case 'date-time':
+      return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    case 'date':
+      return date.toISOString().substring(0, 10);
+    case 'time':
+      return date.toISOString().substring(11, 19);
+    case 'uuid': {
+      const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16)).join('');
+      return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-4${hex.substring(13, 16)}-a${hex.substring(17, 20)}-${hex.substring(20)}`;
+    }
+    case 'email':
+      return `test.${randomChars(random, 6)}@example.com`;
+    case 'uri':
+    case 'url':
+      return `https://example.com/${TEST_PREFIX}${randomChars(random, 6)}`;
+    case 'hostname':
+      return `test-${randomChars(random, 6)}.example.com`;
+    case 'ipv4':
+      return `192.0.2.${1 + Math.floor(random() * 254)}`;
+    case 'ipv6':
+      return `2001:db8::${Math.floor(random() * 65535).toString(16)}`;
+    case 'byte':
+      return btoa(`${TEST_PREFIX}${randomChars(random, 6)}`);
+    case 'password':
+      return `${TEST_PREFIX}Pw1!${randomChars(random, 8)}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generate a string for a regex pattern. Supports literals, escapes (\d \w \s),
+ * character classes, groups with alternation, and the ? * + {n,m} quantifiers.
+ * @returns undefined when the pattern uses unsupported syntax or no match fits the length limits
+ */
+function generateFromPattern(pattern: string, random: Random, minLength: number, maxLength?: number): string | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    let candidate: string;
+    try {
+      candidate = new PatternGenerator(pattern, random).generate();
+    } catch {
+      return undefined;
+    }
+    const fitsLength = candidate.length >= minLength && (maxLength === undefined || candidate.length <= maxLength);
+    if (fitsLength && regex.test(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+class PatternGenerator {
+  private position = 0;
+
+  constructor(private readonly pattern: string, private readonly random: Random) {}
+
+  generate(): string {
+    const result = this.alternation();
+    if (this.position < this.pattern.length) {
+      throw new Error(`Unsupported pattern: ${this.pattern}`);
+    }
+    return result;
+  }
+
+  private alternation(): string {
+    const branches: string[] = [this.sequence()];
+    while (this.pattern[this.position] === '|') {
+      this.position++;
+      branches.push(this.sequence());
+    }
+    return branches[Math.floor(this.random() * branches.length)];
+  }
+
+  private sequence(): string {
+    let result = '';
+    while (this.position < this.pattern.length && !['|', ')'].includes(this.pattern[this.position])) {
+      const char = this.pattern[this.position];
+      if (char === '^' || char === '$') {
+        this.position++;
+        continue;
+      }
+      const atom = this.atom();
+      const [min, max] = this.quantifier();
+      const count = min + Math.floor(this.random() * (max - min + 1));
+      for (let i = 0; i < count; i++) {
+        result += atom();
+      }
+    }
+    return result;
+  }
+
+  /** Returns a function so each repetition can produce a different character */
+  private atom(): () => string {
+    const char = this.pattern[this.position++];
+
+    if (char === '(') {
+      if (this.pattern.startsWith('?:', this.position)) this.position += 2;
+      const start = this.position;
+      this.alternation();
+      const end = this.position;
+      if (this.pattern[this.position++] !== ')') throw new Error('Unclosed group');
+      const group = this.pattern.substring(start, end);
+      return () => new PatternGenerator(group, this.random).generate();
+    }
+    if (char === '[') {
+      const choices = this.characterClass();
+      return () => choices[Math.floor(this.random() * choices.length)];
+    }
+    if (char === '\\') {
+      const choices = this.escape(this.pattern[this.position++]);
+      return () => choices[Math.floor(this.random() * choices.length)];
+    }
+    if (char === '.') {
+      return () => ALPHANUMERIC[Math.floor(this.random() * ALPHANUMERIC.length)];
+    }
+    if ('*+?{'.includes(char)) {
+      throw new Error(`Unexpected quantifier in pattern: ${this.pattern}`);
+    }
+    return () => char;
+  }
+
+  private quantifier(): [number, number] {
+    const char = this.pattern[this.position];
+    let range: [number, number] = [1, 1];
+
+    if (char === '?') range = [0, 1];
+    else if (char === '*') range = [0, 3];
+    else if (char === '+') range = [1, 4];
+    else if (char === '{') {
+      const match = this.pattern.substring(this.position).match(/^\{(\d+)(,(\d*))?\}/);
+      if (!match) throw new Error(`Unsupported quantifier in pattern: ${this.pattern}`);
+      const min = parseInt(match[1], 10);
+      const max = match[2] ? (match[3] ? parseInt(match[3], 10) : min + 3) : min;
+      this.position += match[0].length;
+      return [min, max];
+    } else {
+      return range;
+    }
+
+    this.position++;
+    // Lazy quantifier suffix
+    if (this.pattern[this.position] === '?') this.position++;
+    return range;
+  }
+
+  private characterClass(): string[] {
+    const negated = this.pattern[this.position] === '^';
+    if (negated) this.position++;
+
+    const chars: string[] = [];
+    while (this.position < this.pattern.length && this.pattern[this.position] !== ']') {
+      const char = this.pattern[this.position++];
+      if (char === '\\') {
+        chars.push(...this.escape(this.pattern[this.position++]));
+        continue;
+      }
+      if (this.pattern[this.position] === '-' && this.pattern[this.position + 1] && this.pattern[this.position + 1] !== ']') {
+        const end = this.pattern[this.position + 1];
+        this.position += 2;
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.push(String.fromCharCode(code));
+        }
+        continue;
+      }
+      chars.push(char);
+    }
+    if (this.pattern[this.position++] !== ']') throw new Error('Unclosed character class');
+
+    if (negated) {
+      const allowed = ALPHANUMERIC.split('').filter(c => !chars.includes(c));
+      if (allowed.length === 0) throw new Error('Unsupported negated character class');
+      return allowed;
+    }
+    return chars;
+  }
+
+  private escape(char: string): string[] {
+    switch (char) {
+      case 'd': return '0123456789'.split('');
+      case 'w': return (ALPHANUMERIC + '_').split('');
+      case 's': return [' '];
+      case 'D': case 'W': case 'S': case 'b': case 'B':
+        throw new Error(`Unsupported escape \\${char}`);
+      default: return [char];
+    }
+  }
+}
+
+function minimalValue(schema: JsonSchema): unknown {
+  switch (inferType(schema)) {
+    case 'object': return {};
+    case 'array': return [];
+    case 'integer': case 'number': return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean': return false;
+    case 'null': return null;
+    default: return TEST_PREFIX;
+  }
+}
+
+/**
+ * Merge allOf parts into one schema (properties and required are combined)
+ */
+function mergeAllOf(schema: JsonSchema): JsonSchema {
+  if (!Array.isArray(schema.allOf)) {
+    return schema;
+  }
+
+  const { allOf, ...rest } = schema;
+  const merged: JsonSchema = { ...rest };
+  for (const part of (allOf as JsonSchema[]).map(mergeAllOf)) {
+    for (const [key, value] of Object.entries(part)) {
+      if (key === 'properties') {
+        merged.properties = { ...(merged.properties as object || {}), ...(value as object) };
+      } else if (key === 'required') {
+        merged.required = Array.from(new Set([...(merged.required as string[] || []), ...(value as string[])]));
+      } else if (merged[key] === undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Seeded PRNG (mulberry32); string seeds are hashed with FNV-1a
+ */
+export function createRandom(seed: number | string): Random {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function randomChars(random: Random, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += ALPHANUMERIC[Math.floor(random() * ALPHANUMERIC.length)];
+  }
+  return result;
+}
+
+function containsValue(items: unknown[], value: unknown): boolean {
+  const serialized = JSON.stringify(value);
+  return items.some(item => JSON.stringify(item) === serialized);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -1,13 +1,271 @@
 import { Difference } from '@/types';
 
-export function deepCompare(obj1: unknown, obj2: unknown): Difference[] {
+/** Fields stripped before comparing, at any depth (`compare.metaFields` in gate.config replaces the list) */
+export const DEFAULT_META_FIELDS = ['id', '_id', 'createdAt', 'updatedAt', 'created_at', 'updated_at', 'timestamp'];
+
+/** Value masks that can be enabled by name, e.g. `masks: { guid: true }` */
+export const BUILT_IN_MASKS: Record<string, string> = {
+  guid: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$',
+  timestamp: '^\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?$',
+};
+
+/**
+ * How array elements are paired up:
+ * - ordered:     by index (default)
+ * - unordered:   as a multiset - each expected element matches any equal actual element
+ * - key:<field>: by an identity field, e.g. "key:system"; diffs are reported per key, like items[system=a]
+ */
+export type ArrayStrategy = 'ordered' | 'unordered' | `key:${string}`;
+
+/**
+ * What a comparison looks at:
+ * - value: field values (deepCompare)
+ * - shape: field names, types, nullability and array element shapes only (diffShapes),
+ *          e.g. to compare responses from environments that hold different data
+ */
+export type CompareMode = 'value' | 'shape';
+
+/**
+ * Structure of a JSON value; array elements are merged into one `items` shape
+ */
+export interface Shape {
+  /** JSON types seen at this path, sorted, e.g. ["string"] or ["null", "string"] */
+  types: string[];
+  /** Field shapes (objects) */
+  fields?: Record<string, Shape>;
+  /** Element shape (non-empty arrays) */
+  items?: Shape;
+}
+
+/**
+ * Rules that suppress differences. Paths are JSONPath-like patterns:
+ * `$.items[*].lastRun`, `$..runId` (any depth), `$.meta.*`; a pattern without
+ * `$` matches at any depth (`lastRun` = `$..lastRun`). A pattern also covers
+ * everything below the path it matches.
+ */
+export interface CompareRuleSet {
+  /** Paths whose differences are ignored */
+  ignore?: string[];
+  /** Paths compared by type only: a changed value passes, a changed type does not */
+  typeOnly?: string[];
+  /** Value masks by name: string values that both match the regex are equal (`true` = built-in mask) */
+  masks?: Record<string, string | true>;
+  /** Array strategy per array path, e.g. `{ "$.items": "key:system", "**": "unordered" }` (exact match, first wins) */
+  arrays?: Record<string, ArrayStrategy>;
+  /** Compare values or only the shape (default: value; an endpoint's mode wins over the global one) */
+  mode?: CompareMode;
+}
+
+/**
+ * The comparator's rule set, as configured under `compare` in gate.config
+ */
+export interface CompareRules extends CompareRuleSet {
+  /** Fields stripped before comparing (default: DEFAULT_META_FIELDS) */
+  metaFields?: string[];
+  /** Additional rules per endpoint ("METHOD /path"), applied on top of the global ones */
+  endpoints?: Record<string, CompareRuleSet>;
+}
+
+/**
+ * Rules compiled for one endpoint (see resolveCompareRules)
+ */
+export interface ResolvedCompareRules {
+  mode: CompareMode;
+  metaFields: string[];
+  ignore: PathRule[];
+  typeOnly: PathRule[];
+  masks: Array<{ label: string; regex: RegExp }>;
+  /** Endpoint strategies first, so they take precedence */
+  arrays: Array<PathRule & { strategy: ArrayStrategy }>;
+}
+
+interface PathRule {
+  /** Reported in `suppressedBy`, e.g. "ignore $.items[*].lastRun" */
+  label: string;
+  tokens: PatternToken[];
+}
+
+type PatternToken =
+  | { kind: 'key'; regex: RegExp }
+  | { kind: 'index'; index: number }
+  | { kind: 'element'; id: string }
+  | { kind: 'any' }
+  | { kind: 'descend' };
+
+/**
+ * Compile the global rules plus the overrides of an endpoint
+ * @param endpoint - "METHOD /path" of the compared response
+ * @throws On an invalid path pattern or mask
+ */
+export function resolveCompareRules(rules: CompareRules = {}, endpoint?: string): ResolvedCompareRules {
+  const override = endpoint ? rules.endpoints?.[endpoint] : undefined;
+  const suffix = ` (${endpoint})`;
+  const pathRules = (kind: 'ignore' | 'typeOnly', patterns: string[] = [], labelSuffix = '') =>
+    patterns.map(pattern => ({ label: `${kind} ${pattern}${labelSuffix}`, tokens: parsePathPattern(pattern) }));
+  const masks = (set: CompareRuleSet['masks'] = {}, labelSuffix = '') =>
+    Object.entries(set).map(([name, pattern]) => ({ label: `mask ${name}${labelSuffix}`, regex: compileMask(name, pattern) }));
+  const arrays = (set: CompareRuleSet['arrays'] = {}, labelSuffix = '') =>
+    Object.entries(set).map(([pattern, strategy]) => ({
+      label: `arrays ${pattern}${labelSuffix}`,
+      tokens: parsePathPattern(pattern),
+      strategy: validateArrayStrategy(strategy),
+    }));
+
+  const mode = override?.mode || rules.mode || 'value';
+  if (mode !== 'value' && mode !== 'shape') {
+    throw new Error(`Invalid compare mode "${mode}" (expected value or shape)`);
+  }
+
+  return {
+    mode,
+    metaFields: rules.metaFields || DEFAULT_META_FIELDS,
+    ignore: [...pathRules('ignore', rules.ignore), ...pathRules('ignore', override?.ignore, suffix)],
+    typeOnly: [...pathRules('typeOnly', rules.typeOnly), ...pathRules('typeOnly', override?.typeOnly, suffix)],
+    masks: [...masks(rules.masks), ...masks(override?.masks, suffix)],
+    arrays: [...arrays(override?.arrays, suffix), ...arrays(rules.arrays)],
+  };
+}
+
+/**
+ * Differences that fail a comparison (not suppressed by a rule)
+ */
+export function failingDifferences(differences: Difference[]): Difference[] {
+  return differences.filter(difference => !difference.suppressedBy);
+}
+
+/**
+ * Compare an expected and an actual response in the rules' mode (values or shape)
+ */
+export function compareResponses(expected: unknown, actual: unknown, rules: ResolvedCompareRules): Difference[] {
+  return rules.mode === 'shape'
+    ? diffShapes(extractShape(expected), extractShape(actual), rules)
+    : deepCompare(expected, actual, rules);
+}
+
+/**
+ * Extract the shape of a JSON value
+ */
+export function extractShape(value: unknown): Shape {
+  if (Array.isArray(value)) {
+    const items = value.map(extractShape).reduce<Shape | undefined>((merged, shape) => (merged ? mergeShapes(merged, shape) : shape), undefined);
+    return items ? { types: ['array'], items } : { types: ['array'] };
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const fields: Record<string, Shape> = {};
+    for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+      fields[key] = extractShape(field);
+    }
+    return { types: ['object'], fields };
+  }
+
+  return { types: [typeOf(value)] };
+}
+
+/**
+ * Compare two shapes: changed types (including nullability), added and removed
+ * fields, and element shapes of arrays that are non-empty on both sides.
+ * Paths use [*] for array elements, e.g. items[*].name
+ */
+export function diffShapes(expected: Shape, actual: Shape, rules?: ResolvedCompareRules): Difference[] {
   const differences: Difference[] = [];
 
-  function compare(a: unknown, b: unknown, path: string = '') {
+  function walk(e: Shape, a: Shape, path: string) {
+    if (e.types.join() !== a.types.join()) {
+      differences.push({
+        path: path || 'root',
+        expected: describeTypes(e.types),
+        actual: describeTypes(a.types),
+        type: 'type-changed',
+        message: describeTypeChange(e.types, a.types),
+      });
+    }
+
+    if (e.fields && a.fields) {
+      for (const key of new Set([...Object.keys(e.fields), ...Object.keys(a.fields)])) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (!(key in a.fields)) {
+          differences.push({ path: fieldPath, expected: describeTypes(e.fields[key].types), actual: undefined, type: 'field-removed' });
+        } else if (!(key in e.fields)) {
+          differences.push({ path: fieldPath, expected: undefined, actual: describeTypes(a.fields[key].types), type: 'field-added' });
+        } else {
+          walk(e.fields[key], a.fields[key], fieldPath);
+        }
+      }
+    }
+
+    if (e.items && a.items) {
+      walk(e.items, a.items, `${path}[*]`);
+    }
+  }
+
+  walk(expected, actual, '');
+  return rules ? differences.map(difference => suppress(difference, rules)) : differences;
+}
+
+function mergeShapes(a: Shape, b: Shape): Shape {
+  const merged: Shape = { types: Array.from(new Set([...a.types, ...b.types])).sort() };
+  if (a.fields || b.fields) {
+    const fields: Record<string, Shape> = { ...a.fields };
+    for (const [key, shape] of Object.entries(b.fields || {})) {
+      fields[key] = fields[key] ? mergeShapes(fields[key], shape) : shape;
+    }
+    merged.fields = fields;
+  }
+  if (a.items || b.items) {
+    merged.items = a.items && b.items ? mergeShapes(a.items, b.items) : a.items || b.items;
+  }
+  return merged;
+}
+
+function describeTypes(types: string[]): string {
+  return types.join(' | ');
+}
+
+function describeTypeChange(expected: string[], actual: string[]): string {
+  // A null where a value was seen (or the reverse) is a nullability change, not a type change
+  const nonNull = (types: string[]) => types.filter(type => type !== 'null');
+  const within = (types: string[], of: string[]) => types.every(type => of.includes(type));
+  if (!expected.includes('null') && actual.includes('null') && within(nonNull(actual), expected)) {
+    return 'Became nullable';
+  }
+  if (expected.includes('null') && !actual.includes('null') && within(actual, nonNull(expected)) && actual.length > 0) {
+    return 'No longer nullable';
+  }
+  return `Type changed from ${describeTypes(expected)} to ${describeTypes(actual)}`;
+}
+
+/**
+ * Compare two values
+ * With rules, differences matched by a rule are still returned, marked with `suppressedBy`.
+ */
+export function deepCompare(obj1: unknown, obj2: unknown, rules?: ResolvedCompareRules): Difference[] {
+  const differences: Difference[] = [];
+
+  function compare(a: unknown, b: unknown, path: string = '', out: Difference[] = differences) {
+    // Type-only paths: same type passes, whatever the value
+    const typeOnly = rules?.typeOnly.find(rule => matchesPathRule(rule, path));
+    if (typeOnly) {
+      const expectedType = typeOf(a);
+      const actualType = typeOf(b);
+      if (expectedType !== actualType) {
+        out.push({
+          path: path || 'root',
+          expected: a,
+          actual: b,
+          type: 'changed',
+          message: `Type changed from ${expectedType} to ${actualType}`,
+        });
+      } else if (deepCompare(a, b).length > 0) {
+        out.push({ path: path || 'root', expected: a, actual: b, type: 'changed', suppressedBy: typeOnly.label });
+      }
+      return;
+    }
+
     // Handle null/undefined
     if (a === null || a === undefined || b === null || b === undefined) {
       if (a !== b) {
-        differences.push({
+        out.push({
           path: path || 'root',
           expected: a,
           actual: b,
@@ -20,7 +278,7 @@ export function deepCompare(obj1: unknown, obj2: unknown): Difference[] {
     // Handle primitives
     if (typeof a !== 'object' || typeof b !== 'object') {
       if (a !== b) {
-        differences.push({
+        out.push({
           path: path || 'root',
           expected: a,
           actual: b,
@@ -32,8 +290,17 @@ export function deepCompare(obj1: unknown, obj2: unknown): Difference[] {
     
     // Handle arrays
     if (Array.isArray(a) && Array.isArray(b)) {
+      const strategy = rules?.arrays.find(rule => matchesPathRule(rule, path, true))?.strategy || 'ordered';
+      if (strategy === 'unordered') {
+        compareUnordered(a, b, path, out);
+        return;
+      }
+      if (strategy.startsWith('key:') && compareKeyed(a, b, path, strategy.slice(4), out)) {
+        return;
+      }
+
       if (a.length !== b.length) {
-        differences.push({
+        out.push({
           path: `${path}.length`,
           expected: a.length,
           actual: b.length,
@@ -43,7 +310,7 @@ export function deepCompare(obj1: unknown, obj2: unknown): Difference[] {
       
       const maxLength = Math.max(a.length, b.length);
       for (let i = 0; i < maxLength; i++) {
-        compare(a[i], b[i], `${path}[${i}]`);
+        compare(a[i], b[i], `${path}[${i}]`, out);
       }
       return;
     }
@@ -57,35 +324,89 @@ export function deepCompare(obj1: unknown, obj2: unknown): Difference[] {
       const newPath = path ? `${path}.${key}` : key;
 
       if (!(key in aObj)) {
-        differences.push({
+        out.push({
           path: newPath,
           expected: undefined,
           actual: bObj[key],
           type: 'added',
         });
       } else if (!(key in bObj)) {
-        differences.push({
+        out.push({
           path: newPath,
           expected: aObj[key],
           actual: undefined,
           type: 'removed',
         });
       } else {
-        compare(aObj[key], bObj[key], newPath);
+        compare(aObj[key], bObj[key], newPath, out);
+      }
+    }
+  }
+  
+  /**
+   * Multiset comparison: an expected element matches the first unmatched actual
+   * element it equals (differences suppressed by rules are allowed)
+   */
+  function compareUnordered(a: unknown[], b: unknown[], path: string, out: Difference[]) {
+    const unmatched = new Set(b.keys());
+
+    a.forEach((item, i) => {
+      for (const j of unmatched) {
+        const itemDifferences: Difference[] = [];
+        compare(item, b[j], `${path}[${i}]`, itemDifferences);
+        const marked = rules ? itemDifferences.map(difference => suppress(difference, rules)) : itemDifferences;
+        if (marked.every(difference => difference.suppressedBy)) {
+          out.push(...marked);
+          unmatched.delete(j);
+          return;
+        }
+      }
+      out.push({ path: `${path}[${i}]`, expected: item, actual: undefined, type: 'removed', message: `Expected element [${i}] has no equal element in the actual list` });
+    });
+
+    for (const j of unmatched) {
+      out.push({ path: `${path}[${j}]`, expected: undefined, actual: b[j], type: 'added', message: `Actual element [${j}] has no equal element in the expected list` });
+    }
+  }
+
+  /**
+   * Keyed comparison: elements are paired by the value of an identity field
+   * @returns false when an element lacks the field or a value repeats (then compared in order)
+   */
+  function compareKeyed(a: unknown[], b: unknown[], path: string, key: string, out: Difference[]): boolean {
+    const expected = indexByKey(a, key);
+    const actual = indexByKey(b, key);
+    if (!expected || !actual) {
+      return false;
+    }
+
+    for (const [id, item] of expected) {
+      const itemPath = `${path}[${key}=${id}]`;
+      if (actual.has(id)) {
+        compare(item, actual.get(id), itemPath, out);
+      } else {
+        out.push({ path: itemPath, expected: item, actual: undefined, type: 'removed', message: `Element ${key}=${id} was removed` });
       }
     }
+    for (const [id, item] of actual) {
+      if (!expected.has(id)) {
+        out.push({ path: `${path}[${key}=${id}]`, expected: undefined, actual: item, type: 'added', message: `Element ${key}=${id} was added` });
+      }
+    }
+    return true;
   }
   
   compare(obj1, obj2);
-  return differences;
+  return rules ? differences.map(difference => suppress(difference, rules)) : differences;
 }
 
-export function stripMetaFields(data: unknown, fieldsToIgnore: string[] = []): unknown {
-  const defaultFields = ['id', '_id', 'createdAt', 'updatedAt', 'created_at', 'updated_at', 'timestamp'];
-  const metaFields = [...defaultFields, ...fieldsToIgnore];
-  
+/**
+ * Remove meta fields (ids, timestamps) at every depth
+ * @param metaFields - Field names to remove (default: DEFAULT_META_FIELDS)
+ */
+export function stripMetaFields(data: unknown, metaFields: string[] = DEFAULT_META_FIELDS): unknown {
   if (Array.isArray(data)) {
-    return data.map(item => stripMetaFields(item, fieldsToIgnore));
+    return data.map(item => stripMetaFields(item, metaFields));
   }
   
   if (typeof data === 'object' && data !== null) {
@@ -95,7 +416,7 @@ export function stripMetaFields(data: unknown, fieldsToIgnore: string[] = []): u
     // Recursively clean nested objects
     Object.keys(cleaned).forEach(key => {
       if (typeof cleaned[key] === 'object') {
-        cleaned[key] = stripMetaFields(cleaned[key], fieldsToIgnore);
+        cleaned[key] = stripMetaFields(cleaned[key], metaFields);
       }
     });
 
@@ -104,3 +425,188 @@ export function stripMetaFields(data: unknown, fieldsToIgnore: string[] = []): u
   
   return data;
 }
+
+/**
+ * Keep only the fields of `data` that also exist in `shape` (recursively),
+ * e.g. to compare a sent request body with the object the API returns
+ */
+export function pickFields(data: unknown, shape: unknown): unknown {
+  if (Array.isArray(data) && Array.isArray(shape)) {
+    return data.map((item, index) => (index < shape.length ? pickFields(item, shape[index]) : item));
+  }
+
+  if (typeof data === 'object' && data !== null && typeof shape === 'object' && shape !== null && !Array.isArray(data)) {
+    const picked: Record<string, unknown> = {};
+    for (const key of Object.keys(shape as Record<string, unknown>)) {
+      if (key in (data as Record<string, unknown>)) {
+        picked[key] = pickFields((data as Record<string, unknown>)[key], (shape as Record<string, unknown>)[key]);
+      }
+    }
+    return picked;
+  }
+
+  return data;
+}
+
+/**
+ * Mark a difference with the first ignore rule or mask that covers it
+ */
+function suppress(difference: Difference, rules: ResolvedCompareRules): Difference {
+  if (difference.suppressedBy) {
+    return difference;
+  }
+
+  const ignore = rules.ignore.find(rule => matchesPathRule(rule, difference.path === 'root' ? '' : difference.path));
+  if (ignore) {
+    return { ...difference, suppressedBy: ignore.label };
+  }
+
+  const { expected, actual } = difference;
+  if (difference.type === 'changed' && typeof expected === 'string' && typeof actual === 'string') {
+    const mask = rules.masks.find(({ regex }) => regex.test(expected) && regex.test(actual));
+    if (mask) {
+      return { ...difference, suppressedBy: mask.label };
+    }
+  }
+
+  return difference;
+}
+
+function indexByKey(items: unknown[], key: string): Map<string, unknown> | undefined {
+  const index = new Map<string, unknown>();
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null || Array.isArray(item) || !(key in item)) {
+      return undefined;
+    }
+    const id = String((item as Record<string, unknown>)[key]);
+    if (index.has(id)) {
+      return undefined;
+    }
+    index.set(id, item);
+  }
+  return index;
+}
+
+function validateArrayStrategy(strategy: string): ArrayStrategy {
+  if (strategy === 'ordered' || strategy === 'unordered' || /^key:.+/.test(strategy)) {
+    return strategy as ArrayStrategy;
+  }
+  throw new Error(`Invalid array strategy "${strategy}" (expected ordered, unordered or key:<field>)`);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function compileMask(name: string, pattern: string | true): RegExp {
+  const source = pattern === true ? BUILT_IN_MASKS[name] : pattern;
+  if (source === undefined) {
+    throw new Error(`Unknown built-in mask "${name}" (available: ${Object.keys(BUILT_IN_MASKS).join(', ')})`);
+  }
+  try {
+    return new RegExp(source);
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new Error(`Invalid regex for mask "${name}": ${err.message}`);
+  }
+}
+
+/**
+ * Parse a path pattern such as "$.items[*].lastRun" into tokens
+ */
+function parsePathPattern(pattern: string): PatternToken[] {
+  const trimmed = pattern.trim();
+  let rest = trimmed.startsWith('$') ? trimmed.slice(1) : `..${trimmed}`;
+  const tokens: PatternToken[] = [];
+
+  while (rest.length > 0) {
+    if (rest.startsWith('..')) {
+      tokens.push({ kind: 'descend' });
+      rest = rest.slice(2);
+    } else if (rest.startsWith('.')) {
+      rest = rest.slice(1);
+    } else if (rest.startsWith('[')) {
+      const end = rest.indexOf(']');
+      if (end < 0) {
+        throw new Error(`Invalid path pattern "${pattern}": missing "]"`);
+      }
+      const inner = rest.slice(1, end).trim();
+      rest = rest.slice(end + 1);
+      if (inner === '*') {
+        tokens.push({ kind: 'any' });
+      } else if (/^\d+$/.test(inner)) {
+        tokens.push({ kind: 'index', index: Number(inner) });
+      } else if (/^[^'"].*=/.test(inner)) {
+        tokens.push({ kind: 'element', id: inner });
+      } else {
+        tokens.push(keyToken(inner.replace(/^(['"])(.*)\1$/, '$2')));
+      }
+    } else {
+      const key = /^[^.[]+/.exec(rest)?.[0] || '';
+      rest = rest.slice(key.length);
+      tokens.push(key === '**' ? { kind: 'descend' } : key === '*' ? { kind: 'any' } : keyToken(key));
+    }
+  }
+
+  // "$" alone is the root (e.g. a top-level list)
+  if (tokens.length === 0 && trimmed !== '$') {
+    throw new Error(`Invalid path pattern "${pattern}"`);
+  }
+  return tokens;
+}
+
+/**
+ * A key token; `*` inside a key is a glob (e.g. "last*")
+ */
+function keyToken(key: string): PatternToken {
+  const source = key.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return { kind: 'key', regex: new RegExp(`^${source}$`) };
+}
+
+/** A path segment: object key, array index, or keyed element ("system=a") */
+type PathSegment = { key: string } | { index: number } | { element: string };
+
+/**
+ * Whether a rule matches a difference path ("items[0].lastRun") or one of its ancestors
+ * @param exact - Match the whole path only (array strategies)
+ */
+function matchesPathRule(rule: PathRule, path: string, exact = false): boolean {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/\[([^\]]*)\]|([^.[\]]+)/g)) {
+    if (match[2] !== undefined) {
+      segments.push({ key: match[2] });
+    } else {
+      segments.push(/^\d+$/.test(match[1]) ? { index: Number(match[1]) } : { element: match[1] });
+    }
+  }
+  return matchesPath(rule.tokens, segments, 0, 0, exact);
+}
+
+function matchesPath(tokens: PatternToken[], segments: PathSegment[], tokenIndex: number, segmentIndex: number, exact: boolean): boolean {
+  if (tokenIndex === tokens.length) {
+    return !exact || segmentIndex === segments.length;
+  }
+
+  const token = tokens[tokenIndex];
+  if (token.kind === 'descend') {
+    for (let next = segmentIndex; next <= segments.length; next++) {
+      if (matchesPath(tokens, segments, tokenIndex + 1, next, exact)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (segmentIndex >= segments.length) {
+    return false;
+  }
+
+  const segment = segments[segmentIndex];
+  const matches = token.kind === 'any'
+    || (token.kind === 'index' && 'index' in segment && segment.index === token.index)
+    || (token.kind === 'element' && 'element' in segment && segment.element === token.id)
+    || (token.kind === 'key' && 'key' in segment && token.regex.test(segment.key));
+  return matches && matchesPath(tokens, segments, tokenIndex + 1, segmentIndex + 1, exact);
+}
@@ -1,13 +1,11 @@
 import { AuthConfig } from '@/types';
-import { createAxiosInstance } from './utils.js';
+import { getTokenProvider } from './auth.js';
 import {
   HIERARCHICAL_API_DEFINITIONS,
   extractResourceId,
   ParentApiDefinition
 } from './hierarchical-apis.js';
 
-const axios = createAxiosInstance();
-
 /**
  * Cache of real test data discovered from the API
  */
@@ -123,46 +121,20 @@ export async function discoverTestData(
     ingestAliases: []
   };
   
-  // Build auth headers
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   };
   
+  // The shared client adds the auth headers and retries once with a fresh token on 401
+  const tokenProvider = getTokenProvider(auth);
+  const http = tokenProvider.client;
+  
   // Handle OAuth2 authentication - fetch token first!
-  if (auth?.type === 'oauth2' && auth.username && auth.password && auth.tokenUrl) {
+  if (tokenProvider.usesOAuth2) {
     try {
       console.log('  🔐 Fetching OAuth2 token for discovery...');
-      const params = new URLSearchParams();
-      const grantType = process.env.GRANT_TYPE || 'password';
-      
-      params.append('grant_type', grantType);
-      
-      if (grantType === 'password') {
-        params.append('username', auth.username);
-        params.append('password', auth.password);
-      }
-
-      const tokenResponse = await axios.post(
-        auth.tokenUrl,
-        params.toString(),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        }
-      );
-
-      if (tokenResponse.status !== 200) {
-        throw new Error(`Failed to fetch access token: ${tokenResponse.status} ${tokenResponse.statusText}`);
-      }
-
-      const accessToken = tokenResponse.data?.access_token;
-      if (!accessToken) {
-        throw new Error('No access_token in response');
-      }
-
-      headers['Authorization'] = `Bearer ${accessToken}`;
+      await tokenProvider.getToken();
       console.log('    ✅ OAuth2 token obtained');
     } catch (error: unknown) {
       const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
@@ -171,10 +143,6 @@ export async function discoverTestData(
       console.error(`    ❌ OAuth2 authentication failed [${status}]: ${errorMsg}`);
       throw new Error(`OAuth2 authentication failed: ${errorMsg}`);
     }
-  } else if (auth?.type === 'bearer' && auth.token) {
-    headers['Authorization'] = `Bearer ${auth.token}`;
-  } else if (auth?.type === 'apikey' && auth.token) {
-    headers['X-API-Key'] = auth.token;
   }
 
   const config = { headers, timeout: 30000 };
@@ -183,7 +151,7 @@ export async function discoverTestData(
   const safeFetch = async (url: string, cacheName: string, idField: string = 'id', nameField: string = 'name') => {
     try {
       console.log(`  🔍 Fetching ${cacheName}...`);
-      const response = await axios.get(url, config);
+      const response = await http.get(url, config);
       const data = response.data;
       
       // DEBUG: Log raw response structure
@@ -323,7 +291,7 @@ export async function discoverTestData(
     const firstSourcefile = cache.sourcefiles[0];
     
     try {
-      const auditsResponse = await axios.get(
+      const auditsResponse = await http.get(
         `${baseUrl}/api/v2/sourcefiles/${firstSourcefile.id}/audits`,
         config
       );
@@ -406,7 +374,7 @@ export async function discoverTestData(
     let workingSystem: string | null = null;
     for (const system of cache.systems.slice(0, 5)) {
       try {
-        const connectionResponse = await axios.get(
+        const connectionResponse = await http.get(
           `${baseUrl}/api/v2/connection/for/${system.id}`,
           config
         );
@@ -443,7 +411,7 @@ export async function discoverTestData(
       
       for (const sourcefile of sourcefilesToCheck) {
         try {
-          const response = await axios.get(
+          const response = await http.get(
             `${baseUrl}/api/v2/sourcefiles/${sourcefile.id}`,
             config
           );
@@ -489,7 +457,7 @@ export async function discoverTestData(
     const firstModel = cache.modelObjects[0];
     
     try {
-      const attributesResponse = await axios.get(
+      const attributesResponse = await http.get(
         `${baseUrl}/api/v2/model/${firstModel.id || firstModel.name}/attributes`,
         config
       );
@@ -542,7 +510,7 @@ export async function discoverTestData(
     const firstSystem = cache.systems[0];
     
     try {
-      const exportsResponse = await axios.get(
+      const exportsResponse = await http.get(
         `${baseUrl}/api/v2/exportlist/for/${firstSystem.id}`,
         config
       );
@@ -588,7 +556,7 @@ export async function discoverTestData(
     const firstSystem = cache.systems[0];
     
     try {
-      const ingestsResponse = await axios.get(
+      const ingestsResponse = await http.get(
         `${baseUrl}/api/v3/ingest/list/for/${firstSystem.id}`,
         config
       );
@@ -663,46 +631,20 @@ export async function discoverHierarchicalTestData(
   
   const hierarchicalData: HierarchicalTestData[] = [];
   
-  // Build auth headers
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   };
   
-  // Handle OAuth2 authentication
-  if (auth?.type === 'oauth2' && auth.username && auth.password && auth.tokenUrl) {
+  // The shared client adds the auth headers and retries once with a fresh token on 401
+  const tokenProvider = getTokenProvider(auth);
+  const http = tokenProvider.client;
+  
+  // Handle OAuth2 authentication - fetch token first!
+  if (tokenProvider.usesOAuth2) {
     try {
       console.log('  🔐 Fetching OAuth2 token for hierarchical discovery...');
-      const params = new URLSearchParams();
-      const grantType = process.env.GRANT_TYPE || 'password';
-      
-      params.append('grant_type', grantType);
-      
-      if (grantType === 'password') {
-        params.append('username', auth.username);
-        params.append('password', auth.password);
-      }
-
-      const tokenResponse = await axios.post(
-        auth.tokenUrl,
-        params.toString(),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        }
-      );
-
-      if (tokenResponse.status !== 200) {
-        throw new Error(`Failed to fetch access token: ${tokenResponse.status} ${tokenResponse.statusText}`);
-      }
-
-      const accessToken = tokenResponse.data?.access_token;
-      if (!accessToken) {
-        throw new Error('No access_token in response');
-      }
-
-      headers['Authorization'] = `Bearer ${accessToken}`;
+      await tokenProvider.getToken();
       console.log('    ✅ OAuth2 token obtained');
     } catch (error: unknown) {
       const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
@@ -711,10 +653,6 @@ export async function discoverHierarchicalTestData(
       console.error(`    ❌ OAuth2 authentication failed [${status}]: ${errorMsg}`);
       throw new Error(`OAuth2 authentication failed: ${errorMsg}`);
     }
-  } else if (auth?.type === 'bearer' && auth.token) {
-    headers['Authorization'] = `Bearer ${auth.token}`;
-  } else if (auth?.type === 'apikey' && auth.token) {
-    headers['X-API-Key'] = auth.token;
   }
 
   const config = { headers, timeout: 30000 };
@@ -726,7 +664,7 @@ export async function discoverHierarchicalTestData(
       console.log(`  🔍 Fetching parent API: ${definition.parentPath}`);
       console.log(`     ${definition.description}`);
       
-      const response = await axios.get(parentUrl, config);
+      const response = await http.get(parentUrl, config);
       const data = response.data;
       
       // Handle different response formats
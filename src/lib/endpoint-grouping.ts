@@ -0,0 +1,108 @@
+/**
+ * Endpoint Grouping
+ *
+ * Strategies for grouping endpoints into resources (used by the CLI listings,
+ * the coverage report and the web UI):
+ * - prefix:             first path segment, or the first two for /api/... and /v1/... (default)
+ * - tag:                first OpenAPI tag ("untagged" when there is none)
+ * - operationId-prefix: operationId up to the first separator (_ . - : /), or its
+ *                       first camelCase word ("systems_list" → systems, "getSystems" → get)
+ * - depth=N:            first N path segments, stopping before the first path parameter
+ */
+
+import { Endpoint, EndpointGroup } from '@/types';
+
+export type GroupingStrategy =
+  | { kind: 'prefix' }
+  | { kind: 'tag' }
+  | { kind: 'operationId-prefix' }
+  | { kind: 'depth'; depth: number };
+
+/** Accepted --group-by values (for help texts and UI selects) */
+export const GROUP_BY_OPTIONS = ['prefix', 'tag', 'operationId-prefix', 'depth=N'];
+
+const METHOD_ORDER: Record<string, number> = { GET: 1, POST: 2, PUT: 3, PATCH: 4, DELETE: 5 };
+
+/**
+ * Parse a --group-by value
+ * @throws Error for unknown strategies
+ */
+export function parseGroupBy(value: string = 'prefix'): GroupingStrategy {
+  const normalized = value.trim();
+
+  if (normalized === 'prefix' || normalized === 'tag' || normalized === 'operationId-prefix') {
+    return { kind: normalized };
+  }
+
+  const depthMatch = normalized.match(/^depth=(\d+)$/);
+  if (depthMatch && parseInt(depthMatch[1], 10) > 0) {
+    return { kind: 'depth', depth: parseInt(depthMatch[1], 10) };
+  }
+
+  throw new Error(`Invalid group-by "${value}" (expected ${GROUP_BY_OPTIONS.join(', ')})`);
+}
+
+/**
+ * Get the group an endpoint belongs to
+ */
+export function getGroupKey(endpoint: Endpoint, strategy: GroupingStrategy): string {
+  const pathParts = endpoint.path.split('/').filter(Boolean);
+
+  switch (strategy.kind) {
+    case 'tag':
+      return endpoint.tags?.[0] || 'untagged';
+
+    case 'operationId-prefix': {
+      const operationId = endpoint.operationId;
+      if (!operationId) return 'no-operationId';
+      const separated = operationId.split(/[_.\-:/]/)[0];
+      if (separated && separated !== operationId) return separated;
+      return operationId.match(/^[a-z0-9]+|^[A-Z][a-z0-9]*/)?.[0] || operationId;
+    }
+
+    case 'depth': {
+      const parts: string[] = [];
+      for (const part of pathParts) {
+        if (parts.length >= strategy.depth || part.includes('{')) break;
+        parts.push(part);
+      }
+      return '/' + (parts.join('/') || 'root');
+    }
+
+    case 'prefix':
+    default: {
+      // Extract resource: /api/users/{id} → /api/users, /pet/findByStatus → /pet
+      let resource = '/' + (pathParts[0] || 'root');
+
+      // Handle paths like /api/v1/users
+      if (pathParts[0]?.match(/^(api|v\d+)$/i) && pathParts.length > 1) {
+        resource = '/' + pathParts.slice(0, 2).join('/');
+      }
+      return resource;
+    }
+  }
+}
+
+/**
+ * Group endpoints by a strategy
+ * Groups are sorted by name, endpoints within a group by method (GET, POST, PUT, PATCH, DELETE).
+ */
+export function groupEndpoints(endpoints: Endpoint[], groupBy: string | GroupingStrategy = 'prefix'): EndpointGroup[] {
+  const strategy = typeof groupBy === 'string' ? parseGroupBy(groupBy) : groupBy;
+  const grouped = new Map<string, Endpoint[]>();
+
+  endpoints.forEach(endpoint => {
+    const resource = getGroupKey(endpoint, strategy);
+    if (!grouped.has(resource)) {
+      grouped.set(resource, []);
+    }
+    grouped.get(resource)!.push(endpoint);
+  });
+
+  return Array.from(grouped.entries())
+    .map(([resource, groupEndpoints]) => ({
+      resource,
+      endpoints: groupEndpoints.sort((a, b) => (METHOD_ORDER[a.method] || 99) - (METHOD_ORDER[b.method] || 99)),
+    }))
+    .sort((a, b) => a.resource.localeCompare(b.resource));
+}
@@ -7,13 +7,35 @@ export function generateYAMLConfig(
   endpointGroups: EndpointGroup[]
 ): string {
   
-  const authSection = auth?.type === 'oauth2'
-    ? `    type: "oauth2"
-    token_url: "${auth.tokenUrl || ''}"
-    username: "***"  # Credentials redacted for security
-    password: "***"  # Credentials redacted for security`
-    : `    type: "${auth?.type || 'none'}"
-    ${auth?.token ? 'token: "***"  # Token redacted for security' : '# No token required'}`;
+  const authLines = [`type: "${auth?.type || 'none'}"`];
+  if (auth?.type === 'oauth2') {
+    authLines.push(`token_url: "${auth.tokenUrl || ''}"`);
+    authLines.push(`grant_type: "${auth.grantType || 'password'}"`);
+    if (auth.grantType === 'client_credentials') {
+      authLines.push('client_id: "***"  # Credentials redacted for security');
+      authLines.push('client_secret: "***"  # Credentials redacted for security');
+    } else {
+      authLines.push('username: "***"  # Credentials redacted for security');
+      authLines.push('password: "***"  # Credentials redacted for security');
+    }
+    if (auth.scope) authLines.push(`scope: "${auth.scope}"`);
+    if (auth.audience) authLines.push(`audience: "${auth.audience}"`);
+  } else if (auth?.type === 'basic') {
+    authLines.push('username: "***"  # Credentials redacted for security');
+    authLines.push('password: "***"  # Credentials redacted for security');
+  } else {
+    authLines.push(auth?.token ? 'token: "***"  # Token redacted for security' : '# No token required');
+    if (auth?.type === 'apikey') {
+      authLines.push(`api_key_in: "${auth.apiKeyIn || 'header'}"`);
+      authLines.push(`api_key_name: "${auth.apiKeyName || 'X-API-Key'}"`);
+    }
+  }
+  if (auth?.clientCert) {
+    authLines.push(`client_cert: "${auth.clientCert}"`);
+    authLines.push(`client_key: "${auth.clientKey || ''}"`);
+    if (auth.caCert) authLines.push(`ca_cert: "${auth.caCert}"`);
+  }
+  const authSection = authLines.map(line => `    ${line}`).join('\n');
 
   const yaml = `# API Regression Test Configuration
 # Generated: ${new Date().toISOString()}
@@ -0,0 +1,292 @@
+/**
+ * HAR Recording
+ *
+ * Captures the HTTP exchanges of a run (spec loading, token requests, data
+ * discovery, the test runners) as HAR 1.2 entries, so a failed run can be
+ * debugged from the full requests and responses instead of the one-line error.
+ *
+ * Clients are instrumented once with instrumentClient(); they record into the
+ * recorder set with setHarRecorder(), answer from the replay set with
+ * setHarReplay() (see replay.ts), and do nothing while neither is set.
+ * Credentials are redacted before an entry is stored: Authorization, Cookie and
+ * API key headers, and password / secret / token fields in query strings and
+ * JSON or form-encoded bodies.
+ */
+
+import { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { HarReplay } from './replay.js';
+
+export const REDACTED = '[REDACTED]';
+
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie)$|api[-_]?key|token|secret/i;
+const SENSITIVE_FIELD = /pass(word|wd)|^pwd$|secret|^(access|refresh|id)_?token$|^token$|api[-_]?key/i;
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  /** 0 when no response was received (network error, timeout) */
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: { size: number; mimeType: string; text?: string };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  /** Total time of the exchange in milliseconds */
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  /** Axios only knows the total time: it is reported as wait, the phases it can't see as -1 */
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  /** Error message of a failed exchange */
+  comment?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+type RecordedConfig = InternalAxiosRequestConfig & { harStartedAt?: number };
+
+/**
+ * Collects the entries of one run
+ */
+export class HarRecorder {
+  readonly entries: HarEntry[] = [];
+
+  /**
+   * Store an answered or failed exchange
+   */
+  add(config: InternalAxiosRequestConfig, http: AxiosInstance, response?: AxiosResponse, error?: string): void {
+    const startedAt = (config as RecordedConfig).harStartedAt ?? Date.now();
+    const time = Date.now() - startedAt;
+    const url = redactUrl(http.getUri(config));
+    const requestBody = bodyText(config.data);
+    const requestMimeType = headerValue(config.headers, 'content-type') || 'application/json';
+    const responseBody = response ? bodyText(response.data) : undefined;
+    const responseMimeType = (response && headerValue(response.headers, 'content-type')) || '';
+
+    this.entries.push({
+      startedDateTime: new Date(startedAt).toISOString(),
+      time,
+      request: {
+        method: (config.method || 'get').toUpperCase(),
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: harHeaders(config.headers),
+        queryString: queryString(url),
+        ...(requestBody !== undefined ? { postData: { mimeType: requestMimeType, text: redactBody(requestBody, requestMimeType) } } : {}),
+        headersSize: -1,
+        bodySize: requestBody?.length ?? 0,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: response ? harHeaders(response.headers) : [],
+        content: {
+          size: responseBody?.length ?? 0,
+          mimeType: responseMimeType,
+          ...(responseBody !== undefined ? { text: redactBody(responseBody, responseMimeType) } : {}),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: responseBody?.length ?? -1,
+      },
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: time, receive: 0 },
+      ...(error ? { comment: error } : {}),
+    });
+  }
+
+  /**
+   * The recorded entries as a HAR 1.2 document, in the order the requests started
+   */
+  toHar(creator = { name: 'api-contract-guard', version: '1.0.0' }): HarLog {
+    const entries = [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+    return { log: { version: '1.2', creator, entries } };
+  }
+}
+
+let activeRecorder: HarRecorder | undefined;
+let activeReplay: HarReplay | undefined;
+const instrumented = new WeakSet<AxiosInstance>();
+
+/**
+ * Set the recorder the instrumented clients record into (undefined stops recording)
+ */
+export function setHarRecorder(recorder?: HarRecorder): void {
+  activeRecorder = recorder;
+}
+
+export function getHarRecorder(): HarRecorder | undefined {
+  return activeRecorder;
+}
+
+/**
+ * Set the replay the instrumented clients answer from instead of the network (undefined stops replaying)
+ */
+export function setHarReplay(replay?: HarReplay): void {
+  activeReplay = replay;
+}
+
+/**
+ * Whether a query parameter or body field holds a credential (redacted when recorded, ignored when replayed)
+ */
+export function isSensitiveField(name: string): boolean {
+  return SENSITIVE_FIELD.test(name);
+}
+
+/**
+ * Instrument a client to record its exchanges while a recorder is set, and to
+ * answer from the recording while a replay is set.
+ * Instrument a client before adding its own request interceptors: axios runs
+ * request interceptors last-added first, so the exchange is timed (and its
+ * headers captured) as it is sent. Instrumenting a client twice is a no-op.
+ */
+export function instrumentClient(http: AxiosInstance): AxiosInstance {
+  if (instrumented.has(http)) {
+    return http;
+  }
+  instrumented.add(http);
+
+  http.interceptors.request.use((config) => {
+    if (activeReplay) {
+      config.adapter = activeReplay.adapter;
+    }
+    if (activeRecorder) {
+      (config as RecordedConfig).harStartedAt = Date.now();
+    }
+    return config;
+  });
+
+  http.interceptors.response.use(
+    (response) => {
+      activeRecorder?.add(response.config, http, response);
+      return response;
+    },
+    (error: AxiosError) => {
+      if (activeRecorder && error.config) {
+        activeRecorder.add(error.config, http, error.response, error.message);
+      }
+      throw error;
+    }
+  );
+
+  return http;
+}
+
+function harHeaders(headers: unknown): HarNameValue[] {
+  const plain = AxiosHeaders.from(headers as AxiosHeaders).toJSON();
+  return Object.entries(plain)
+    .filter(([, value]) => value !== undefined && value !== null && value !== false)
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map(v => ({
+      name,
+      value: SENSITIVE_HEADER.test(name) ? REDACTED : String(v),
+    })));
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+  const value = AxiosHeaders.from(headers as AxiosHeaders).get(name);
+  return value === undefined || value === null || value === false ? undefined : String(value);
+}
+
+function bodyText(data: unknown): string | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+  if (typeof data === 'string') return data;
+  if (data instanceof URLSearchParams) return data.toString();
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return String(data);
+  }
+}
+
+function redactUrl(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return url;
+  }
+  const sensitive = [...new Set(parsed.searchParams.keys())].filter(name => SENSITIVE_FIELD.test(name));
+  if (sensitive.length === 0) {
+    return url;
+  }
+  for (const name of sensitive) {
+    parsed.searchParams.set(name, REDACTED);
+  }
+  return parsed.toString();
+}
+
+function queryString(url: string): HarNameValue[] {
+  return [...(parseUrl(url)?.searchParams ?? [])].map(([name, value]) => ({ name, value }));
+}
+
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Redact the sensitive fields of a JSON or form-encoded body (other bodies are kept as they are)
+ */
+function redactBody(text: string, mimeType: string): string {
+  if (mimeType.includes('application/x-www-form-urlencoded')) {
+    const params = new URLSearchParams(text);
+    for (const name of [...new Set(params.keys())]) {
+      if (SENSITIVE_FIELD.test(name)) {
+        params.set(name, REDACTED);
+      }
+    }
+    return params.toString();
+  }
+
+  try {
+    return JSON.stringify(redactValue(JSON.parse(text)));
+  } catch {
+    return text;
+  }
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, field]) => [
+      key,
+      SENSITIVE_FIELD.test(key) && field !== null && typeof field !== 'object' ? REDACTED : redactValue(field),
+    ]));
+  }
+  return value;
+}
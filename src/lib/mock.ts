@@ -0,0 +1,465 @@
+/**
+ * Mock API
+ *
+ * Answers requests for the operations of a parsed spec, as a local stand-in for
+ * the real API (demos, CI without the VM, self-tests of the regression checks).
+ *
+ * Responses come from the documented success response: its example, or data
+ * generated from its schema (see body-generator). Paths with an ID parameter
+ * are resources with in-memory state per collection, e.g. /systems/1/connections:
+ * - GET on the collection lists its items, GET on an item returns it (or 404)
+ * - POST creates an item (with the ID of the body, the path, or a new one)
+ * - PUT replaces (or creates) an item, PATCH merges into it, DELETE removes it
+ * Collections start with the items of the list example, or generated items with
+ * IDs "1", "2", ... so the placeholder ID of the test runner finds a resource.
+ *
+ * Faults can be injected to check that the regression checks catch breakages:
+ * latency, 500 responses and dropped fields. They are picked from the seed, so
+ * the same requests get the same faults on every run.
+ *
+ * The module is transport-agnostic: mock-server.ts serves it over HTTP.
+ */
+
+import { Endpoint, JsonSchema } from '@/types';
+import { createRandom, generateBody, omitWriteOnly, Random } from './body-generator.js';
+import { getRequestSchema, getResponseSchema } from './swagger.js';
+import { findDocumentedStatus } from './status-check.js';
+
+export interface MockFaults {
+  /** Delay of every response in milliseconds */
+  latency?: number;
+  /** Share of requests (0-1) answered with 500 */
+  errorRate?: number;
+  /** Share of responses (0-1) with one field removed from each returned object */
+  dropRate?: number;
+}
+
+export interface MockOptions {
+  /** Seed for generated data and fault picks (default: 1) */
+  seed?: number;
+  /** Items a collection without a list example starts with (default: 3) */
+  items?: number;
+  faults?: MockFaults;
+}
+
+export interface MockRequest {
+  method: string;
+  /** Path below the API base path, e.g. /api/v2/systems/1 */
+  path: string;
+  body?: unknown;
+  /** The body is not valid JSON: answered 400 once the operation is found (after 404 / 405) */
+  invalidJson?: boolean;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers: Record<string, string>;
+  /** Milliseconds to wait before sending the response */
+  delay: number;
+}
+
+interface Route {
+  template: string;
+  pattern: RegExp;
+  params: string[];
+  operations: Map<string, Endpoint>;
+  /** Literal segments - routes with more of them win, e.g. /systems/active over /systems/{id} */
+  literals: number;
+}
+
+interface Collection {
+  idField: string;
+  items: Map<string, Record<string, unknown>>;
+  nextId: number;
+}
+
+const SUCCESS_STATUSES: Record<string, number[]> = {
+  GET: [200],
+  POST: [201, 200, 202],
+  PUT: [200, 201, 204],
+  PATCH: [200, 204],
+  DELETE: [204, 200, 202],
+};
+
+const ID_FIELDS = ['id', '_id', 'uuid', 'key', 'name'];
+
+export class MockApi {
+  private routes: Route[];
+  private collections = new Map<string, Collection>();
+  private random: Random;
+  private readonly seed: number;
+  private readonly itemCount: number;
+  private readonly faults: MockFaults;
+
+  constructor(endpoints: Endpoint[], options: MockOptions = {}) {
+    this.seed = options.seed ?? 1;
+    this.itemCount = options.items ?? 3;
+    this.faults = options.faults ?? {};
+    this.random = createRandom(`${this.seed}:faults`);
+    this.routes = buildRoutes(endpoints);
+  }
+
+  /** "METHOD /path" of every operation served */
+  get operations(): string[] {
+    return this.routes.flatMap(route => [...route.operations.keys()].map(method => `${method} ${route.template}`));
+  }
+
+  handle(request: MockRequest): MockResponse {
+    const method = request.method.toUpperCase();
+    const path = request.path.length > 1 ? request.path.replace(/\/$/, '') : request.path;
+    const match = this.match(path);
+    if (!match) {
+      return this.respond(404, { message: `No operation for ${method} ${path}` });
+    }
+
+    const { route, params } = match;
+    const endpoint = route.operations.get(method);
+    if (!endpoint) {
+      return this.respond(405, { message: `${method} is not documented for ${route.template}` }, { Allow: [...route.operations.keys()].join(', ') });
+    }
+
+    if (request.invalidJson) {
+      return this.respond(400, { message: 'Invalid JSON body' });
+    }
+
+    if (this.faults.errorRate && this.random() < this.faults.errorRate) {
+      return this.respond(500, { message: 'Injected fault' }, { 'X-Mock-Fault': 'error' });
+    }
+
+    // Responses are copies: faults and callers must not change the stored items
+    const response = this.answer(route, endpoint, path, params, request.body);
+    response.body = response.body === undefined ? undefined : structuredClone(response.body);
+
+    if (response.status < 400 && this.faults.dropRate && this.random() < this.faults.dropRate) {
+      const isList = method === 'GET' && !route.template.endsWith('}') && this.isCollection(route);
+      const objects = isList ? listItemsOf(response.body) ?? [] : [response.body];
+      // Identifiers stay, so the breakage is a missing field and not a resource that can't be found
+      const keep = [...ID_FIELDS, ...route.params, ...(this.itemRoute(route.template)?.params ?? [])];
+      const dropped = dropField(objects.filter(isPlainObject), keep, this.random);
+      if (dropped) {
+        response.headers['X-Mock-Fault'] = `dropped ${dropped}`;
+      }
+    }
+    return response;
+  }
+
+  private answer(route: Route, endpoint: Endpoint, path: string, params: Record<string, string>, body: unknown): MockResponse {
+    const idParam = route.template.match(/\{([^}]+)\}$/)?.[1];
+    if (idParam) {
+      const collectionPath = path.replace(/\/[^/]+\/?$/, '');
+      return this.answerItem(route, endpoint, collectionPath, params[idParam], body);
+    }
+    if (this.isCollection(route)) {
+      return this.answerCollection(route, endpoint, path, body);
+    }
+    return this.respondDocumented(endpoint, this.exampleOrGenerated(endpoint, successStatus(endpoint)));
+  }
+
+  private answerCollection(route: Route, endpoint: Endpoint, path: string, body: unknown): MockResponse {
+    const collection = this.collection(route.template, path);
+
+    if (endpoint.method === 'GET') {
+      const items = [...collection.items.values()].map(item => this.present(route.template, item));
+      return this.respondDocumented(endpoint, shapeList(endpoint, items, this.seed));
+    }
+    if (endpoint.method === 'POST') {
+      if (!isPlainObject(body)) {
+        return this.respond(400, { message: 'Expected a JSON object body' });
+      }
+      const id = body[collection.idField] !== undefined ? String(body[collection.idField]) : undefined;
+      return this.respondDocumented(endpoint, this.present(route.template, this.store(route.template, collection, id, { ...body })));
+    }
+    return this.respondDocumented(endpoint, this.exampleOrGenerated(endpoint, successStatus(endpoint)));
+  }
+
+  private answerItem(route: Route, endpoint: Endpoint, collectionPath: string, id: string, body: unknown): MockResponse {
+    const collectionTemplate = route.template.replace(/\/\{[^}]+\}$/, '');
+    const collection = this.collection(collectionTemplate, collectionPath);
+    const existing = collection.items.get(id);
+
+    switch (endpoint.method) {
+      case 'GET':
+        return existing
+          ? this.respondDocumented(endpoint, this.present(collectionTemplate, existing))
+          : this.notFound(id);
+      case 'DELETE':
+        if (!existing) return this.notFound(id);
+        collection.items.delete(id);
+        return this.respondDocumented(endpoint, undefined);
+      case 'PATCH':
+        if (!existing) return this.notFound(id);
+        if (!isPlainObject(body)) return this.respond(400, { message: 'Expected a JSON object body' });
+        return this.respondDocumented(endpoint, this.present(collectionTemplate, this.store(collectionTemplate, collection, id, { ...existing, ...body })));
+      default:
+        // PUT replaces or creates the item, POST on an item path creates it under that ID
+        if (!isPlainObject(body)) return this.respond(400, { message: 'Expected a JSON object body' });
+        return this.respondDocumented(endpoint, this.present(collectionTemplate, this.store(collectionTemplate, collection, id, { ...body })));
+    }
+  }
+
+  /**
+   * State of a concrete collection, e.g. /systems/1/connections - seeded on first access
+   */
+  private collection(template: string, path: string): Collection {
+    const key = path.replace(/\/$/, '');
+    let collection = this.collections.get(key);
+    if (!collection) {
+      const itemSchema = this.itemSchema(template);
+      collection = { idField: findIdField(template, this.itemRoute(template), itemSchema), items: new Map(), nextId: 1 };
+      for (const item of this.seedItems(template, key, itemSchema, collection.idField)) {
+        this.store(template, collection, item[collection.idField] !== undefined ? String(item[collection.idField]) : undefined, item);
+      }
+      this.collections.set(key, collection);
+    }
+    return collection;
+  }
+
+  private seedItems(template: string, path: string, itemSchema: JsonSchema | undefined, idField: string): Record<string, unknown>[] {
+    const list = this.route(template)?.operations.get('GET');
+    const example = list ? responseExample(list, successStatus(list)) : undefined;
+    const exampleItems = example !== undefined ? listItemsOf(example) : undefined;
+    if (exampleItems) {
+      return exampleItems.filter(isPlainObject).map(item => ({ ...item }));
+    }
+
+    const integerIds = itemSchema ? schemaType(propertySchema(itemSchema, idField)) === 'integer' : false;
+    return Array.from({ length: this.itemCount }, (_, index) => {
+      const generated = itemSchema ? generateBody(itemSchema, { seed: `${this.seed}:${path}:${index}` }) : {};
+      return { ...(isPlainObject(generated) ? generated : {}), [idField]: integerIds ? index + 1 : String(index + 1) };
+    });
+  }
+
+  /**
+   * Add or replace an item (a new ID when it has none), keeping its ID field in sync with the key
+   */
+  private store(template: string, collection: Collection, id: string | undefined, item: Record<string, unknown>): Record<string, unknown> {
+    const integerIds = schemaType(propertySchema(this.itemSchema(template), collection.idField)) === 'integer';
+    let key = id;
+    if (key === undefined) {
+      while (collection.items.has(String(collection.nextId))) collection.nextId++;
+      key = String(collection.nextId++);
+    }
+    if (item[collection.idField] === undefined || String(item[collection.idField]) !== key) {
+      item[collection.idField] = integerIds && /^\d+$/.test(key) ? Number(key) : key;
+    }
+    collection.items.set(key, item);
+    return item;
+  }
+
+  /** Item as returned by the API: without writeOnly properties */
+  private present(template: string, item: Record<string, unknown>): unknown {
+    const schema = this.itemSchema(template);
+    return schema ? omitWriteOnly(item, schema) : item;
+  }
+
+  /**
+   * Schema of a collection's items: the item GET response, the list items, or the PUT / POST body
+   */
+  private itemSchema(template: string): JsonSchema | undefined {
+    const itemRoute = this.itemRoute(template);
+    const list = this.route(template)?.operations.get('GET');
+    const get = itemRoute?.operations.get('GET');
+    const put = itemRoute?.operations.get('PUT');
+    const post = this.route(template)?.operations.get('POST');
+
+    return (get && getResponseSchema(get, successStatus(get))?.schema)
+      || (list && listItemSchema(getResponseSchema(list, successStatus(list))?.schema))
+      || (put && getRequestSchema(put)?.schema)
+      || (post && getRequestSchema(post)?.schema)
+      || undefined;
+  }
+
+  private isCollection(route: Route): boolean {
+    return route.operations.has('POST') || !!this.itemRoute(route.template);
+  }
+
+  private itemRoute(template: string): Route | undefined {
+    return this.routes.find(route => route.template.startsWith(`${template}/{`) && /^\/\{[^}/]+\}$/.test(route.template.slice(template.length)));
+  }
+
+  private route(template: string): Route | undefined {
+    return this.routes.find(route => route.template === template);
+  }
+
+  private match(path: string): { route: Route; params: Record<string, string> } | undefined {
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (match) {
+        const params = Object.fromEntries(route.params.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+        return { route, params };
+      }
+    }
+    return undefined;
+  }
+
+  private exampleOrGenerated(endpoint: Endpoint, status: number): unknown {
+    const example = responseExample(endpoint, status);
+    if (example !== undefined) return example;
+    const schema = getResponseSchema(endpoint, status)?.schema;
+    return schema ? generateBody(schema, { seed: `${this.seed}:${endpoint.method} ${endpoint.path}` }) : undefined;
+  }
+
+  private respondDocumented(endpoint: Endpoint, body: unknown): MockResponse {
+    const status = successStatus(endpoint);
+    return this.respond(status, status === 204 ? undefined : body);
+  }
+
+  private notFound(id: string): MockResponse {
+    return this.respond(404, { message: `Resource ${id} not found` });
+  }
+
+  private respond(status: number, body: unknown, headers: Record<string, string> = {}): MockResponse {
+    return { status, body, headers, delay: this.faults.latency ?? 0 };
+  }
+}
+
+function buildRoutes(endpoints: Endpoint[]): Route[] {
+  const routes = new Map<string, Route>();
+  for (const endpoint of endpoints) {
+    let route = routes.get(endpoint.path);
+    if (!route) {
+      const params: string[] = [];
+      const source = endpoint.path.replace(/\/$/, '').split('/').map((segment) => segment.replace(/\{([^}]+)\}|[^{]+/g, (part, name: string | undefined) => {
+        if (name) {
+          params.push(name);
+          return '([^/]+)';
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })).join('/');
+      route = {
+        template: endpoint.path,
+        pattern: new RegExp(`^${source || '/'}$`),
+        params,
+        operations: new Map(),
+        literals: endpoint.path.split('/').filter(segment => segment && !segment.includes('{')).length,
+      };
+      routes.set(endpoint.path, route);
+    }
+    route.operations.set(endpoint.method, endpoint);
+  }
+  return [...routes.values()].sort((a, b) => b.literals - a.literals);
+}
+
+/**
+ * Status of the mocked success response: the usual one for the method when documented, else the first documented 2xx
+ */
+function successStatus(endpoint: Endpoint): number {
+  const preferred = SUCCESS_STATUSES[endpoint.method] || [200];
+  const documented = Object.keys(endpoint.responses || {});
+  const exact = preferred.find(status => documented.includes(String(status)));
+  if (exact) return exact;
+  const other = documented.find(key => /^2\d\d$/.test(key));
+  if (other) return Number(other);
+  return preferred.find(status => findDocumentedStatus(endpoint, status)) ?? preferred[0];
+}
+
+/**
+ * Example of a documented response: the media type's example or first examples entry (OpenAPI 3), or examples[mime] (Swagger 2.0)
+ */
+function responseExample(endpoint: Endpoint, status: number): unknown {
+  const key = findDocumentedStatus(endpoint, status);
+  const response = key ? (endpoint.responses?.[key] as Record<string, unknown> | undefined) : undefined;
+  if (!response) return undefined;
+
+  const content = response.content as Record<string, Record<string, unknown>> | undefined;
+  for (const [contentType, media] of Object.entries(content || {})) {
+    if (!contentType.includes('json')) continue;
+    if (media.example !== undefined) return structuredClone(media.example);
+    const examples = Object.values((media.examples || {}) as Record<string, { value?: unknown }>);
+    if (examples[0]?.value !== undefined) return structuredClone(examples[0].value);
+  }
+
+  const swaggerExamples = response.examples as Record<string, unknown> | undefined;
+  const json = Object.entries(swaggerExamples || {}).find(([contentType]) => contentType.includes('json'));
+  return json ? structuredClone(json[1]) : undefined;
+}
+
+/**
+ * Put the items in the shape of the list response: a plain array, or the array property of a wrapper object
+ */
+function shapeList(endpoint: Endpoint, items: unknown[], seed: number): unknown {
+  const status = successStatus(endpoint);
+  const schema = getResponseSchema(endpoint, status)?.schema;
+  const property = schema ? listProperty(schema) : undefined;
+  if (!schema || !property) {
+    return items;
+  }
+
+  const wrapper = responseExample(endpoint, status) ?? generateBody(schema, { seed: `${seed}:${endpoint.method} ${endpoint.path}` });
+  if (!isPlainObject(wrapper)) {
+    return items;
+  }
+  wrapper[property] = items;
+  for (const countField of ['total', 'count', 'totalCount', 'totalItems']) {
+    if (typeof wrapper[countField] === 'number') {
+      wrapper[countField] = items.length;
+    }
+  }
+  return wrapper;
+}
+
+/** Array property of a list wrapper schema: items, data, results, ... or the first array property */
+function listProperty(schema: JsonSchema): string | undefined {
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+  const arrays = Object.keys(properties).filter(name => schemaType(properties[name]) === 'array');
+  return ['items', 'data', 'results', 'content', 'values'].find(name => arrays.includes(name)) ?? arrays[0];
+}
+
+function listItemSchema(schema: JsonSchema | undefined): JsonSchema | undefined {
+  if (!schema) return undefined;
+  if (schemaType(schema) === 'array') return schema.items as JsonSchema | undefined;
+  const property = listProperty(schema);
+  return property ? ((schema.properties as Record<string, JsonSchema>)[property].items as JsonSchema | undefined) : undefined;
+}
+
+function listItemsOf(example: unknown): unknown[] | undefined {
+  if (Array.isArray(example)) return example;
+  if (!isPlainObject(example)) return undefined;
+  const arrays = Object.keys(example).filter(key => Array.isArray(example[key]));
+  const property = ['items', 'data', 'results', 'content', 'values'].find(name => arrays.includes(name)) ?? arrays[0];
+  return property ? (example[property] as unknown[]) : undefined;
+}
+
+/**
+ * Field holding an item's ID: the one named like the path parameter, else id, _id, uuid, key or name
+ */
+function findIdField(template: string, itemRoute: Route | undefined, itemSchema: JsonSchema | undefined): string {
+  const param = itemRoute?.template.slice(template.length).match(/\{([^}]+)\}/)?.[1];
+  const properties = Object.keys((itemSchema?.properties || {}) as Record<string, unknown>);
+  const candidates = param ? [param, ...ID_FIELDS] : ID_FIELDS;
+  return candidates.find(name => properties.includes(name)) ?? 'id';
+}
+
+function propertySchema(schema: JsonSchema | undefined, name: string): JsonSchema | undefined {
+  return (schema?.properties as Record<string, JsonSchema> | undefined)?.[name];
+}
+
+function schemaType(schema: JsonSchema | undefined): string | undefined {
+  if (!schema) return undefined;
+  if (Array.isArray(schema.type)) return (schema.type as string[]).find(type => type !== 'null');
+  if (typeof schema.type === 'string') return schema.type;
+  return schema.items ? 'array' : schema.properties ? 'object' : undefined;
+}
+
+/**
+ * Remove one field from the returned objects (the object, or every item of a returned list)
+ * @param keep - Fields that are never removed
+ * @returns The removed field, undefined when there is none to remove
+ */
+function dropField(objects: Record<string, unknown>[], keep: string[], random: Random): string | undefined {
+  const fields = [...new Set(objects.flatMap(object => Object.keys(object)))]
+    .filter(field => !keep.includes(field))
+    .sort();
+  if (fields.length === 0) return undefined;
+
+  const field = fields[Math.floor(random() * fields.length)];
+  for (const object of objects) {
+    delete object[field];
+  }
+  return field;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,360 @@
+/**
+ * Negative Endpoint Tester
+ *
+ * Probes an endpoint with requests it must reject, to check the API's security
+ * posture and input validation instead of the happy path:
+ * - no-auth:              no credentials                                 -> 401
+ * - invalid-credentials:  tampered/expired token, wrong password or key  -> 401 / 403
+ * - malformed-path-param: a path parameter of the wrong type             -> 400 / 404
+ * - invalid-json:         a syntactically broken JSON body               -> 400
+ * - unsupported-method:   an undocumented method on the path             -> 405
+ *
+ * Probes never target existing data: path parameters are well-formed IDs that
+ * do not exist (outside the enum when there is one), and every probe with a
+ * write method sends a syntactically broken JSON body, so even an API that
+ * wrongly accepts the credentials or method can't create or overwrite anything.
+ */
+
+import { AuthConfig, Endpoint, ObservedStatus, TestResult, TestStep, Difference } from '@/types';
+import { getTokenProvider, TokenProvider } from './auth.js';
+import { getRequestSchema } from './swagger.js';
+import { getQueryParams } from './query-params.js';
+import { checkStatus } from './status-check.js';
+
+export type NegativeCase = 'no-auth' | 'invalid-credentials' | 'malformed-path-param' | 'invalid-json' | 'unsupported-method';
+
+export interface NegativeProbe {
+  case: NegativeCase;
+  /** What the probe sends, e.g. "tampered/expired bearer token" */
+  description: string;
+  method: string;
+  /** Path with the parameters filled in */
+  path: string;
+  /** Statuses that count as a correct rejection */
+  expectedStatuses: number[];
+  /** Credentials sent with the probe */
+  credentials: 'valid' | 'none' | 'invalid';
+  /** Raw request body and its content type (write methods) */
+  body?: string;
+  contentType?: string;
+}
+
+export interface NegativeTestOptions {
+  /** All endpoints of the spec, to find the methods documented on a path */
+  specEndpoints?: Endpoint[];
+  timeout?: number;
+}
+
+/** Methods tried for the unsupported-method probe; DELETE is never sent */
+const UNSUPPORTED_METHOD_CANDIDATES = ['GET', 'PUT', 'PATCH', 'POST'];
+
+/** Body of every write probe: no API can store it */
+const INVALID_JSON = '{"invalid": ';
+
+/**
+ * Build the negative probes that apply to an endpoint
+ * @param specEndpoints - All endpoints of the spec (unsupported-method is probed once per path)
+ */
+export function buildNegativeProbes(endpoint: Endpoint, auth?: AuthConfig, specEndpoints: Endpoint[] = [endpoint]): NegativeProbe[] {
+  const probes: NegativeProbe[] = [];
+  const isWrite = ['POST', 'PUT', 'PATCH'].includes(endpoint.method);
+  const path = fillPathParams(endpoint);
+  const requestSchema = getRequestSchema(endpoint);
+  const jsonContentType = requestSchema && /json/i.test(requestSchema.contentType) ? requestSchema.contentType : 'application/json';
+  const brokenBody = { body: INVALID_JSON, contentType: jsonContentType };
+  const writeBody = isWrite ? brokenBody : {};
+
+  if (auth && auth.type !== 'none') {
+    probes.push({
+      case: 'no-auth',
+      description: 'request without credentials',
+      method: endpoint.method,
+      path,
+      expectedStatuses: [401],
+      credentials: 'none',
+      ...writeBody,
+    });
+    probes.push({
+      case: 'invalid-credentials',
+      description: describeInvalidCredentials(auth),
+      method: endpoint.method,
+      path,
+      expectedStatuses: [401, 403],
+      credentials: 'invalid',
+      ...writeBody,
+    });
+  }
+
+  const pathParams = getPathParamNames(endpoint);
+  if (pathParams.length > 0) {
+    const malformed = malformedValue(findPathParamSchema(endpoint, pathParams[0]));
+    probes.push({
+      case: 'malformed-path-param',
+      description: `malformed {${pathParams[0]}} "${decodeURIComponent(malformed)}"`,
+      method: endpoint.method,
+      path: fillPathParams(endpoint, { [pathParams[0]]: malformed }),
+      expectedStatuses: [400, 404],
+      credentials: 'valid',
+      ...writeBody,
+    });
+  }
+
+  if (isWrite && requestSchema && /json/i.test(requestSchema.contentType)) {
+    probes.push({
+      case: 'invalid-json',
+      description: 'syntactically invalid JSON body',
+      method: endpoint.method,
+      path,
+      expectedStatuses: [400],
+      credentials: 'valid',
+      ...brokenBody,
+    });
+  }
+
+  // One unsupported-method probe per path, attached to its first documented endpoint
+  const samePath = specEndpoints.filter(e => e.path === endpoint.path);
+  const unsupported = UNSUPPORTED_METHOD_CANDIDATES.find(method => !samePath.some(e => e.method === method));
+  if (unsupported && (samePath[0] ?? endpoint) === endpoint) {
+    probes.push({
+      case: 'unsupported-method',
+      description: `undocumented method ${unsupported}`,
+      method: unsupported,
+      path,
+      expectedStatuses: [405],
+      credentials: 'valid',
+      ...(unsupported === 'GET' ? {} : { body: INVALID_JSON, contentType: 'application/json' }),
+    });
+  }
+
+  return probes;
+}
+
+/**
+ * Run the negative probes of a single endpoint
+ * Passes when every probe is rejected with an expected status.
+ */
+export async function runNegativeTest(
+  baseUrl: string,
+  endpoint: Endpoint,
+  auth?: AuthConfig,
+  onStepComplete?: (step: TestStep) => void,
+  options: NegativeTestOptions = {}
+): Promise<TestResult> {
+  const steps: TestStep[] = [];
+  const differences: Difference[] = [];
+  const observedStatuses: ObservedStatus[] = [];
+  const startTime = Date.now();
+  const resource = `${endpoint.method} ${endpoint.path}`;
+
+  const addStep = (step: TestStep) => {
+    steps.push(step);
+    onStepComplete?.(step);
+  };
+
+  // OAuth2: a valid token is needed for the valid-credential probes and to tamper with
+  const tokenProvider = getTokenProvider(auth);
+  if (auth?.tokenUrl && tokenProvider.usesOAuth2) {
+    try {
+      await tokenProvider.getToken();
+      addStep({ step: 'AUTH', method: 'POST', url: auth.tokenUrl, status: 200, timestamp: new Date() });
+    } catch (error: unknown) {
+      const errorMsg = `OAuth2 authentication failed: ${error instanceof Error ? error.message : String(error)}`;
+      addStep({ step: 'AUTH', method: 'POST', url: auth.tokenUrl, status: 0, error: errorMsg, timestamp: new Date() });
+      return {
+        resource,
+        steps,
+        passed: false,
+        differences: [{ path: 'auth', expected: 'success', actual: 'failed', type: 'changed' }],
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  for (const probe of buildNegativeProbes(endpoint, auth, options.specEndpoints)) {
+    const url = `${baseUrl}${probe.path}`;
+    let status = 0;
+    let data: unknown;
+    let requestError: string | undefined;
+
+    try {
+      const credentials = await probeAuth(probe, auth);
+      // Tampered credentials differ per probe: a throwaway provider keeps them out of the shared cache
+      const http = credentials === auth
+        ? tokenProvider.client
+        : probe.credentials === 'invalid' ? new TokenProvider(credentials).client : getTokenProvider(credentials).client;
+      const response = await http.request({
+        method: probe.method,
+        url,
+        params: getQueryParams(endpoint.path),
+        headers: {
+          'Accept': 'application/json',
+          ...(probe.contentType ? { 'Content-Type': probe.contentType } : {}),
+        },
+        data: probe.body,
+        // Send the body as-is: axios would turn invalid JSON into a (valid) JSON string
+        transformRequest: [(body: unknown) => body],
+        timeout: options.timeout || 30000,
+        validateStatus: () => true,
+      });
+      status = response.status;
+      data = response.data;
+    } catch (error: unknown) {
+      requestError = error instanceof Error ? error.message : String(error);
+    }
+
+    const rejected = probe.expectedStatuses.includes(status);
+    const error = requestError
+      ? `${probe.description}: ${requestError}`
+      : rejected ? undefined : `${probe.description}: expected ${probe.expectedStatuses.join(' or ')}, got ${status}`;
+
+    // Only probes of the documented method say something about its documented responses
+    const outcome = status && probe.method === endpoint.method ? checkStatus(endpoint, status).outcome : undefined;
+    if (outcome) {
+      observedStatuses.push({ method: endpoint.method, path: endpoint.path, status, outcome });
+    }
+
+    addStep({
+      step: 'PROBE',
+      probe: probe.case,
+      method: probe.method,
+      url,
+      status,
+      outcome,
+      data,
+      error,
+      timestamp: new Date(),
+    });
+
+    if (error) {
+      differences.push({
+        path: `negative.${probe.case}`,
+        expected: probe.expectedStatuses.join(' or '),
+        actual: status || 'no response',
+        type: 'changed',
+        message: error,
+      });
+    }
+  }
+
+  return {
+    resource,
+    steps,
+    passed: differences.length === 0,
+    differences,
+    observedStatuses,
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * The auth config a probe is sent with: the real one, none, or one with broken credentials
+ * (the mTLS client certificate is kept, so probes test the HTTP-level auth)
+ */
+async function probeAuth(probe: NegativeProbe, auth?: AuthConfig): Promise<AuthConfig | undefined> {
+  if (probe.credentials === 'valid' || !auth) {
+    return auth;
+  }
+
+  const tls = { clientCert: auth.clientCert, clientKey: auth.clientKey, clientKeyPassphrase: auth.clientKeyPassphrase, caCert: auth.caCert };
+  if (probe.credentials === 'none') {
+    return { type: 'none', ...tls };
+  }
+
+  switch (auth.type) {
+    case 'oauth2':
+      return { type: 'bearer', token: tamperToken(await getTokenProvider(auth).getToken()), ...tls };
+    case 'bearer':
+      return { ...auth, token: tamperToken(auth.token || '') };
+    case 'apikey':
+      return { ...auth, token: `${auth.token || ''}__invalid__` };
+    case 'basic':
+      return { ...auth, password: `${auth.password || ''}__invalid__` };
+    default:
+      return auth;
+  }
+}
+
+function describeInvalidCredentials(auth: AuthConfig): string {
+  switch (auth.type) {
+    case 'basic':
+      return 'wrong basic auth password';
+    case 'apikey':
+      return 'invalid API key';
+    default:
+      return 'tampered/expired bearer token';
+  }
+}
+
+/**
+ * Invalidate a token: a JWT gets an `exp` in the past (which also breaks its
+ * signature), any other token a changed last character
+ */
+export function tamperToken(token: string): string {
+  const parts = token.split('.');
+  if (parts.length === 3) {
+    try {
+      const payload = JSON.parse(decodeBase64Url(parts[1])) as Record<string, unknown>;
+      payload.exp = Math.floor(Date.now() / 1000) - 3600;
+      return [parts[0], encodeBase64Url(JSON.stringify(payload)), parts[2]].join('.');
+    } catch {
+      // Not a JWT after all - fall through
+    }
+  }
+  const last = token.slice(-1);
+  return `${token.slice(0, -1)}${last === 'A' ? 'B' : 'A'}`;
+}
+
+function getPathParamNames(endpoint: Endpoint): string[] {
+  return (endpoint.path.match(/\{[^}]+\}/g) || []).map(p => p.slice(1, -1));
+}
+
+function findPathParamSchema(endpoint: Endpoint, name: string): Record<string, unknown> {
+  const param = (endpoint.parameters || []).find(p => p.in === 'path' && p.name === name);
+  // OpenAPI 3 nests the schema, Swagger 2.0 puts type/format on the parameter
+  return (param?.schema as Record<string, unknown>) || param || {};
+}
+
+/**
+ * Fill path parameters with well-formed IDs that do not exist
+ */
+function fillPathParams(endpoint: Endpoint, overrides: Record<string, string> = {}): string {
+  return endpoint.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    return overrides[name] ?? encodeURIComponent(nonExistentValue(name, findPathParamSchema(endpoint, name)));
+  });
+}
+
+/**
+ * A value no resource has; for an enum, one outside it (every enum value may name an existing resource)
+ */
+function nonExistentValue(name: string, schema: Record<string, unknown>): string {
+  const candidates = schema.type === 'integer' || schema.type === 'number'
+    ? ['999999999', '-999999999']
+    : schema.format === 'uuid'
+      ? ['00000000-0000-0000-0000-000000000000', 'ffffffff-ffff-ffff-ffff-ffffffffffff']
+      : [`__probe__${name}`];
+  const values = Array.isArray(schema.enum) ? schema.enum.map(String) : [];
+  return candidates.find(value => !values.includes(value)) ?? `__probe__${name}`;
+}
+
+/**
+ * A path parameter value of the wrong type (already URL-encoded)
+ */
+function malformedValue(schema: Record<string, unknown>): string {
+  if (schema.type === 'integer' || schema.type === 'number') return 'not-a-number';
+  if (schema.type === 'boolean') return 'not-a-boolean';
+  if (schema.format === 'uuid') return 'not-a-uuid';
+  if (schema.format === 'date' || schema.format === 'date-time') return 'not-a-date';
+  if (Array.isArray(schema.enum)) return '__not_in_enum__';
+  // Unconstrained strings: an encoded NUL byte
+  return '%00';
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+}
+
+function encodeBase64Url(value: string): string {
+  const binary = String.fromCharCode(...new TextEncoder().encode(value));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
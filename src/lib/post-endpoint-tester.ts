@@ -6,52 +6,10 @@
  */
 
 import { AxiosRequestConfig } from 'axios';
-import { TestStep, TestResult, AuthConfig } from '@/types';
-import { createAxiosInstance } from './utils.js';
+import { TestStep, TestResult, AuthConfig, PlannedRequest } from '@/types';
+import { getTokenProvider } from './auth.js';
 import { PostTestCase, buildUrl } from './test-fixtures.js';
 
-const axios = createAxiosInstance();
-
-/**
- * Get OAuth2 access token using password grant flow
- */
-async function getOAuth2Token(
-  tokenUrl: string,
-  username: string,
-  password: string
-): Promise<string> {
-  const params = new URLSearchParams();
-  const grantType = process.env.GRANT_TYPE || 'password';
-  
-  params.append('grant_type', grantType);
-  
-  if (grantType === 'password') {
-    params.append('username', username);
-    params.append('password', password);
-  }
-
-  const response = await axios.post(
-    tokenUrl,
-    params.toString(),
-    {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    }
-  );
-
-  if (response.status !== 200) {
-    throw new Error(`Failed to fetch access token: ${response.status} ${response.statusText}`);
-  }
-
-  const accessToken = response.data?.access_token;
-  if (!accessToken) {
-    throw new Error('Access token is null');
-  }
-
-  return accessToken;
-}
-
 export interface PostTestOptions {
   /** Base URL for the API */
   baseUrl: string;
@@ -94,11 +52,14 @@ export async function runPostEndpointTest(
     'Accept': 'application/json',
   };
 
-  // Step 1: AUTH
-  if (auth?.type === 'oauth2' && auth.username && auth.password && auth.tokenUrl) {
+  // The shared client adds the auth headers and retries once with a fresh token on 401
+  const tokenProvider = getTokenProvider(auth);
+  const http = tokenProvider.client;
+
+  // Step 1: AUTH (the token is cached across test cases)
+  if (auth?.tokenUrl && tokenProvider.usesOAuth2) {
     try {
-      const token = await getOAuth2Token(auth.tokenUrl, auth.username, auth.password);
-      headers['Authorization'] = `Bearer ${token}`;
+      await tokenProvider.getToken();
       
       addStep({
         step: 'AUTH',
@@ -132,10 +93,6 @@ export async function runPostEndpointTest(
         duration: Date.now() - startTime,
       };
     }
-  } else if (auth?.type === 'bearer' && auth.token) {
-    headers['Authorization'] = `Bearer ${auth.token}`;
-  } else if (auth?.type === 'apikey' && auth.token) {
-    headers['X-API-Key'] = auth.token;
   }
 
   const config: AxiosRequestConfig = { headers, timeout };
@@ -149,7 +106,7 @@ export async function runPostEndpointTest(
   let postSuccess = false;
   
   try {
-    postResponse = await axios.post(postUrl, testCase.requestBody, config);
+    postResponse = await http.post(postUrl, testCase.requestBody, config);
     postSuccess = postResponse.status === testCase.expectedStatus;
     
     addStep({
@@ -202,7 +159,7 @@ export async function runPostEndpointTest(
     const verifyUrl = `${options.baseUrl}${verifyPath}`;
     
     try {
-      const verifyResponse = await axios.get(verifyUrl, config);
+      const verifyResponse = await http.get(verifyUrl, config);
       
       addStep({
         step: 'VERIFY',
@@ -277,7 +234,7 @@ export async function runPostEndpointTest(
         ? { ...config, data: testCase.cleanupBody }
         : config;
       
-      const cleanupResponse = await axios.delete(cleanupUrl, cleanupConfig);
+      const cleanupResponse = await http.delete(cleanupUrl, cleanupConfig);
       
       addStep({
         step: 'CLEANUP',
@@ -381,6 +338,49 @@ export async function runPostEndpointTests(
   return results;
 }
 
+/**
+ * The requests runPostEndpointTests would send, per test case in run order, without sending any
+ */
+export function planPostEndpointTests(
+  testCases: PostTestCase[],
+  options: PostTestOptions
+): Array<{ testCase: PostTestCase; requests: PlannedRequest[] }> {
+  const sortedCases = [...testCases].sort((a, b) => (a.priority || 99) - (b.priority || 99));
+  
+  return sortedCases.map(testCase => {
+    const requests: PlannedRequest[] = [{
+      step: 'POST',
+      method: 'POST',
+      url: `${options.baseUrl}${buildUrl(testCase.endpoint, testCase.pathParams)}`,
+      body: testCase.requestBody,
+      note: testCase.dependsOn?.length
+        ? `Expects ${testCase.expectedStatus} - only when ${testCase.dependsOn.join(', ')} passed`
+        : `Expects ${testCase.expectedStatus}`,
+    }];
+    
+    if (!options.skipVerify && testCase.verifyEndpoint) {
+      requests.push({
+        step: 'VERIFY',
+        method: 'GET',
+        url: `${options.baseUrl}${buildUrl(testCase.verifyEndpoint, testCase.pathParams)}`,
+        note: 'Only when the POST succeeded',
+      });
+    }
+    
+    if (!options.skipCleanup && testCase.cleanupEndpoint) {
+      requests.push({
+        step: 'CLEANUP',
+        method: 'DELETE',
+        url: `${options.baseUrl}${buildUrl(testCase.cleanupEndpoint, testCase.pathParams)}`,
+        body: testCase.cleanupBody,
+        note: 'Only when the POST succeeded',
+      });
+    }
+    
+    return { testCase, requests };
+  });
+}
+
 /**
  * Generate summary of POST test results
  */
@@ -0,0 +1,204 @@
+/**
+ * $ref Resolver
+ *
+ * Dereferences a Swagger/OpenAPI document so every `$ref` is replaced by the
+ * object it points to. Handles:
+ * - Internal refs:  #/components/schemas/System, #/definitions/System
+ * - External refs:  ./schemas/system.yaml#/System, https://host/common.json
+ * - Circular refs:  a schema that (indirectly) refers to itself
+ *
+ * Circular refs are resolved to the same object instance, so the result may
+ * contain object cycles. Code that walks resolved schemas recursively must
+ * track visited nodes (or limit its depth) instead of relying on JSON.stringify.
+ */
+
+import { getSpecSourceKind, loadDocument, SpecFetchOptions } from './spec-loader.js';
+
+export interface DereferenceResult {
+  /** The dereferenced document */
+  spec: Record<string, unknown>;
+  /** $refs that could not be resolved (left in place) */
+  unresolvedRefs: string[];
+}
+
+/**
+ * Dereference all $refs in a spec
+ * @param spec - Parsed spec document
+ * @param source - Where the spec was loaded from (URL, absolute path or "-"),
+ *                 used to resolve relative external refs
+ * @param fetchOptions - How external URL refs are fetched (credentials are only sent to the spec's own origin)
+ */
+export async function dereferenceSpec(
+  spec: Record<string, unknown>,
+  source: string = '-',
+  fetchOptions: SpecFetchOptions = {}
+): Promise<DereferenceResult> {
+  const documents = new Map<string, Record<string, unknown>>([[source, spec]]);
+  const resolved = new Map<string, unknown>();
+  const unresolvedRefs: string[] = [];
+
+  const loadExternal = async (docKey: string): Promise<Record<string, unknown> | null> => {
+    if (!documents.has(docKey)) {
+      try {
+        // Credentials are only sent to the spec's own origin
+        const sameOrigin = isSameOrigin(docKey, source);
+        const { spec: doc } = await loadDocument(docKey, {
+          ...fetchOptions,
+          headers: sameOrigin ? fetchOptions.headers : undefined,
+          params: sameOrigin ? fetchOptions.params : undefined,
+          httpsAgent: sameOrigin ? fetchOptions.httpsAgent : undefined,
+        });
+        documents.set(docKey, doc);
+      } catch {
+        return null;
+      }
+    }
+    return documents.get(docKey) ?? null;
+  };
+
+  const resolveNode = async (node: unknown, docKey: string): Promise<unknown> => {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const item of node) {
+        items.push(await resolveNode(item, docKey));
+      }
+      return items;
+    }
+
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+
+    const obj = node as Record<string, unknown>;
+
+    if (typeof obj.$ref === 'string') {
+      const ref = obj.$ref;
+      const { targetDoc, pointer } = await splitRef(ref, docKey);
+      const refKey = `${targetDoc}#${pointer}`;
+
+      // Already resolved (or being resolved further up - a circular ref)
+      if (resolved.has(refKey)) {
+        return withSiblings(resolved.get(refKey), obj, docKey);
+      }
+
+      const doc = await loadExternal(targetDoc);
+      const target = doc ? getByPointer(doc, pointer) : undefined;
+
+      if (target === undefined) {
+        unresolvedRefs.push(ref);
+        return obj;
+      }
+
+      if (typeof target === 'object' && target !== null && !Array.isArray(target)) {
+        // Register a placeholder first so circular refs point back to the same object
+        const placeholder: Record<string, unknown> = {};
+        resolved.set(refKey, placeholder);
+        const result = await resolveNode(target, targetDoc);
+        if (typeof result === 'object' && result !== null && !Array.isArray(result)) {
+          Object.assign(placeholder, result);
+        } else {
+          resolved.set(refKey, result);
+        }
+        return withSiblings(resolved.get(refKey), obj, docKey);
+      }
+
+      const result = await resolveNode(target, targetDoc);
+      resolved.set(refKey, result);
+      return result;
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      out[key] = await resolveNode(value, docKey);
+    }
+    return out;
+  };
+
+  /**
+   * OpenAPI 3.1 allows keywords next to $ref (e.g. description).
+   * Merge them into a shallow copy so the shared resolved object stays untouched.
+   */
+  const withSiblings = async (target: unknown, refNode: Record<string, unknown>, docKey: string): Promise<unknown> => {
+    const siblings = Object.keys(refNode).filter(key => key !== '$ref');
+    if (siblings.length === 0 || typeof target !== 'object' || target === null || Array.isArray(target)) {
+      return target;
+    }
+    const merged: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+    for (const key of siblings) {
+      merged[key] = await resolveNode(refNode[key], docKey);
+    }
+    return merged;
+  };
+
+  const result = await resolveNode(spec, source) as Record<string, unknown>;
+
+  return {
+    spec: result,
+    unresolvedRefs: Array.from(new Set(unresolvedRefs)),
+  };
+}
+
+/**
+ * Split a $ref into the document it points to and the JSON pointer within it
+ */
+async function splitRef(ref: string, currentDoc: string): Promise<{ targetDoc: string; pointer: string }> {
+  const hashIndex = ref.indexOf('#');
+  const location = hashIndex === -1 ? ref : ref.substring(0, hashIndex);
+  const pointer = hashIndex === -1 ? '' : ref.substring(hashIndex + 1);
+
+  if (!location) {
+    return { targetDoc: currentDoc, pointer };
+  }
+
+  return { targetDoc: await resolveLocation(location, currentDoc), pointer };
+}
+
+/**
+ * Resolve an external ref location relative to the document that contains it
+ */
+async function resolveLocation(location: string, currentDoc: string): Promise<string> {
+  if (/^https?:\/\//i.test(location)) {
+    return location;
+  }
+
+  if (getSpecSourceKind(currentDoc) === 'url') {
+    return new URL(location, currentDoc).toString();
+  }
+
+  const { resolve, dirname } = await import('path');
+  const baseDir = currentDoc === '-' ? process.cwd() : dirname(currentDoc);
+  return resolve(baseDir, location);
+}
+
+/**
+ * Check if two URL sources share an origin (so credentials may be sent to both)
+ */
+function isSameOrigin(a: string, b: string): boolean {
+  if (getSpecSourceKind(a) !== 'url' || getSpecSourceKind(b) !== 'url') {
+    return false;
+  }
+  return new URL(a).origin === new URL(b).origin;
+}
+
+/**
+ * Look up a value in a document by JSON pointer (RFC 6901)
+ */
+export function getByPointer(doc: unknown, pointer: string): unknown {
+  if (pointer === '' || pointer === '/') {
+    return doc;
+  }
+
+  const tokens = pointer
+    .replace(/^\//, '')
+    .split('/')
+    .map(token => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: unknown = doc;
+  for (const token of tokens) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+}
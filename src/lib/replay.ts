@@ -0,0 +1,109 @@
+/**
+ * HAR Replay
+ *
+ * Answers requests from recorded exchanges instead of the network, so a run can
+ * be repeated offline and deterministically (no API, no VM, no credentials).
+ *
+ * Requests are matched by method, path and query (parameters in any order); the
+ * host is ignored, and so are credential parameters, which recordings redact.
+ * Repeated requests are answered with their recordings in order, the last one
+ * again once they run out, so a GET before and after a DELETE gets each of its
+ * answers. A request without a recording fails with a network-style error and
+ * is listed in `unmatched`.
+ */
+
+import axios, { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { HarEntry, isSensitiveField } from './har.js';
+
+export const REPLAY_MISSING = 'ERR_REPLAY_MISSING';
+
+export class HarReplay {
+  /** Requests answered from the recording */
+  served = 0;
+  /** "METHOD /path?query" of every request that had no recording */
+  readonly unmatched: string[] = [];
+
+  private recordings = new Map<string, HarEntry[]>();
+  private nextIndex = new Map<string, number>();
+
+  /**
+   * @param entries - Recorded exchanges, in the order they were recorded
+   */
+  constructor(entries: HarEntry[]) {
+    for (const entry of entries) {
+      const key = replayKey(entry.request.method, entry.request.url);
+      const list = this.recordings.get(key) ?? [];
+      list.push(entry);
+      this.recordings.set(key, list);
+    }
+  }
+
+  /** Number of recorded exchanges */
+  get size(): number {
+    return [...this.recordings.values()].reduce((sum, list) => sum + list.length, 0);
+  }
+
+  /**
+   * Axios adapter answering a request from the recording
+   */
+  readonly adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const key = replayKey(config.method || 'get', axios.getUri(config));
+    const entry = this.next(key);
+    if (!entry) {
+      this.unmatched.push(key);
+      throw new AxiosError(`No recorded response for ${key}`, REPLAY_MISSING, config);
+    }
+    this.served++;
+
+    if (entry.response.status === 0) {
+      throw new AxiosError(entry.comment || 'Network Error', AxiosError.ERR_NETWORK, config);
+    }
+
+    const headers = new AxiosHeaders();
+    for (const { name, value } of entry.response.headers) {
+      headers.set(name, value);
+    }
+    const response: AxiosResponse = {
+      data: entry.response.content.text ?? '',
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers,
+      config,
+      request: {},
+    };
+
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+
+  private next(key: string): HarEntry | undefined {
+    const list = this.recordings.get(key);
+    if (!list) {
+      return undefined;
+    }
+    const index = this.nextIndex.get(key) ?? 0;
+    this.nextIndex.set(key, index + 1);
+    return list[Math.min(index, list.length - 1)];
+  }
+}
+
+/**
+ * "METHOD /path?query" a request is matched by: no host, sorted query without credentials
+ */
+export function replayKey(method: string, url: string): string {
+  const parsed = new URL(url, 'http://replay.invalid');
+  const query = [...parsed.searchParams]
+    .filter(([name]) => !isSensitiveField(name))
+    .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${method.toUpperCase()} ${parsed.pathname}${query ? `?${query}` : ''}`;
+}
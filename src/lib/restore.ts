@@ -0,0 +1,190 @@
+/**
+ * Resource Snapshots and Restore
+ *
+ * Full mode reads every resource into a snapshot before it DELETEs it. When the
+ * test doesn't bring the resource back under its URL and unchanged (the
+ * re-creating POST, its VERIFY or COMPARE fails, or the copy got a new ID), the
+ * snapshot is sent back to the API:
+ * - PUT to the resource URL, when the path has a PUT endpoint (keeps its ID)
+ * - POST to the collection URL otherwise
+ *
+ * Snapshots are saved to a journal on every state change, so a run that is
+ * interrupted or can't restore leaves enough behind for `gate restore`.
+ *
+ * Collection listings taken before and after a run are diffed to report the net
+ * change the run left behind ("leave no trace").
+ */
+
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Endpoint } from '@/types';
+
+export type SnapshotState =
+  | 'taken'           // read, the DELETE has not been answered (yet)
+  | 'deleted'         // deleted and not back yet
+  | 'kept'            // the DELETE failed or the resource exists again - nothing to restore
+  | 'recreated'       // the test re-created it under the same URL, unchanged
+  | 'restored'
+  | 'restore-failed';
+
+export interface RestoreRequest {
+  method: 'PUT' | 'POST';
+  url: string;
+}
+
+export interface ResourceSnapshot {
+  /** Unique ID of the journal entry */
+  id: string;
+  /** "DELETE /path" endpoint that deleted the resource */
+  endpoint: string;
+  /** URL of the resource */
+  url: string;
+  /** Query parameters the resource is read with (those of its GET endpoint) */
+  readParams?: Record<string, unknown>;
+  /** Resource as read before the DELETE */
+  data: unknown;
+  /** Request that re-creates the resource (none when the spec has no PUT or collection POST) */
+  restore?: RestoreRequest;
+  state: SnapshotState;
+  takenAt: string;
+  updatedAt: string;
+  /** Why the last restore failed */
+  error?: string;
+}
+
+/** Where snapshots are saved, e.g. a file (CLI) */
+export interface RestoreJournal {
+  /** Add the snapshot, or replace the entry with its ID */
+  save(snapshot: ResourceSnapshot): void;
+}
+
+export interface CollectionChange {
+  /** URL of the collection listing */
+  url: string;
+  before: number;
+  after: number;
+  /** Items only in the listing after the run (by id, or the whole item) */
+  added: string[];
+  /** Items only in the listing before the run */
+  removed: string[];
+}
+
+let snapshotCount = 0;
+
+/**
+ * Snapshot of a resource about to be deleted
+ */
+export function createSnapshot(
+  deleteEndpoint: Endpoint,
+  url: string,
+  data: unknown,
+  restore?: RestoreRequest,
+  readParams?: Record<string, unknown>
+): ResourceSnapshot {
+  const now = new Date().toISOString();
+  snapshotCount++;
+  return {
+    id: `${Date.now().toString(36)}-${snapshotCount}`,
+    endpoint: `${deleteEndpoint.method} ${deleteEndpoint.path}`,
+    url,
+    ...(readParams ? { readParams } : {}),
+    data,
+    restore,
+    state: 'taken',
+    takenAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Move a snapshot to a new state (and save it when there is a journal)
+ */
+export function updateSnapshot(snapshot: ResourceSnapshot, state: SnapshotState, journal?: RestoreJournal, error?: string): void {
+  snapshot.state = state;
+  snapshot.updatedAt = new Date().toISOString();
+  snapshot.error = error;
+  journal?.save(snapshot);
+}
+
+/**
+ * Snapshots that may still need restoring: deleted ones, failed restores,
+ * and ones whose DELETE was never answered (the run was interrupted)
+ */
+export function isPending(snapshot: ResourceSnapshot): boolean {
+  return snapshot.state === 'taken' || snapshot.state === 'deleted' || snapshot.state === 'restore-failed';
+}
+
+/**
+ * How to re-create the resource of a DELETE endpoint: PUT on the same path,
+ * else POST on its collection (the path without the last parameter)
+ * @param endpoints - Endpoints to search, e.g. the group's and the spec's
+ * @param buildUrl - Turns a path into a full URL with the test's IDs
+ */
+export function findRestoreRequest(deleteEndpoint: Endpoint, endpoints: Endpoint[], buildUrl: (path: string) => string): RestoreRequest | undefined {
+  if (endpoints.some(e => e.method === 'PUT' && e.path === deleteEndpoint.path)) {
+    return { method: 'PUT', url: buildUrl(deleteEndpoint.path) };
+  }
+
+  const collectionPath = deleteEndpoint.path.replace(/\/\{[^}]+\}\/?$/, '');
+  if (collectionPath !== deleteEndpoint.path && endpoints.some(e => e.method === 'POST' && e.path === collectionPath)) {
+    return { method: 'POST', url: buildUrl(collectionPath) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Send a snapshot back to the API (the resource as it was read, unchanged)
+ * @returns Status of the restoring request; throws when it fails
+ */
+export async function restoreSnapshot(http: AxiosInstance, snapshot: ResourceSnapshot, config?: AxiosRequestConfig): Promise<number> {
+  if (!snapshot.restore) {
+    throw new Error(`No PUT on the resource path or POST on its collection to restore ${snapshot.url}`);
+  }
+
+  const response = snapshot.restore.method === 'PUT'
+    ? await http.put(snapshot.restore.url, snapshot.data, config)
+    : await http.post(snapshot.restore.url, snapshot.data, config);
+  return response.status;
+}
+
+/**
+ * Items of a collection listing: a plain array, or the array under items / data
+ */
+export function listItems(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  const listing = data as { items?: unknown; data?: unknown } | null;
+  if (Array.isArray(listing?.items)) return listing.items;
+  if (Array.isArray(listing?.data)) return listing.data;
+  return [];
+}
+
+/**
+ * Net change between two listings of a collection
+ * @returns undefined when both hold the same items
+ */
+export function diffListings(url: string, before: unknown, after: unknown): CollectionChange | undefined {
+  const beforeKeys = listItems(before).map(itemKey);
+  const afterKeys = listItems(after).map(itemKey);
+
+  const remaining = [...beforeKeys];
+  const added: string[] = [];
+  for (const key of afterKeys) {
+    const index = remaining.indexOf(key);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+    } else {
+      added.push(key);
+    }
+  }
+
+  if (added.length === 0 && remaining.length === 0) {
+    return undefined;
+  }
+  return { url, before: beforeKeys.length, after: afterKeys.length, added, removed: remaining };
+}
+
+function itemKey(item: unknown): string {
+  const record = item as Record<string, unknown> | null;
+  const id = record?.id ?? record?._id;
+  return id !== undefined && id !== null ? `id ${String(id)}` : JSON.stringify(item);
+}
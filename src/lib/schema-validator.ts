@@ -0,0 +1,285 @@
+/**
+ * Schema Validator
+ *
+ * Validates response bodies against the (dereferenced) JSON Schema documented
+ * in the OpenAPI spec. Supports the subset of JSON Schema used by OpenAPI 2/3:
+ * type, nullable / x-nullable, enum, const, required, properties,
+ * additionalProperties, items, min/max constraints, pattern, format,
+ * allOf / anyOf / oneOf / not.
+ *
+ * Violations carry JSON-pointer paths (RFC 6901), e.g. "/items/0/name".
+ */
+
+import { Difference, JsonSchema } from '@/types';
+
+export interface SchemaViolation {
+  /** JSON pointer to the offending value ("" is the document root) */
+  pointer: string;
+  /** Schema keyword that failed, e.g. "type", "required" */
+  keyword: string;
+  /** Human-readable description */
+  message: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ValidateOptions {
+  /** Stop after this many violations (default: 50) */
+  maxViolations?: number;
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+  ipv4: /^(\d{1,3}\.){3}\d{1,3}$/,
+};
+
+/**
+ * Validate data against a JSON schema
+ * @returns List of violations (empty when valid)
+ */
+export function validateAgainstSchema(
+  data: unknown,
+  schema: JsonSchema,
+  options: ValidateOptions = {}
+): SchemaViolation[] {
+  const maxViolations = options.maxViolations ?? 50;
+  const violations = validateNode(data, schema, '');
+  return violations.slice(0, maxViolations);
+}
+
+/**
+ * Convert schema violations into Difference entries for reporting
+ */
+export function violationsToDifferences(violations: SchemaViolation[]): Difference[] {
+  return violations.map(v => ({
+    path: v.pointer || '/',
+    expected: v.expected,
+    actual: v.actual,
+    type: 'violation',
+    message: v.message,
+  }));
+}
+
+/**
+ * Escape a property name for use in a JSON pointer
+ */
+export function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function describe(value: unknown): unknown {
+  if (typeof value === 'object' && value !== null) {
+    return Array.isArray(value) ? `array(${value.length})` : 'object';
+  }
+  return value;
+}
+
+function validateNode(data: unknown, schema: JsonSchema, pointer: string): SchemaViolation[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const add = (keyword: string, message: string, expected: unknown, actual: unknown) => {
+    violations.push({ pointer, keyword, message, expected, actual });
+  };
+
+  // Unresolved $ref - nothing to validate against
+  if (typeof schema.$ref === 'string') {
+    return [];
+  }
+
+  const nullable = schema.nullable === true || schema['x-nullable'] === true;
+
+  // Composition keywords
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) {
+      violations.push(...validateNode(data, sub, pointer));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf as JsonSchema[];
+    const matched = branches.some(sub => validateNode(data, sub, pointer).length === 0);
+    if (!matched && !(nullable && data === null)) {
+      add('anyOf', 'Value does not match any of the allowed schemas', `anyOf(${branches.length})`, describe(data));
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const branches = schema.oneOf as JsonSchema[];
+    const matches = branches.filter(sub => validateNode(data, sub, pointer).length === 0).length;
+    if (matches !== 1 && !(nullable && data === null)) {
+      add('oneOf', `Value matches ${matches} of the oneOf schemas (expected exactly 1)`, `oneOf(${branches.length})`, describe(data));
+    }
+  }
+
+  if (schema.not && typeof schema.not === 'object') {
+    if (validateNode(data, schema.not as JsonSchema, pointer).length === 0) {
+      add('not', 'Value matches a schema it must not match', 'not', describe(data));
+    }
+  }
+
+  // Null handling
+  if (data === null) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : schema.type ? [schema.type as string] : [];
+    if (!nullable && types.length > 0 && !types.includes('null')) {
+      add('type', `Expected ${types.join(' | ')}, got null`, types.join(' | '), null);
+    }
+    return violations;
+  }
+
+  // Type
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(data, type))) {
+      add('type', `Expected ${types.join(' | ')}, got ${typeOf(data)}`, types.join(' | '), typeOf(data));
+      return violations;
+    }
+  }
+
+  // Enum / const
+  if (Array.isArray(schema.enum) && !schema.enum.some(value => value === data)) {
+    add('enum', `Value is not one of the allowed values`, schema.enum, data);
+  }
+  if ('const' in schema && schema.const !== data) {
+    add('const', `Value must equal ${JSON.stringify(schema.const)}`, schema.const, data);
+  }
+
+  // Strings
+  if (typeof data === 'string') {
+    if (typeof schema.minLength === 'number' && data.length < schema.minLength) {
+      add('minLength', `String is shorter than ${schema.minLength}`, schema.minLength, data.length);
+    }
+    if (typeof schema.maxLength === 'number' && data.length > schema.maxLength) {
+      add('maxLength', `String is longer than ${schema.maxLength}`, schema.maxLength, data.length);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(data)) {
+          add('pattern', `String does not match pattern ${schema.pattern}`, schema.pattern, data);
+        }
+      } catch {
+        // Invalid pattern in the spec - not the response's fault
+      }
+    }
+    if (typeof schema.format === 'string' && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(data)) {
+      add('format', `String is not a valid ${schema.format}`, schema.format, data);
+    }
+  }
+
+  // Numbers
+  if (typeof data === 'number') {
+    const exclusiveMin = schema.exclusiveMinimum;
+    const exclusiveMax = schema.exclusiveMaximum;
+    if (typeof schema.minimum === 'number') {
+      const tooSmall = exclusiveMin === true ? data <= schema.minimum : data < schema.minimum;
+      if (tooSmall) add('minimum', `Number is below minimum ${schema.minimum}`, schema.minimum, data);
+    }
+    if (typeof schema.maximum === 'number') {
+      const tooLarge = exclusiveMax === true ? data >= schema.maximum : data > schema.maximum;
+      if (tooLarge) add('maximum', `Number is above maximum ${schema.maximum}`, schema.maximum, data);
+    }
+    if (typeof exclusiveMin === 'number' && data <= exclusiveMin) {
+      add('exclusiveMinimum', `Number must be greater than ${exclusiveMin}`, exclusiveMin, data);
+    }
+    if (typeof exclusiveMax === 'number' && data >= exclusiveMax) {
+      add('exclusiveMaximum', `Number must be less than ${exclusiveMax}`, exclusiveMax, data);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = data / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        add('multipleOf', `Number is not a multiple of ${schema.multipleOf}`, schema.multipleOf, data);
+      }
+    }
+    if (schema.format === 'int32' && (data < -2147483648 || data > 2147483647)) {
+      add('format', 'Number is out of int32 range', 'int32', data);
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(data)) {
+    if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+      add('minItems', `Array has fewer than ${schema.minItems} items`, schema.minItems, data.length);
+    }
+    if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+      add('maxItems', `Array has more than ${schema.maxItems} items`, schema.maxItems, data.length);
+    }
+    if (schema.uniqueItems === true) {
+      const seen = new Set(data.map(item => JSON.stringify(item)));
+      if (seen.size !== data.length) {
+        add('uniqueItems', 'Array items are not unique', 'unique items', `${data.length - seen.size} duplicate(s)`);
+      }
+    }
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+      data.forEach((item, index) => {
+        violations.push(...validateNode(item, schema.items as JsonSchema, `${pointer}/${index}`));
+      });
+    }
+  }
+
+  // Objects
+  if (typeOf(data) === 'object') {
+    const obj = data as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        const property = properties[key];
+        // writeOnly properties (e.g. passwords) are never returned in responses
+        if (!(key in obj) && !(property && property.writeOnly === true)) {
+          violations.push({
+            pointer: `${pointer}/${escapePointerToken(key)}`,
+            keyword: 'required',
+            message: `Required property "${key}" is missing`,
+            expected: 'present',
+            actual: undefined,
+          });
+        }
+      }
+    }
+
+    for (const [key, value] of Object.entries(obj)) {
+      const childPointer = `${pointer}/${escapePointerToken(key)}`;
+      if (properties[key]) {
+        violations.push(...validateNode(value, properties[key], childPointer));
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          pointer: childPointer,
+          keyword: 'additionalProperties',
+          message: `Property "${key}" is not documented`,
+          expected: undefined,
+          actual: describe(value),
+        });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        violations.push(...validateNode(value, schema.additionalProperties as JsonSchema, childPointer));
+      }
+    }
+
+    if (typeof schema.minProperties === 'number' && Object.keys(obj).length < schema.minProperties) {
+      add('minProperties', `Object has fewer than ${schema.minProperties} properties`, schema.minProperties, Object.keys(obj).length);
+    }
+    if (typeof schema.maxProperties === 'number' && Object.keys(obj).length > schema.maxProperties) {
+      add('maxProperties', `Object has more than ${schema.maxProperties} properties`, schema.maxProperties, Object.keys(obj).length);
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Endpoint, JsonSchema } from '@/types';
+import { diffSpecs } from './spec-diff.js';
+
+function itemSchema(withTags: boolean): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      ...(withTags ? { tags: { type: 'array', items: { type: 'string' } } } : {}),
+    },
+  };
+}
+
+/**
+ * POST /items and PUT /items/{id} with one schema object for the request and
+ * response body, as a dereferenced spec has it for a shared component
+ */
+function itemEndpoints(item: JsonSchema): Endpoint[] {
+  return [
+    {
+      method: 'POST',
+      path: '/items',
+      requestSchemas: { 'application/json': item },
+      responseSchemas: { '201': { 'application/json': item } },
+      responses: { '201': {} },
+    },
+    {
+      method: 'PUT',
+      path: '/items/{id}',
+      requestSchemas: { 'application/json': item },
+      responseSchemas: { '200': { 'application/json': item } },
+      responses: { '200': {} },
+    },
+  ];
+}
+
+test('a schema shared by the request and response body is diffed for both', () => {
+  const result = diffSpecs(itemEndpoints(itemSchema(true)), itemEndpoints(itemSchema(false)));
+
+  for (const [endpoint, status] of [['POST /items', '201'], ['PUT /items/{id}', '200']]) {
+    const removed = result.changes.filter(c => c.endpoint === endpoint && c.location.endsWith('/tags'));
+    assert.deepEqual(
+      removed.map(c => [c.severity, c.location]).sort(),
+      [
+        ['breaking', `response ${status} application/json /tags`],
+        ['non-breaking', 'request body application/json /tags'],
+      ],
+      endpoint
+    );
+  }
+});
+
+test('circular schemas are diffed without recursing forever', () => {
+  const oldNode: JsonSchema = { type: 'object', properties: { name: { type: 'string' } } };
+  (oldNode.properties as Record<string, JsonSchema>).children = { type: 'array', items: oldNode };
+  const newNode: JsonSchema = { type: 'object', properties: {} };
+  (newNode.properties as Record<string, JsonSchema>).children = { type: 'array', items: newNode };
+
+  const endpoint = (node: JsonSchema): Endpoint[] => [
+    { method: 'GET', path: '/nodes', responseSchemas: { '200': { 'application/json': node } }, responses: { '200': {} } },
+  ];
+  const result = diffSpecs(endpoint(oldNode), endpoint(newNode));
+
+  assert.deepEqual(
+    result.changes.map(c => c.location),
+    ['response 200 application/json /name']
+  );
+});
+
+test('a sub-schema used at two pointers is diffed at both', () => {
+  const address = (zipType: string): JsonSchema => ({ type: 'object', properties: { zip: { type: zipType } } });
+  const endpoint = (shared: JsonSchema): Endpoint[] => [
+    {
+      method: 'GET',
+      path: '/customers/{id}',
+      responseSchemas: { '200': { 'application/json': { type: 'object', properties: { billing: shared, shipping: shared } } } },
+      responses: { '200': {} },
+    },
+  ];
+  const result = diffSpecs(endpoint(address('string')), endpoint(address('integer')));
+
+  assert.deepEqual(
+    result.changes.map(c => [c.rule, c.location]).sort(),
+    [
+      ['type-changed', 'response 200 application/json /billing/zip'],
+      ['type-changed', 'response 200 application/json /shipping/zip'],
+    ]
+  );
+});
@@ -0,0 +1,611 @@
+/**
+ * Spec Diff
+ *
+ * Compares two parsed (and dereferenced) OpenAPI specs and classifies every
+ * change by its impact on existing clients:
+ * - breaking:     existing clients may fail (endpoint removed, required
+ *                 parameter added, response field removed, enum narrowed, ...)
+ * - non-breaking: additive or relaxing changes (endpoint added, optional
+ *                 parameter added, response field added, ...)
+ * - info:         documentation-only changes (summary, deprecation, ...)
+ *
+ * Direction matters for schemas: narrowing what a client may SEND (request
+ * bodies and parameters) is breaking, while widening what a client may
+ * RECEIVE (response bodies) is breaking.
+ */
+
+import { Endpoint, JsonSchema } from '@/types';
+
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'info';
+
+export interface SpecChange {
+  severity: ChangeSeverity;
+  /** Stable identifier of the check, e.g. "endpoint-removed" */
+  rule: string;
+  /** Affected endpoint, e.g. "GET /api/v2/systems" */
+  endpoint: string;
+  /** Where in the endpoint the change is, e.g. "response 200 application/json /items[]/name" */
+  location: string;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SpecDiffResult {
+  changes: SpecChange[];
+  /** Every endpoint present in either spec, e.g. "GET /api/v2/systems" */
+  endpoints: string[];
+  breaking: number;
+  nonBreaking: number;
+  info: number;
+}
+
+type Direction = 'request' | 'response';
+
+interface DiffContext {
+  endpoint: string;
+  changes: SpecChange[];
+}
+
+/**
+ * Context of one schema traversal (a parameter, request body or response body).
+ * `ancestors` holds the (old, new) pairs on the path from the root, only to
+ * break cycles: a schema shared by the request and response, or used at two
+ * pointers, is compared in full at each of them.
+ */
+interface SchemaContext extends DiffContext {
+  ancestors: WeakMap<object, WeakSet<object>>;
+}
+
+const MAX_SCHEMA_DEPTH = 20;
+
+/**
+ * Diff two endpoint lists (as produced by parseSwaggerSpec)
+ */
+export function diffSpecs(oldEndpoints: Endpoint[], newEndpoints: Endpoint[]): SpecDiffResult {
+  const changes: SpecChange[] = [];
+  const oldByKey = indexEndpoints(oldEndpoints);
+  const newByKey = indexEndpoints(newEndpoints);
+  const endpoints = new Set<string>();
+
+  for (const [key, oldEndpoint] of oldByKey) {
+    const newEndpoint = newByKey.get(key);
+
+    if (!newEndpoint) {
+      const name = endpointName(oldEndpoint);
+      endpoints.add(name);
+      changes.push({
+        severity: 'breaking',
+        rule: 'endpoint-removed',
+        endpoint: name,
+        location: 'endpoint',
+        message: 'Endpoint was removed',
+      });
+      continue;
+    }
+
+    // Matched endpoints are reported under their new name
+    const name = endpointName(newEndpoint);
+    endpoints.add(name);
+    diffEndpoint(oldEndpoint, newEndpoint, { endpoint: name, changes });
+  }
+
+  for (const [key, newEndpoint] of newByKey) {
+    if (oldByKey.has(key)) continue;
+    const name = endpointName(newEndpoint);
+    endpoints.add(name);
+    changes.push({
+      severity: 'non-breaking',
+      rule: 'endpoint-added',
+      endpoint: name,
+      location: 'endpoint',
+      message: 'Endpoint was added',
+    });
+  }
+
+  return {
+    changes,
+    endpoints: Array.from(endpoints).sort(),
+    breaking: changes.filter(c => c.severity === 'breaking').length,
+    nonBreaking: changes.filter(c => c.severity === 'non-breaking').length,
+    info: changes.filter(c => c.severity === 'info').length,
+  };
+}
+
+/**
+ * "METHOD /path" label for an endpoint
+ */
+export function endpointName(endpoint: Endpoint): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+/**
+ * Index endpoints by method and path, ignoring path parameter names
+ * so /systems/{id} and /systems/{system} are the same endpoint.
+ */
+function indexEndpoints(endpoints: Endpoint[]): Map<string, Endpoint> {
+  const index = new Map<string, Endpoint>();
+  for (const endpoint of endpoints) {
+    index.set(`${endpoint.method} ${endpoint.path.replace(/\{[^}]+\}/g, '{}')}`, endpoint);
+  }
+  return index;
+}
+
+function diffEndpoint(oldEndpoint: Endpoint, newEndpoint: Endpoint, ctx: DiffContext): void {
+  const add = (change: Omit<SpecChange, 'endpoint'>) => ctx.changes.push({ endpoint: ctx.endpoint, ...change });
+
+  if (oldEndpoint.path !== newEndpoint.path) {
+    add({
+      severity: 'info',
+      rule: 'path-parameter-renamed',
+      location: 'path',
+      message: 'Path parameter names changed',
+      before: oldEndpoint.path,
+      after: newEndpoint.path,
+    });
+  }
+
+  if ((oldEndpoint.operationId || '') !== (newEndpoint.operationId || '')) {
+    add({
+      severity: 'info',
+      rule: 'operation-id-changed',
+      location: 'operationId',
+      message: 'operationId changed (generated clients may need regenerating)',
+      before: oldEndpoint.operationId,
+      after: newEndpoint.operationId,
+    });
+  }
+
+  if ((oldEndpoint.summary || '') !== (newEndpoint.summary || '')) {
+    add({
+      severity: 'info',
+      rule: 'summary-changed',
+      location: 'summary',
+      message: 'Summary changed',
+      before: oldEndpoint.summary,
+      after: newEndpoint.summary,
+    });
+  }
+
+  diffParameters(oldEndpoint, newEndpoint, ctx);
+  diffRequestBody(oldEndpoint, newEndpoint, ctx);
+  diffResponses(oldEndpoint, newEndpoint, ctx);
+}
+
+function diffParameters(oldEndpoint: Endpoint, newEndpoint: Endpoint, ctx: DiffContext): void {
+  const add = (change: Omit<SpecChange, 'endpoint'>) => ctx.changes.push({ endpoint: ctx.endpoint, ...change });
+  const oldParams = indexParameters(oldEndpoint);
+  const newParams = indexParameters(newEndpoint);
+
+  for (const [key, oldParam] of oldParams) {
+    const newParam = newParams.get(key);
+    const location = `parameter ${key}`;
+
+    if (!newParam) {
+      add({
+        severity: 'non-breaking',
+        rule: 'parameter-removed',
+        location,
+        message: 'Parameter was removed',
+      });
+      continue;
+    }
+
+    if (!oldParam.required && newParam.required) {
+      add({
+        severity: 'breaking',
+        rule: 'parameter-became-required',
+        location,
+        message: 'Optional parameter became required',
+        before: false,
+        after: true,
+      });
+    } else if (oldParam.required && !newParam.required) {
+      add({
+        severity: 'non-breaking',
+        rule: 'parameter-became-optional',
+        location,
+        message: 'Required parameter became optional',
+        before: true,
+        after: false,
+      });
+    }
+
+    diffSchema(parameterSchema(oldParam), parameterSchema(newParam), 'request', location, '', schemaContext(ctx), 0);
+  }
+
+  for (const [key, newParam] of newParams) {
+    if (oldParams.has(key)) continue;
+    add({
+      severity: newParam.required ? 'breaking' : 'non-breaking',
+      rule: newParam.required ? 'required-parameter-added' : 'optional-parameter-added',
+      location: `parameter ${key}`,
+      message: newParam.required ? 'Required parameter was added' : 'Optional parameter was added',
+    });
+  }
+}
+
+/**
+ * Index parameters by "in:name". Path parameters are indexed by position
+ * because renaming them does not affect clients.
+ */
+function indexParameters(endpoint: Endpoint): Map<string, Record<string, unknown>> {
+  const index = new Map<string, Record<string, unknown>>();
+  const pathParamNames = (endpoint.path.match(/\{[^}]+\}/g) || []).map(p => p.slice(1, -1));
+
+  for (const param of endpoint.parameters || []) {
+    const location = param.in as string | undefined;
+    const name = param.name as string | undefined;
+    if (!location || !name) continue;
+
+    if (location === 'path') {
+      const position = pathParamNames.indexOf(name);
+      index.set(`path:#${position === -1 ? name : position + 1}`, param);
+    } else {
+      index.set(`${location}:${location === 'header' ? name.toLowerCase() : name}`, param);
+    }
+  }
+  return index;
+}
+
+/**
+ * Schema of a parameter (OpenAPI 3 `schema`, or the inline Swagger 2.0 form)
+ */
+function parameterSchema(param: Record<string, unknown>): JsonSchema | undefined {
+  if (param.schema && typeof param.schema === 'object') {
+    return param.schema as JsonSchema;
+  }
+  return param.type ? param as JsonSchema : undefined;
+}
+
+function diffRequestBody(oldEndpoint: Endpoint, newEndpoint: Endpoint, ctx: DiffContext): void {
+  const add = (change: Omit<SpecChange, 'endpoint'>) => ctx.changes.push({ endpoint: ctx.endpoint, ...change });
+  const oldRequired = oldEndpoint.requestBody?.required === true;
+  const newRequired = newEndpoint.requestBody?.required === true;
+
+  if (!oldEndpoint.requestBody && newEndpoint.requestBody) {
+    add({
+      severity: newRequired ? 'breaking' : 'non-breaking',
+      rule: newRequired ? 'required-request-body-added' : 'request-body-added',
+      location: 'request body',
+      message: newRequired ? 'Required request body was added' : 'Optional request body was added',
+    });
+    return;
+  }
+
+  if (oldEndpoint.requestBody && !newEndpoint.requestBody) {
+    add({
+      severity: 'non-breaking',
+      rule: 'request-body-removed',
+      location: 'request body',
+      message: 'Request body was removed',
+    });
+    return;
+  }
+
+  if (!oldRequired && newRequired) {
+    add({
+      severity: 'breaking',
+      rule: 'request-body-became-required',
+      location: 'request body',
+      message: 'Optional request body became required',
+    });
+  }
+
+  const oldSchemas = oldEndpoint.requestSchemas || {};
+  const newSchemas = newEndpoint.requestSchemas || {};
+
+  for (const [contentType, oldSchema] of Object.entries(oldSchemas)) {
+    const location = `request body ${contentType}`;
+    if (!newSchemas[contentType]) {
+      add({
+        severity: 'breaking',
+        rule: 'request-content-type-removed',
+        location,
+        message: `Request content type ${contentType} is no longer accepted`,
+      });
+      continue;
+    }
+    diffSchema(oldSchema, newSchemas[contentType], 'request', location, '', schemaContext(ctx), 0);
+  }
+
+  for (const contentType of Object.keys(newSchemas)) {
+    if (oldSchemas[contentType]) continue;
+    add({
+      severity: 'non-breaking',
+      rule: 'request-content-type-added',
+      location: `request body ${contentType}`,
+      message: `Request content type ${contentType} is now accepted`,
+    });
+  }
+}
+
+function diffResponses(oldEndpoint: Endpoint, newEndpoint: Endpoint, ctx: DiffContext): void {
+  const add = (change: Omit<SpecChange, 'endpoint'>) => ctx.changes.push({ endpoint: ctx.endpoint, ...change });
+  const oldResponses = oldEndpoint.responses || {};
+  const newResponses = newEndpoint.responses || {};
+
+  for (const status of Object.keys(oldResponses)) {
+    if (status in newResponses) continue;
+    const success = status.startsWith('2');
+    add({
+      severity: success ? 'breaking' : 'non-breaking',
+      rule: success ? 'success-response-removed' : 'response-removed',
+      location: `response ${status}`,
+      message: `Response ${status} is no longer documented`,
+    });
+  }
+
+  for (const status of Object.keys(newResponses)) {
+    if (status in oldResponses) continue;
+    add({
+      severity: 'non-breaking',
+      rule: 'response-added',
+      location: `response ${status}`,
+      message: `Response ${status} was added`,
+    });
+  }
+
+  const oldSchemas = oldEndpoint.responseSchemas || {};
+  const newSchemas = newEndpoint.responseSchemas || {};
+
+  for (const [status, oldByType] of Object.entries(oldSchemas)) {
+    const newByType = newSchemas[status];
+    if (!newByType) {
+      if (status in newResponses) {
+        add({
+          severity: 'breaking',
+          rule: 'response-body-removed',
+          location: `response ${status}`,
+          message: `Response ${status} no longer has a body schema`,
+        });
+      }
+      continue;
+    }
+
+    for (const [contentType, oldSchema] of Object.entries(oldByType)) {
+      const location = `response ${status} ${contentType}`;
+      if (!newByType[contentType]) {
+        add({
+          severity: 'breaking',
+          rule: 'response-content-type-removed',
+          location,
+          message: `Response content type ${contentType} was removed`,
+        });
+        continue;
+      }
+      diffSchema(oldSchema, newByType[contentType], 'response', location, '', schemaContext(ctx), 0);
+    }
+  }
+}
+
+/**
+ * Flatten allOf into a single schema so composed schemas diff property by property
+ */
+function flattenSchema(schema: JsonSchema): JsonSchema {
+  if (!Array.isArray(schema.allOf)) {
+    return schema;
+  }
+
+  const flat: JsonSchema = { ...schema };
+  delete flat.allOf;
+  const properties: Record<string, JsonSchema> = { ...((schema.properties || {}) as Record<string, JsonSchema>) };
+  const required = new Set<string>((schema.required || []) as string[]);
+
+  for (const part of schema.allOf as JsonSchema[]) {
+    const flatPart = flattenSchema(part);
+    Object.assign(properties, flatPart.properties || {});
+    for (const key of (flatPart.required || []) as string[]) required.add(key);
+    if (flatPart.type && !flat.type) flat.type = flatPart.type;
+  }
+
+  flat.properties = properties;
+  flat.required = Array.from(required);
+  return flat;
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  if (Array.isArray(schema.type)) return [...schema.type as string[]].sort();
+  return schema.type ? [schema.type as string] : [];
+}
+
+function isNullable(schema: JsonSchema): boolean {
+  return schema.nullable === true || schema['x-nullable'] === true || schemaTypes(schema).includes('null');
+}
+
+function schemaContext(ctx: DiffContext): SchemaContext {
+  return { ...ctx, ancestors: new WeakMap() };
+}
+
+function diffSchema(
+  oldSchema: JsonSchema | undefined,
+  newSchema: JsonSchema | undefined,
+  direction: Direction,
+  location: string,
+  pointer: string,
+  ctx: SchemaContext,
+  depth: number
+): void {
+  if (!oldSchema || !newSchema || depth > MAX_SCHEMA_DEPTH) return;
+
+  // Circular schemas: stop where the pair is already being compared further up
+  const ancestorsOfOld = ctx.ancestors.get(oldSchema) || new WeakSet<object>();
+  if (ancestorsOfOld.has(newSchema)) return;
+  ancestorsOfOld.add(newSchema);
+  ctx.ancestors.set(oldSchema, ancestorsOfOld);
+  try {
+    compareSchemas(oldSchema, newSchema, direction, location, pointer, ctx, depth);
+  } finally {
+    ancestorsOfOld.delete(newSchema);
+  }
+}
+
+function compareSchemas(
+  oldSchema: JsonSchema,
+  newSchema: JsonSchema,
+  direction: Direction,
+  location: string,
+  pointer: string,
+  ctx: SchemaContext,
+  depth: number
+): void {
+  const oldFlat = flattenSchema(oldSchema);
+  const newFlat = flattenSchema(newSchema);
+  const where = pointer ? `${location} ${pointer}` : location;
+  const add = (change: Omit<SpecChange, 'endpoint' | 'location'>) =>
+    ctx.changes.push({ endpoint: ctx.endpoint, location: where, ...change });
+
+  // Type
+  const oldTypes = schemaTypes(oldFlat).filter(t => t !== 'null');
+  const newTypes = schemaTypes(newFlat).filter(t => t !== 'null');
+  if (oldTypes.length > 0 && newTypes.length > 0 && oldTypes.join('|') !== newTypes.join('|')) {
+    const widened = direction === 'request' && oldTypes.every(t => newTypes.includes(t) || (t === 'integer' && newTypes.includes('number')));
+    add({
+      severity: widened ? 'non-breaking' : 'breaking',
+      rule: 'type-changed',
+      message: `Type changed from ${oldTypes.join(' | ')} to ${newTypes.join(' | ')}`,
+      before: oldTypes.join(' | '),
+      after: newTypes.join(' | '),
+    });
+    return;
+  }
+
+  // Nullability
+  const oldNullable = isNullable(oldFlat);
+  const newNullable = isNullable(newFlat);
+  if (oldNullable !== newNullable) {
+    const breaking = direction === 'request' ? oldNullable && !newNullable : !oldNullable && newNullable;
+    add({
+      severity: breaking ? 'breaking' : 'non-breaking',
+      rule: newNullable ? 'became-nullable' : 'became-non-nullable',
+      message: newNullable ? 'Value may now be null' : 'Value may no longer be null',
+      before: oldNullable,
+      after: newNullable,
+    });
+  }
+
+  // Enum
+  if (Array.isArray(oldFlat.enum) || Array.isArray(newFlat.enum)) {
+    const oldValues = Array.isArray(oldFlat.enum) ? oldFlat.enum as unknown[] : null;
+    const newValues = Array.isArray(newFlat.enum) ? newFlat.enum as unknown[] : null;
+    const removed = oldValues && newValues ? oldValues.filter(v => !newValues.includes(v)) : [];
+    const added = oldValues && newValues ? newValues.filter(v => !oldValues.includes(v)) : [];
+
+    if (oldValues && !newValues) {
+      add({
+        severity: direction === 'request' ? 'non-breaking' : 'breaking',
+        rule: 'enum-removed',
+        message: 'Enum restriction was removed',
+        before: oldValues,
+      });
+    } else if (!oldValues && newValues) {
+      add({
+        severity: direction === 'request' ? 'breaking' : 'non-breaking',
+        rule: 'enum-added',
+        message: 'Value is now restricted to an enum',
+        after: newValues,
+      });
+    }
+    if (removed.length > 0) {
+      add({
+        severity: direction === 'request' ? 'breaking' : 'non-breaking',
+        rule: 'enum-narrowed',
+        message: `Enum value(s) removed: ${removed.map(v => JSON.stringify(v)).join(', ')}`,
+        before: oldValues,
+        after: newValues,
+      });
+    }
+    if (added.length > 0) {
+      add({
+        severity: direction === 'request' ? 'non-breaking' : 'breaking',
+        rule: 'enum-widened',
+        message: `Enum value(s) added: ${added.map(v => JSON.stringify(v)).join(', ')}`,
+        before: oldValues,
+        after: newValues,
+      });
+    }
+  }
+
+  // Request constraints that got tighter reject previously valid input
+  if (direction === 'request') {
+    const tightened = (keyword: string, isTighter: (o: number, n: number) => boolean) => {
+      const o = oldFlat[keyword];
+      const n = newFlat[keyword];
+      if (typeof n === 'number' && (typeof o !== 'number' || isTighter(o, n))) {
+        add({
+          severity: 'breaking',
+          rule: 'constraint-tightened',
+          message: `${keyword} tightened from ${o ?? 'none'} to ${n}`,
+          before: o,
+          after: n,
+        });
+      }
+    };
+    tightened('maxLength', (o, n) => n < o);
+    tightened('minLength', (o, n) => n > o);
+    tightened('maximum', (o, n) => n < o);
+    tightened('minimum', (o, n) => n > o);
+    tightened('maxItems', (o, n) => n < o);
+    tightened('minItems', (o, n) => n > o);
+  }
+
+  // Object properties
+  const oldProps = (oldFlat.properties || {}) as Record<string, JsonSchema>;
+  const newProps = (newFlat.properties || {}) as Record<string, JsonSchema>;
+  const oldRequired = new Set((oldFlat.required || []) as string[]);
+  const newRequired = new Set((newFlat.required || []) as string[]);
+
+  for (const [key, oldProp] of Object.entries(oldProps)) {
+    const childPointer = `${pointer}/${key}`;
+    const childWhere = `${location} ${childPointer}`;
+
+    if (!(key in newProps)) {
+      ctx.changes.push({
+        endpoint: ctx.endpoint,
+        location: childWhere,
+        severity: direction === 'response' ? 'breaking' : 'non-breaking',
+        rule: direction === 'response' ? 'response-property-removed' : 'request-property-removed',
+        message: `Property "${key}" was removed`,
+      });
+      continue;
+    }
+
+    if (direction === 'request' && !oldRequired.has(key) && newRequired.has(key)) {
+      ctx.changes.push({
+        endpoint: ctx.endpoint,
+        location: childWhere,
+        severity: 'breaking',
+        rule: 'request-property-became-required',
+        message: `Property "${key}" became required`,
+      });
+    }
+    if (direction === 'response' && oldRequired.has(key) && !newRequired.has(key)) {
+      ctx.changes.push({
+        endpoint: ctx.endpoint,
+        location: childWhere,
+        severity: 'breaking',
+        rule: 'response-property-became-optional',
+        message: `Property "${key}" is no longer guaranteed to be present`,
+      });
+    }
+
+    diffSchema(oldProp, newProps[key], direction, location, childPointer, ctx, depth + 1);
+  }
+
+  for (const key of Object.keys(newProps)) {
+    if (key in oldProps) continue;
+    const requiredAdded = direction === 'request' && newRequired.has(key);
+    ctx.changes.push({
+      endpoint: ctx.endpoint,
+      location: `${location} ${pointer}/${key}`,
+      severity: requiredAdded ? 'breaking' : 'non-breaking',
+      rule: requiredAdded ? 'request-required-property-added' : `${direction}-property-added`,
+      message: requiredAdded ? `Required property "${key}" was added` : `Property "${key}" was added`,
+    });
+  }
+
+  // Array items
+  if (oldFlat.items && newFlat.items && typeof oldFlat.items === 'object' && typeof newFlat.items === 'object') {
+    diffSchema(oldFlat.items as JsonSchema, newFlat.items as JsonSchema, direction, location, `${pointer}[]`, ctx, depth + 1);
+  }
+}
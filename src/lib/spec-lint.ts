@@ -0,0 +1,226 @@
+/**
+ * Spec Lint
+ *
+ * Checks a parsed spec for contract-quality problems that otherwise end up as
+ * hardcoded workarounds in the test suite (DEFAULT_QUERY_PARAMS, PARAMETER_MAPPING):
+ * missing or duplicate operationIds, operations without a 2xx response schema,
+ * undocumented path parameters, inconsistent path parameter names, and required
+ * query parameters without an example.
+ *
+ * Every rule has a default severity that can be overridden per rule.
+ */
+
+import { Endpoint } from '@/types';
+
+export type LintSeverity = 'error' | 'warn' | 'off';
+
+export interface LintRule {
+  description: string;
+  defaultSeverity: LintSeverity;
+}
+
+export interface LintIssue {
+  rule: string;
+  severity: Exclude<LintSeverity, 'off'>;
+  /** Affected endpoint, e.g. "GET /api/v2/systems" */
+  endpoint: string;
+  message: string;
+}
+
+export interface LintResult {
+  issues: LintIssue[];
+  /** Every linted endpoint, e.g. "GET /api/v2/systems" */
+  endpoints: string[];
+  errors: number;
+  warnings: number;
+}
+
+export const LINT_RULES: Record<string, LintRule> = {
+  'operation-id-missing': {
+    description: 'Every operation should have an operationId',
+    defaultSeverity: 'warn',
+  },
+  'operation-id-duplicate': {
+    description: 'operationIds must be unique',
+    defaultSeverity: 'error',
+  },
+  'success-response-schema-missing': {
+    description: 'Operations should document a 2xx response with a schema',
+    defaultSeverity: 'warn',
+  },
+  'path-parameter-undocumented': {
+    description: 'Path template parameters and documented path parameters must match',
+    defaultSeverity: 'error',
+  },
+  'path-parameter-naming-inconsistent': {
+    description: 'The same resource should use the same path parameter name everywhere (e.g. across versions)',
+    defaultSeverity: 'warn',
+  },
+  'required-query-param-example-missing': {
+    description: 'Required query parameters should have an example, default or enum',
+    defaultSeverity: 'warn',
+  },
+};
+
+/**
+ * Lint endpoints (as produced by parseSwaggerSpec)
+ * @param severities - Per-rule severity overrides
+ */
+export function lintSpec(
+  endpoints: Endpoint[],
+  severities: Record<string, LintSeverity> = {}
+): LintResult {
+  for (const rule of Object.keys(severities)) {
+    if (!LINT_RULES[rule]) {
+      throw new Error(`Unknown lint rule "${rule}" (available: ${Object.keys(LINT_RULES).join(', ')})`);
+    }
+  }
+
+  const issues: LintIssue[] = [];
+  const report = (rule: string, endpoint: Endpoint, message: string) => {
+    const severity = severities[rule] || LINT_RULES[rule].defaultSeverity;
+    if (severity === 'off') return;
+    issues.push({ rule, severity, endpoint: `${endpoint.method} ${endpoint.path}`, message });
+  };
+
+  checkOperationIds(endpoints, report);
+  for (const endpoint of endpoints) {
+    checkSuccessResponse(endpoint, report);
+    checkPathParameters(endpoint, report);
+    checkRequiredQueryExamples(endpoint, report);
+  }
+  checkPathParameterNaming(endpoints, report);
+
+  return {
+    issues,
+    endpoints: endpoints.map(e => `${e.method} ${e.path}`).sort(),
+    errors: issues.filter(i => i.severity === 'error').length,
+    warnings: issues.filter(i => i.severity === 'warn').length,
+  };
+}
+
+type Report = (rule: string, endpoint: Endpoint, message: string) => void;
+
+function checkOperationIds(endpoints: Endpoint[], report: Report): void {
+  const byOperationId = new Map<string, Endpoint[]>();
+
+  for (const endpoint of endpoints) {
+    if (!endpoint.operationId) {
+      report('operation-id-missing', endpoint, 'Operation has no operationId');
+      continue;
+    }
+    const existing = byOperationId.get(endpoint.operationId) || [];
+    existing.push(endpoint);
+    byOperationId.set(endpoint.operationId, existing);
+  }
+
+  for (const [operationId, duplicates] of byOperationId) {
+    if (duplicates.length < 2) continue;
+    for (const endpoint of duplicates) {
+      const others = duplicates.filter(d => d !== endpoint).map(d => `${d.method} ${d.path}`);
+      report('operation-id-duplicate', endpoint, `operationId "${operationId}" is also used by ${others.join(', ')}`);
+    }
+  }
+}
+
+function checkSuccessResponse(endpoint: Endpoint, report: Report): void {
+  const statuses = Object.keys(endpoint.responses || {});
+  const successStatuses = statuses.filter(status => /^2(\d\d|XX)$/i.test(status));
+
+  if (successStatuses.length === 0) {
+    if (!statuses.includes('default')) {
+      report('success-response-schema-missing', endpoint, 'No 2xx response is documented');
+    }
+    return;
+  }
+
+  // Bodyless successes are fine (204 No Content, 205 Reset Content, DELETE)
+  if (endpoint.method === 'DELETE' || successStatuses.some(status => status === '204' || status === '205')) {
+    return;
+  }
+
+  const schemas = endpoint.responseSchemas || {};
+  if (!successStatuses.some(status => schemas[status])) {
+    report('success-response-schema-missing', endpoint, `2xx response (${successStatuses.join(', ')}) has no schema`);
+  }
+}
+
+function checkPathParameters(endpoint: Endpoint, report: Report): void {
+  const templateNames = (endpoint.path.match(/\{[^}]+\}/g) || []).map(p => p.slice(1, -1));
+  const documented = (endpoint.parameters || [])
+    .filter(param => param.in === 'path')
+    .map(param => param.name as string);
+
+  for (const name of templateNames) {
+    if (!documented.includes(name)) {
+      report('path-parameter-undocumented', endpoint, `Path parameter {${name}} is not documented`);
+    }
+  }
+  for (const name of documented) {
+    if (!templateNames.includes(name)) {
+      report('path-parameter-undocumented', endpoint, `Path parameter "${name}" is documented but not in the path template`);
+    }
+  }
+}
+
+/**
+ * Compare the parameter name used after each literal segment across all paths,
+ * e.g. /api/v2/sourcefiles/{sourcefile} vs /api/v3/sourcefiles/{sourceFilename}
+ */
+function checkPathParameterNaming(endpoints: Endpoint[], report: Report): void {
+  // segment -> parameter name -> endpoints using it
+  const usage = new Map<string, Map<string, Endpoint[]>>();
+
+  for (const endpoint of endpoints) {
+    const segments = endpoint.path.split('/').filter(Boolean);
+    segments.forEach((segment, index) => {
+      const paramMatch = segment.match(/^\{([^}]+)\}$/);
+      const previous = segments[index - 1];
+      if (!paramMatch || !previous || previous.includes('{')) return;
+
+      const key = previous.toLowerCase();
+      const names = usage.get(key) || new Map<string, Endpoint[]>();
+      const users = names.get(paramMatch[1]) || [];
+      users.push(endpoint);
+      names.set(paramMatch[1], users);
+      usage.set(key, names);
+    });
+  }
+
+  const pathCount = (users: Endpoint[]) => new Set(users.map(e => e.path)).size;
+
+  for (const [segment, names] of usage) {
+    if (names.size < 2) continue;
+    const ranked = Array.from(names.entries()).sort((a, b) => pathCount(b[1]) - pathCount(a[1]) || a[0].localeCompare(b[0]));
+    const [preferred, preferredUsers] = ranked[0];
+
+    for (const [name, users] of ranked.slice(1)) {
+      report(
+        'path-parameter-naming-inconsistent',
+        users[0],
+        `/${segment}/{${name}} is used by ${pathCount(users)} path(s), but ${pathCount(preferredUsers)} path(s) use /${segment}/{${preferred}}`
+      );
+    }
+  }
+}
+
+function checkRequiredQueryExamples(endpoint: Endpoint, report: Report): void {
+  for (const param of endpoint.parameters || []) {
+    if (param.in !== 'query' || param.required !== true) continue;
+    if (!hasExampleValue(param)) {
+      report('required-query-param-example-missing', endpoint, `Required query parameter "${param.name}" has no example, default or enum`);
+    }
+  }
+}
+
+function hasExampleValue(param: Record<string, unknown>): boolean {
+  const schema = (param.schema || {}) as Record<string, unknown>;
+  const candidates = [param, schema];
+  return candidates.some(source =>
+    source.example !== undefined ||
+    source['x-example'] !== undefined ||
+    source.default !== undefined ||
+    (Array.isArray(source.enum) && source.enum.length > 0) ||
+    (Array.isArray(source.examples) ? source.examples.length > 0 : !!source.examples && Object.keys(source.examples).length > 0)
+  );
+}
@@ -0,0 +1,296 @@
+/**
+ * Spec Loader
+ *
+ * Loads an OpenAPI/Swagger document from any of the sources the CLI accepts:
+ * - HTTP(S) URL:  https://api.example.com/swagger.json
+ * - file:// URL:  file:///repo/openapi.yaml
+ * - Local path:   ./openapi.yaml, specs/api.json
+ * - Stdin:        -
+ *
+ * Both JSON and YAML documents are supported. File and stdin sources are
+ * only available in Node.js (CLI); the browser can only load URLs.
+ *
+ * URL fetches are retried with exponential backoff on network errors, 408, 429
+ * and 5xx. In Node.js every fetched document is cached on disk (SPEC_CACHE_DIR,
+ * default .gate-cache/specs), and the last cached copy is used when the host
+ * stays unavailable after all retries.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { createAxiosInstance } from './utils.js';
+import { instrumentClient } from './har.js';
+
+const axios = instrumentClient(createAxiosInstance());
+
+export type SpecSourceKind = 'url' | 'file' | 'stdin';
+
+/**
+ * How URL sources are fetched
+ */
+export interface SpecFetchOptions {
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Extra query parameters, e.g. an API key sent in the query */
+  params?: Record<string, string>;
+  /** https.Agent presenting an mTLS client certificate (Node.js only) */
+  httpsAgent?: unknown;
+  /** Retries after a transient failure (network error, 408, 429, 5xx). Default: 3 */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for every further retry. Default: 1000 */
+  retryDelay?: number;
+  /** Cache fetched documents on disk and fall back to them (Node.js only). Default: true */
+  cache?: boolean;
+}
+
+export interface LoadedSpec {
+  /** Parsed OpenAPI/Swagger document */
+  spec: Record<string, unknown>;
+  /** Normalized source: the URL, the absolute file path, or "-" for stdin */
+  source: string;
+  /** What kind of source the spec was loaded from */
+  kind: SpecSourceKind;
+}
+
+/**
+ * Determine what kind of source a spec location refers to
+ */
+export function getSpecSourceKind(source: string): SpecSourceKind {
+  if (source === '-') {
+    return 'stdin';
+  }
+  if (/^https?:\/\//i.test(source)) {
+    return 'url';
+  }
+  return 'file';
+}
+
+/**
+ * Check if a spec source is fetched over the network
+ */
+export function isRemoteSpecSource(source: string): boolean {
+  return getSpecSourceKind(source) === 'url';
+}
+
+/**
+ * Parse raw document content as JSON or YAML
+ * Used for specs as well as externally referenced schema files.
+ * @param content - Raw document text
+ * @param source - Source used in error messages
+ */
+export function parseDocumentContent(content: string, source: string = 'spec'): Record<string, unknown> {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    throw new Error(`Document is empty: ${source}`);
+  }
+
+  let parsed: unknown;
+
+  // JSON is the common case - try it first, then fall back to YAML
+  if (trimmed.startsWith('{')) {
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      parsed = undefined;
+    }
+  }
+
+  if (parsed === undefined) {
+    try {
+      parsed = parseYaml(trimmed);
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new Error(`Document is neither valid JSON nor YAML (${source}): ${err.message}`);
+    }
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Document is not a JSON/YAML object: ${source}`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Parse raw spec content as JSON or YAML and check it looks like OpenAPI/Swagger
+ * @param content - Raw document text
+ * @param source - Source used in error messages
+ */
+export function parseSpecContent(content: string, source: string = 'spec'): Record<string, unknown> {
+  const doc = parseDocumentContent(content, source);
+  if (!doc.openapi && !doc.swagger && !doc.paths) {
+    throw new Error(`Spec is not an OpenAPI/Swagger document (no "openapi", "swagger" or "paths" key): ${source}`);
+  }
+  return doc;
+}
+
+/**
+ * Load and parse a spec from a URL, file path, file:// URL or stdin
+ */
+export async function loadSpec(source: string, fetchOptions: SpecFetchOptions = {}): Promise<LoadedSpec> {
+  const { content, source: normalized, kind } = await readSource(source, fetchOptions);
+  return { spec: parseSpecContent(content, normalized), source: normalized, kind };
+}
+
+/**
+ * Load and parse any JSON/YAML document (e.g. an external $ref target)
+ */
+export async function loadDocument(source: string, fetchOptions: SpecFetchOptions = {}): Promise<LoadedSpec> {
+  const { content, source: normalized, kind } = await readSource(source, fetchOptions);
+  return { spec: parseDocumentContent(content, normalized), source: normalized, kind };
+}
+
+/**
+ * Read the raw text of a source
+ */
+async function readSource(
+  source: string,
+  fetchOptions: SpecFetchOptions
+): Promise<{ content: string; source: string; kind: SpecSourceKind }> {
+  const kind = getSpecSourceKind(source);
+
+  if (kind === 'url') {
+    return { content: await fetchUrl(source, fetchOptions), source, kind };
+  }
+
+  if (typeof window !== 'undefined') {
+    throw new Error('Only HTTP(S) spec URLs can be loaded in the browser');
+  }
+
+  if (kind === 'stdin') {
+    return { content: await readStdin(), source, kind };
+  }
+
+  const filePath = await resolveSpecPath(source);
+  const { readFile } = await import('fs/promises');
+
+  try {
+    return { content: await readFile(filePath, 'utf-8'), source: filePath, kind };
+  } catch (error: unknown) {
+    const fsError = error as { code?: string; message?: string };
+    if (fsError.code === 'ENOENT') {
+      throw new Error(`Spec file not found: ${filePath}`);
+    }
+    throw new Error(`Failed to read spec file ${filePath}: ${fsError.message}`);
+  }
+}
+
+/**
+ * Fetch a URL with retries, keeping the on-disk cache up to date
+ */
+async function fetchUrl(url: string, fetchOptions: SpecFetchOptions): Promise<string> {
+  const retries = fetchOptions.retries ?? 3;
+  const retryDelay = fetchOptions.retryDelay ?? 1000;
+  const useCache = fetchOptions.cache !== false && typeof window === 'undefined';
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await axios.get(url, {
+        timeout: 60000,
+        headers: fetchOptions.headers,
+        params: fetchOptions.params,
+        ...(fetchOptions.httpsAgent ? { httpsAgent: fetchOptions.httpsAgent } : {}),
+        responseType: 'text',
+        // Keep the raw body so YAML documents are not mangled by JSON parsing
+        transformResponse: (data: unknown) => data,
+      });
+      const content = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+      if (useCache) {
+        await writeCachedCopy(url, content);
+      }
+      return content;
+    } catch (error: unknown) {
+      if (!isTransientError(error)) {
+        throw error;
+      }
+
+      if (attempt < retries) {
+        const delay = retryDelay * 2 ** attempt;
+        console.warn(`⚠️  Fetching ${url} failed (${describeError(error)}), retrying in ${delay}ms (${attempt + 1}/${retries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      const cached = useCache ? await readCachedCopy(url) : null;
+      if (cached) {
+        console.warn(`⚠️  ${url} is unavailable (${describeError(error)}) - using the cached copy from ${cached.cachedAt.toISOString()}`);
+        return cached.content;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Network errors, timeouts, 408, 429 and 5xx are worth retrying; other HTTP errors are not
+ */
+function isTransientError(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } }).response?.status;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+function describeError(error: unknown): string {
+  const axiosError = error as { response?: { status?: number }; code?: string; message?: string };
+  return axiosError.response?.status ? `HTTP ${axiosError.response.status}` : axiosError.code || axiosError.message || 'unknown error';
+}
+
+/**
+ * Cache file for a URL: <SPEC_CACHE_DIR>/<sha256 of the URL>
+ */
+async function getCachePath(url: string): Promise<string> {
+  const { createHash } = await import('crypto');
+  const { resolve } = await import('path');
+  const cacheDir = resolve(process.cwd(), process.env.SPEC_CACHE_DIR || '.gate-cache/specs');
+  return resolve(cacheDir, createHash('sha256').update(url).digest('hex'));
+}
+
+async function writeCachedCopy(url: string, content: string): Promise<void> {
+  try {
+    const { mkdir, writeFile } = await import('fs/promises');
+    const { dirname } = await import('path');
+    const cachePath = await getCachePath(url);
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, content, 'utf-8');
+  } catch {
+    // The cache is best effort - a read-only working directory must not break spec loading
+  }
+}
+
+async function readCachedCopy(url: string): Promise<{ content: string; cachedAt: Date } | null> {
+  try {
+    const { readFile, stat } = await import('fs/promises');
+    const cachePath = await getCachePath(url);
+    const [content, stats] = await Promise.all([readFile(cachePath, 'utf-8'), stat(cachePath)]);
+    return { content, cachedAt: stats.mtime };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a file path or file:// URL to an absolute path
+ */
+async function resolveSpecPath(source: string): Promise<string> {
+  const { resolve } = await import('path');
+
+  if (/^file:\/\//i.test(source)) {
+    const { fileURLToPath } = await import('url');
+    return fileURLToPath(source);
+  }
+
+  return resolve(process.cwd(), source);
+}
+
+/**
+ * Read all of stdin as UTF-8 text
+ */
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new Error('Spec source "-" requires the spec to be piped via stdin');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
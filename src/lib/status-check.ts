@@ -0,0 +1,107 @@
+/**
+ * Status Check
+ *
+ * Evaluates response status codes against an operation's documented
+ * `responses`. Every status has one of three outcomes:
+ * - documented-success: a documented 1xx-3xx response (e.g. 200, 204, "2XX")
+ * - documented-error:   a documented 4xx/5xx response (e.g. 404, "default" for a 500)
+ * - undocumented:       no response in the spec matches - a contract violation
+ *
+ * Per-endpoint overrides (`expectedStatus` in gate.config) replace the set of
+ * statuses a test accepts, e.g. `GET /api/v2/jobs/{id}: [200, 404]`.
+ */
+
+import { Endpoint, StatusOutcome } from '@/types';
+
+export interface StatusCheck {
+  status: number;
+  outcome: StatusOutcome;
+  /** The `responses` key that documents the status: "204", "2XX" or "default" */
+  documentedAs?: string;
+  /** All documented response status keys of the endpoint */
+  documentedStatuses: string[];
+  /** Statuses the endpoint is expected to return: the override, or the documented successes */
+  expectedStatuses: string[];
+  /** True when an expected-status override applies to the endpoint */
+  overridden: boolean;
+  /** Whether the status is acceptable for the test */
+  expected: boolean;
+}
+
+/**
+ * Documented response status keys of an endpoint, e.g. ["200", "404", "default"]
+ */
+export function getDocumentedStatuses(endpoint: Endpoint): string[] {
+  return Object.keys(endpoint.responses || {});
+}
+
+/**
+ * Find the `responses` key that documents a status: the exact code, its range ("2XX"), or "default"
+ */
+export function findDocumentedStatus(endpoint: Endpoint, status: number): string | undefined {
+  const keys = getDocumentedStatuses(endpoint);
+  const range = `${Math.floor(status / 100)}XX`;
+  return keys.find(key => key === String(status))
+    || keys.find(key => key.toUpperCase() === range)
+    || keys.find(key => key === 'default');
+}
+
+/**
+ * Classify a response status for an endpoint
+ * @param expectedStatus - Override: the statuses this endpoint is expected to return
+ */
+export function checkStatus(endpoint: Endpoint, status: number, expectedStatus?: number[]): StatusCheck {
+  const documentedStatuses = getDocumentedStatuses(endpoint);
+  const documentedAs = findDocumentedStatus(endpoint, status);
+  const outcome: StatusOutcome = !documentedAs
+    ? 'undocumented'
+    : status < 400 ? 'documented-success' : 'documented-error';
+  const overridden = Array.isArray(expectedStatus) && expectedStatus.length > 0;
+
+  if (overridden) {
+    return {
+      status,
+      outcome,
+      documentedAs,
+      documentedStatuses,
+      expectedStatuses: expectedStatus.map(String),
+      overridden,
+      expected: expectedStatus.includes(status),
+    };
+  }
+
+  return {
+    status,
+    outcome,
+    documentedAs,
+    documentedStatuses,
+    expectedStatuses: documentedStatuses.filter(key => /^[123]/.test(key)),
+    overridden,
+    // Operations without any documented responses keep the old behaviour: 2xx passes
+    expected: outcome === 'documented-success' || (documentedStatuses.length === 0 && status >= 200 && status < 300),
+  };
+}
+
+/**
+ * Whether a status breaks the contract: undocumented, or outside the expected-status override
+ */
+export function isStatusViolation(check: StatusCheck): boolean {
+  return check.overridden ? !check.expected : check.outcome === 'undocumented' && !check.expected;
+}
+
+/**
+ * Human readable description, e.g. "500 is not documented (documented: 200, 404)"
+ */
+export function describeStatusCheck(check: StatusCheck): string {
+  if (check.overridden && !check.expected) {
+    return `${check.status} is not an expected status (expected: ${check.expectedStatuses.join(', ')})`;
+  }
+  switch (check.outcome) {
+    case 'documented-success':
+      return `${check.status} is documented (${check.documentedAs})`;
+    case 'documented-error':
+      return `${check.status} is a documented error response (${check.documentedAs})`;
+    default:
+      return `${check.status} is not documented (documented: ${check.documentedStatuses.join(', ') || 'none'})`;
+  }
+}
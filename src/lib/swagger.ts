@@ -1,56 +1,112 @@
-import axios from 'axios';
-import { Endpoint, EndpointGroup } from '@/types';
-
-// HTTPS agent for Azure VM's self-signed certificate
-// This is required because pdq.swedencentral.cloudapp.azure.com
-// uses a self-signed or internal CA certificate
-// Can be overridden via NODE_TLS_REJECT_UNAUTHORIZED=0 or ACCEPT_SELF_SIGNED_CERT=true
-// Note: This only applies in Node.js (CLI). Browsers handle HTTPS certificates automatically.
-let httpsAgent: import('https').Agent | undefined;
-
-function getHttpsAgent() {
-  // Only configure HTTPS agent in Node.js environment (not browser)
-  if (typeof window === 'undefined' && typeof process !== 'undefined') {
-    if (!httpsAgent) {
-      try {
-        // Check if we're in Node.js and can access require
-        if (typeof require !== 'undefined') {
-          // eslint-disable-next-line @typescript-eslint/no-require-imports
-          const { createRequire } = require('module');
-          const nodeRequire = createRequire(import.meta.url);
-          const https = nodeRequire('https');
-          const rejectUnauthorized = process.env.NODE_TLS_REJECT_UNAUTHORIZED !== '0' 
-            && process.env.ACCEPT_SELF_SIGNED_CERT !== 'true';
-          httpsAgent = new https.Agent({
-            rejectUnauthorized: rejectUnauthorized,
-          });
-        }
-      } catch {
-        // https module not available (browser environment) - this is expected
-        // Browser will use default axios HTTPS handling
-      }
-    }
-  }
-  return httpsAgent;
+import { AuthConfig, Endpoint, EndpointGroup, JsonSchema } from '@/types';
+import { isRemoteSpecSource, loadSpec, SpecFetchOptions, SpecSourceKind } from './spec-loader.js';
+import { getAuthRequestOptions } from './auth.js';
+import { dereferenceSpec } from './ref-resolver.js';
+import { groupEndpoints } from './endpoint-grouping.js';
+
+/**
+ * How to derive the base URL from the spec's servers
+ */
+export interface ServerOptions {
+  /** Server to use: index into `servers` or (part of) its description. Default: first server */
+  server?: string;
+  /** Values for server URL variables, e.g. { environment: 'staging' } */
+  serverVariables?: Record<string, string>;
+  /** Use this base URL instead of anything in the spec */
+  baseUrl?: string;
+}
+
+/**
+ * Options for parsing a spec into endpoint groups
+ */
+export interface ParseOptions extends ServerOptions, SpecFetchOptions {
+  /** Grouping strategy: prefix (default), tag, operationId-prefix or depth=N */
+  groupBy?: string;
+  /** Credentials for fetching a protected spec URL (custom headers take precedence) */
+  auth?: AuthConfig;
+}
+
+interface ServerObject {
+  url: string;
+  description?: string;
+  variables?: Record<string, { default?: string; enum?: string[]; description?: string }>;
 }
 
-export async function parseSwaggerUrl(url: string): Promise<{ groups: EndpointGroup[]; baseUrl: string }> {
+/**
+ * Parse a Swagger/OpenAPI spec into endpoint groups
+ * @param url - Spec location: HTTP(S) URL, file path, file:// URL, or "-" for stdin
+ * @param options - Server selection / base URL override, grouping strategy, and fetch options
+ */
+export async function parseSwaggerUrl(
+  url: string,
+  options: ParseOptions = {}
+): Promise<{ groups: EndpointGroup[]; baseUrl: string }> {
   try {
-    const agent = getHttpsAgent();
-    const response = await axios.get(url, {
-      httpsAgent: agent,
-      timeout: 60000,
-    });
-    const spec = response.data;
+    const fetchOptions: SpecFetchOptions = {
+      retries: options.retries,
+      retryDelay: options.retryDelay,
+      cache: options.cache,
+      headers: options.headers,
+    };
+    if (options.auth && isRemoteSpecSource(url)) {
+      const { headers, params, httpsAgent } = await getAuthRequestOptions(options.auth);
+      fetchOptions.headers = { ...headers, ...options.headers };
+      fetchOptions.params = params;
+      fetchOptions.httpsAgent = httpsAgent;
+    }
+
+    const { spec, source, kind } = await loadSpec(url, fetchOptions);
+    const { spec: resolvedSpec, unresolvedRefs } = await dereferenceSpec(spec, source, fetchOptions);
     
-    // Extract base URL
-    let baseUrl = '';
-    const parsedSwaggerUrl = new URL(url);
+    if (unresolvedRefs.length > 0) {
+      console.warn(`⚠️  ${unresolvedRefs.length} unresolved $ref(s) in spec: ${unresolvedRefs.slice(0, 5).join(', ')}${unresolvedRefs.length > 5 ? ', ...' : ''}`);
+    }
     
-    // OpenAPI 3.0
-    if (spec.servers && spec.servers.length > 0) {
-      baseUrl = spec.servers[0].url;
-      
+    return parseSwaggerSpec(resolvedSpec, source, kind, options);
+  } catch (error: unknown) {
+    const axiosError = error as { response?: { status?: number; statusText?: string }; code?: string; message?: string };
+    if (axiosError.response) {
+      const status = axiosError.response.status;
+      const hint = (status === 401 || status === 403) && !options.auth && Object.keys(options.headers || {}).length === 0
+        ? ' (the spec may require authentication - pass credentials or headers)'
+        : '';
+      throw new Error(`Failed to fetch Swagger: ${status} ${axiosError.response.statusText}${hint}`);
+    }
+    if (axiosError.code === 'ERR_NETWORK') {
+      throw new Error('Network error: CORS may be blocking the request. Try using a proxy or ensure the API allows cross-origin requests.');
+    }
+    throw new Error(`Failed to parse Swagger: ${axiosError.message}`);
+  }
+}
+
+/**
+ * Derive the API base URL from the spec
+ * Relative server URLs are resolved against the spec URL when the spec was fetched over HTTP.
+ */
+export function resolveBaseUrl(
+  spec: Record<string, unknown>,
+  source: string,
+  kind: SpecSourceKind = 'url',
+  serverOptions: ServerOptions = {}
+): string {
+  if (serverOptions.baseUrl) {
+    return serverOptions.baseUrl.replace(/\/$/, '');
+  }
+
+  let baseUrl = '';
+  const parsedSwaggerUrl = kind === 'url' ? new URL(source) : null;
+  const servers = spec.servers as ServerObject[] | undefined;
+
+  if ((!servers || servers.length === 0) && (serverOptions.server || Object.keys(serverOptions.serverVariables || {}).length > 0)) {
+    throw new Error('Spec has no "servers" to select from - use a base URL override instead');
+  }
+
+  // OpenAPI 3.0
+  if (servers && servers.length > 0) {
+    const server = selectServer(servers, serverOptions.server);
+    baseUrl = applyServerVariables(server, serverOptions.serverVariables || {});
+
+    if (parsedSwaggerUrl) {
       // If baseUrl is relative, make it absolute using the swagger URL
       if (baseUrl.startsWith('/')) {
         baseUrl = `${parsedSwaggerUrl.protocol}//${parsedSwaggerUrl.host}${baseUrl}`;
@@ -60,82 +116,326 @@ export async function parseSwaggerUrl(url: string): Promise<{ groups: EndpointGr
         baseUrl = `${parsedSwaggerUrl.protocol}//${parsedSwaggerUrl.host}${swaggerPath}/${baseUrl}`;
       }
     }
-    // Swagger 2.0
-    else if (spec.host) {
-      const scheme = spec.schemes?.[0] || 'https';
-      baseUrl = `${scheme}://${spec.host}${spec.basePath || ''}`;
+  }
+  // Swagger 2.0
+  else if (spec.host) {
+    const schemes = spec.schemes as string[] | undefined;
+    const scheme = schemes?.[0] || 'https';
+    baseUrl = `${scheme}://${spec.host}${spec.basePath || ''}`;
+  }
+  // Fallback: derive from swagger URL (local specs without servers have no base URL)
+  else if (parsedSwaggerUrl) {
+    baseUrl = `${parsedSwaggerUrl.protocol}//${parsedSwaggerUrl.host}`;
+  }
+
+  // Remove trailing slash
+  return baseUrl.replace(/\/$/, '');
+}
+
+/**
+ * Pick a server by index or description (exact match first, then substring)
+ */
+function selectServer(servers: ServerObject[], selector?: string): ServerObject {
+  if (!selector) {
+    return servers[0];
+  }
+
+  const available = servers
+    .map((server, index) => `  [${index}] ${server.url}${server.description ? ` (${server.description})` : ''}`)
+    .join('\n');
+
+  if (/^\d+$/.test(selector)) {
+    const server = servers[parseInt(selector, 10)];
+    if (!server) {
+      throw new Error(`Server index ${selector} is out of range. Available servers:\n${available}`);
     }
-    // Fallback: derive from swagger URL
-    else {
-      baseUrl = `${parsedSwaggerUrl.protocol}//${parsedSwaggerUrl.host}`;
+    return server;
+  }
+
+  const wanted = selector.toLowerCase();
+  const server = servers.find(s => s.description?.toLowerCase() === wanted)
+    || servers.find(s => s.description?.toLowerCase().includes(wanted));
+  if (!server) {
+    throw new Error(`No server matches "${selector}". Available servers:\n${available}`);
+  }
+  return server;
+}
+
+/**
+ * Substitute {variables} in a server URL with given values or their defaults
+ */
+function applyServerVariables(server: ServerObject, values: Record<string, string>): string {
+  const variables = server.variables || {};
+
+  for (const name of Object.keys(values)) {
+    if (!(name in variables)) {
+      const known = Object.keys(variables);
+      throw new Error(`Unknown server variable "${name}" for ${server.url}${known.length > 0 ? ` (available: ${known.join(', ')})` : ''}`);
     }
+  }
+
+  return server.url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const variable = variables[name];
+    const value = values[name] ?? variable?.default;
+    if (value === undefined) {
+      // Invalid spec (variables must have a default) - leave the placeholder visible
+      return match;
+    }
+    if (variable?.enum && variable.enum.length > 0 && !variable.enum.includes(value)) {
+      throw new Error(`Invalid value "${value}" for server variable "${name}" (allowed: ${variable.enum.join(', ')})`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse an already-loaded Swagger/OpenAPI document into endpoint groups
+ * The document should already be dereferenced (see dereferenceSpec) for
+ * request and response schemas to be available on each endpoint.
+ */
+export function parseSwaggerSpec(
+  spec: Record<string, unknown>,
+  source: string,
+  kind: SpecSourceKind = 'url',
+  options: ParseOptions = {}
+): { groups: EndpointGroup[]; baseUrl: string } {
+  const baseUrl = resolveBaseUrl(spec, source, kind, options);
+  
+  const paths = (spec.paths || {}) as Record<string, unknown>;
+  const endpoints: Endpoint[] = [];
+  
+  for (const [path, methods] of Object.entries(paths)) {
+    const pathItem = (methods || {}) as Record<string, unknown>;
+    const pathParameters = pathItem.parameters as Record<string, unknown>[] | undefined;
     
-    // Remove trailing slash
-    baseUrl = baseUrl.replace(/\/$/, '');
-    
-    const paths = spec.paths || {};
-    const endpoints: Endpoint[] = [];
-    
-    for (const [path, methods] of Object.entries(paths)) {
-      for (const [method, details] of Object.entries(methods as Record<string, unknown>)) {
-        const httpMethod = method.toUpperCase();
-        if (['GET', 'POST', 'DELETE', 'PUT', 'PATCH'].includes(httpMethod)) {
-          const detail = details as Record<string, unknown>;
-          endpoints.push({
-            path: path,
-            method: httpMethod as Endpoint['method'],
-            summary: (detail.summary || detail.description) as string | undefined,
-            parameters: detail.parameters as Record<string, unknown>[] | undefined,
-            requestBody: detail.requestBody as Record<string, unknown> | undefined,
-            responses: detail.responses as Record<string, unknown> | undefined,
-            operationId: detail.operationId as string | undefined,
-          });
-        }
+    for (const [method, details] of Object.entries(pathItem)) {
+      const httpMethod = method.toUpperCase();
+      if (['GET', 'POST', 'DELETE', 'PUT', 'PATCH'].includes(httpMethod)) {
+        const detail = details as Record<string, unknown>;
+        const parameters = mergeParameters(pathParameters, detail.parameters as Record<string, unknown>[] | undefined);
+        const { parameters: operationParameters, requestBody } = extractRequestBody(parameters, detail, spec);
+        endpoints.push({
+          path: path,
+          method: httpMethod as Endpoint['method'],
+          summary: (detail.summary || detail.description) as string | undefined,
+          parameters: operationParameters,
+          requestBody,
+          responses: detail.responses as Record<string, unknown> | undefined,
+          operationId: detail.operationId as string | undefined,
+          tags: detail.tags as string[] | undefined,
+          requestSchemas: extractRequestSchemas(requestBody),
+          responseSchemas: extractResponseSchemas(detail, spec),
+        });
       }
     }
+  }
+  
+  const groups = groupEndpoints(endpoints, options.groupBy || 'prefix');
+  
+  return { groups, baseUrl };
+}
+
+/**
+ * Merge path-level and operation-level parameters
+ * Path-level parameters apply to every operation under the path; an operation
+ * parameter with the same name and location overrides the path-level one.
+ */
+function mergeParameters(
+  pathParameters: Record<string, unknown>[] | undefined,
+  operationParameters: Record<string, unknown>[] | undefined
+): Record<string, unknown>[] | undefined {
+  if (!pathParameters?.length) return operationParameters;
+  if (!operationParameters?.length) return pathParameters;
+  
+  const key = (param: Record<string, unknown>) => `${param.in}:${param.name}`;
+  const overridden = new Set(operationParameters.map(key));
+  return [...pathParameters.filter(param => !overridden.has(key(param))), ...operationParameters];
+}
+
+/**
+ * Split Swagger 2.0 `in: body` / `in: formData` parameters off into an
+ * OpenAPI 3 style requestBody, so both spec versions share one request model.
+ * OpenAPI 3 operations are returned unchanged.
+ */
+function extractRequestBody(
+  parameters: Record<string, unknown>[] | undefined,
+  detail: Record<string, unknown>,
+  spec: Record<string, unknown>
+): { parameters: Record<string, unknown>[] | undefined; requestBody: Record<string, unknown> | undefined } {
+  if (detail.requestBody || !parameters) {
+    return { parameters, requestBody: detail.requestBody as Record<string, unknown> | undefined };
+  }
+  
+  const bodyParam = parameters.find(param => param.in === 'body');
+  const formParams = parameters.filter(param => param.in === 'formData');
+  if (!bodyParam && formParams.length === 0) {
+    return { parameters, requestBody: undefined };
+  }
+  
+  const remaining = parameters.filter(param => param.in !== 'body' && param.in !== 'formData');
+  const consumes = ((detail.consumes || spec.consumes) as string[] | undefined) || [];
+  const content: Record<string, { schema: JsonSchema }> = {};
+  
+  if (bodyParam) {
+    const schema = (bodyParam.schema || {}) as JsonSchema;
+    const contentTypes = consumes.filter(type => !isFormContentType(type));
+    for (const contentType of contentTypes.length > 0 ? contentTypes : ['application/json']) {
+      content[contentType] = { schema };
+    }
+    return {
+      parameters: remaining.length > 0 ? remaining : undefined,
+      requestBody: {
+        ...(bodyParam.description ? { description: bodyParam.description } : {}),
+        required: bodyParam.required === true,
+        content,
+      },
+    };
+  }
+  
+  // formData: every parameter becomes a property of an object schema
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const param of formParams) {
+    const { name, in: _in, required: isRequired, ...schema } = param;
+    const property: JsonSchema = { ...schema };
+    // Swagger 2.0 "file" has no JSON Schema equivalent - OpenAPI 3 uses a binary string
+    if (property.type === 'file') {
+      property.type = 'string';
+      property.format = 'binary';
+    }
+    properties[name as string] = property;
+    if (isRequired === true) required.push(name as string);
+  }
+  
+  const schema: JsonSchema = { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+  const hasFile = formParams.some(param => param.type === 'file');
+  const formTypes = consumes.filter(isFormContentType);
+  const contentTypes = formTypes.length > 0 ? formTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+  for (const contentType of contentTypes) {
+    content[contentType] = { schema };
+  }
+  
+  return {
+    parameters: remaining.length > 0 ? remaining : undefined,
+    requestBody: { required: required.length > 0, content },
+  };
+}
+
+function isFormContentType(contentType: string): boolean {
+  return contentType === 'application/x-www-form-urlencoded' || contentType === 'multipart/form-data';
+}
+
+/**
+ * Collect request body schemas (requestBody.content) keyed by content type
+ */
+function extractRequestSchemas(requestBody: Record<string, unknown> | undefined): Record<string, JsonSchema> | undefined {
+  const content = requestBody?.content as Record<string, { schema?: JsonSchema }> | undefined;
+  if (!content) return undefined;
+  
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [contentType, media] of Object.entries(content)) {
+    if (media?.schema) {
+      schemas[contentType] = media.schema;
+    }
+  }
+  return Object.keys(schemas).length > 0 ? schemas : undefined;
+}
+
+/**
+ * Collect response schemas keyed by status code, then content type
+ * Swagger 2.0 responses carry a single schema, typed by the operation's (or spec's) `produces`.
+ */
+function extractResponseSchemas(
+  detail: Record<string, unknown>,
+  spec: Record<string, unknown>
+): Record<string, Record<string, JsonSchema>> | undefined {
+  const responses = detail.responses as Record<string, Record<string, unknown>> | undefined;
+  if (!responses) return undefined;
+  
+  const produces = (detail.produces || spec.produces) as string[] | undefined;
+  const schemas: Record<string, Record<string, JsonSchema>> = {};
+  
+  for (const [status, response] of Object.entries(responses)) {
+    if (!response || typeof response !== 'object') continue;
+    const byContentType: Record<string, JsonSchema> = {};
     
-    // Group by resource (first path segment after base)
-    const grouped = new Map<string, Endpoint[]>();
-    
-    endpoints.forEach(endpoint => {
-      // Extract resource: /api/users/{id} → /users, /pet/findByStatus → /pet
-      const pathParts = endpoint.path.split('/').filter(Boolean);
-      let resource = '/' + (pathParts[0] || 'root');
-      
-      // Handle paths like /api/v1/users
-      if (pathParts[0]?.match(/^(api|v\d+)$/i) && pathParts.length > 1) {
-        resource = '/' + pathParts.slice(0, 2).join('/');
+    const content = response.content as Record<string, { schema?: JsonSchema }> | undefined;
+    if (content) {
+      for (const [contentType, media] of Object.entries(content)) {
+        if (media?.schema) {
+          byContentType[contentType] = media.schema;
+        }
       }
-      
-      if (!grouped.has(resource)) {
-        grouped.set(resource, []);
+    } else if (response.schema) {
+      const contentTypes = produces && produces.length > 0 ? produces : ['application/json'];
+      for (const contentType of contentTypes) {
+        byContentType[contentType] = response.schema as JsonSchema;
       }
-      grouped.get(resource)!.push(endpoint);
-    });
-    
-    // Convert to array and sort
-    const groups = Array.from(grouped.entries())
-      .map(([resource, endpoints]) => ({
-        resource,
-        endpoints: endpoints.sort((a, b) => {
-          const order: Record<string, number> = { GET: 1, POST: 2, PUT: 3, PATCH: 4, DELETE: 5 };
-          return (order[a.method] || 99) - (order[b.method] || 99);
-        }),
-      }))
-      .sort((a, b) => a.resource.localeCompare(b.resource));
-    
-    return { groups, baseUrl };
-    
-  } catch (error: unknown) {
-    const axiosError = error as { response?: { status?: number; statusText?: string }; code?: string; message?: string };
-    if (axiosError.response) {
-      throw new Error(`Failed to fetch Swagger: ${axiosError.response.status} ${axiosError.response.statusText}`);
     }
-    if (axiosError.code === 'ERR_NETWORK') {
-      throw new Error('Network error: CORS may be blocking the request. Try using a proxy or ensure the API allows cross-origin requests.');
+    
+    if (Object.keys(byContentType).length > 0) {
+      schemas[status] = byContentType;
     }
-    throw new Error(`Failed to parse Swagger: ${axiosError.message}`);
   }
+  
+  return Object.keys(schemas).length > 0 ? schemas : undefined;
+}
+
+/**
+ * Pick the schema for a content type from a content-type keyed map
+ * Without a content type, JSON media types are preferred.
+ */
+function pickByContentType(
+  schemas: Record<string, JsonSchema>,
+  contentType?: string
+): { contentType: string; schema: JsonSchema } | undefined {
+  const entries = Object.entries(schemas);
+  if (entries.length === 0) return undefined;
+  
+  if (contentType) {
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    const [type] = mediaType.split('/');
+    const match = entries.find(([ct]) => ct.toLowerCase() === mediaType)
+      || entries.find(([ct]) => ct.toLowerCase() === `${type}/*`)
+      || entries.find(([ct]) => ct === '*/*');
+    return match ? { contentType: match[0], schema: match[1] } : undefined;
+  }
+  
+  const json = entries.find(([ct]) => /[/+]json\b/i.test(ct)) || entries[0];
+  return { contentType: json[0], schema: json[1] };
+}
+
+/**
+ * Get the resolved request body schema of an endpoint
+ */
+export function getRequestSchema(
+  endpoint: Endpoint,
+  contentType?: string
+): { contentType: string; schema: JsonSchema } | undefined {
+  return endpoint.requestSchemas ? pickByContentType(endpoint.requestSchemas, contentType) : undefined;
+}
+
+/**
+ * Get the documented response schema for a status code
+ * Looks up the exact status first, then the range (e.g. "2XX"), then "default".
+ */
+export function getResponseSchema(
+  endpoint: Endpoint,
+  status: number,
+  contentType?: string
+): { status: string; contentType: string; schema: JsonSchema } | undefined {
+  const responseSchemas = endpoint.responseSchemas;
+  if (!responseSchemas) return undefined;
+  
+  const statusKeys = Object.keys(responseSchemas);
+  const range = `${Math.floor(status / 100)}XX`;
+  const statusKey = statusKeys.find(key => key === String(status))
+    || statusKeys.find(key => key.toUpperCase() === range)
+    || statusKeys.find(key => key === 'default');
+  if (!statusKey) return undefined;
+  
+  const picked = pickByContentType(responseSchemas[statusKey], contentType);
+  return picked ? { status: statusKey, ...picked } : undefined;
 }
 
 export function getMethodColor(method: string): string {
@@ -1,82 +1,33 @@
 import { AxiosRequestConfig } from 'axios';
-import { TestStep, TestResult, EndpointGroup, AuthConfig } from '@/types';
-import { deepCompare, stripMetaFields } from './comparator.js';
-import { createAxiosInstance } from './utils.js';
+import { TestStep, TestResult, EndpointGroup, AuthConfig, Endpoint, Difference, ObservedStatus, PlannedRequest } from '@/types';
+import { deepCompare, compareResponses, stripMetaFields, pickFields, resolveCompareRules, failingDifferences, CompareRules } from './comparator.js';
+import { getRequestSchema, getResponseSchema } from './swagger.js';
+import { validateAgainstSchema, violationsToDifferences } from './schema-validator.js';
 import { substitutePathParameters } from './data-discovery.js';
 import { getQueryParams } from './query-params.js';
-
-const axios = createAxiosInstance();
-
-/**
- * Get OAuth2 access token using password grant flow
- * Matches Stefan's production implementation exactly
- */
-async function getOAuth2Token(
-  tokenUrl: string,
-  username: string,
-  password: string
-): Promise<string> {
-  try {
-    // Build form-encoded parameters (matching Stefan's implementation)
-    const params = new URLSearchParams();
-    const grantType = process.env.GRANT_TYPE || 'password';
-    
-    params.append('grant_type', grantType);
-    
-    if (grantType === 'password') {
-      params.append('username', username);
-      params.append('password', password);
-    }
-
-    // POST with form-encoded data (NOT JSON)
-    const response = await axios.post(
-      tokenUrl,
-      params.toString(), // Convert to form-encoded string (matching Stefan's code)
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        // SSL-handled axios instance is already configured via createAxiosInstance()
-      }
-    );
-
-    // Check if request was successful (matching Stefan's error handling)
-    if (response.status !== 200) {
-      const errorText = response.data ? JSON.stringify(response.data) : response.statusText;
-      console.error(`Failed to fetch access token: ${response.status} ${response.statusText} - ${errorText}`);
-      throw new Error(`Failed to fetch access token: ${response.status} ${response.statusText}`);
-    }
-
-    // Extract access token (matching Stefan's validation)
-    const data = response.data;
-    const accessToken = data?.access_token;
-
-    if (!accessToken) {
-      const errorMsg = data ? `No access_token in response. Response keys: ${Object.keys(data).join(', ')}` : 'Empty response';
-      throw new Error(`Access token is null: ${errorMsg}`);
-    }
-
-    return accessToken;
-  } catch (error: unknown) {
-    // Enhanced error handling matching Stefan's implementation
-    const axiosError = error as { response?: { status?: number; statusText?: string; data?: unknown }; message?: string };
-    if (axiosError.response) {
-      const status = axiosError.response.status;
-      const statusText = axiosError.response.statusText;
-      const errorData = axiosError.response.data;
-      const errorText = errorData ? (typeof errorData === 'string' ? errorData : JSON.stringify(errorData)) : statusText;
-
-      console.error(`OAuth2 authentication failed: ${status} ${statusText} - ${errorText}`);
-      throw new Error(`OAuth2 authentication failed: ${status} ${statusText} - ${String(errorText).substring(0, 200)}`);
-    }
-
-    throw new Error(`OAuth2 authentication failed: ${axiosError.message}`);
-  }
-}
+import { getTokenProvider } from './auth.js';
+import { checkStatus, describeStatusCheck, isStatusViolation, StatusCheck } from './status-check.js';
+import { generateRequestBody, generateUpdate, omitWriteOnly, GeneratedBody } from './body-generator.js';
+import { buildUrl } from './test-fixtures.js';
+import { createSnapshot, updateSnapshot, findRestoreRequest, restoreSnapshot, ResourceSnapshot, RestoreJournal } from './restore.js';
 
 export interface TestOptions {
   mode?: 'full' | 'readonly';
   testDataCache?: import('./data-discovery.js').TestDataCache;
+  /** Validate response bodies against the documented response schema (default: true) */
+  validateSchema?: boolean;
+  /** POST a body generated from the request schema when there is no fetched object to re-create, and DELETE the result again (default: true) */
+  generateBodies?: boolean;
+  /** Seed for generated bodies and updates (default: 1) */
+  bodySeed?: number;
+  /** Expected-status overrides per endpoint, keyed by "METHOD /path" */
+  expectedStatus?: Record<string, number[]>;
+  /** Compare mode and ignore / type-only / mask / array rules for the COMPARE step (`compare` in gate.config) */
+  compareRules?: CompareRules;
+  /** All endpoints of the spec, to snapshot and restore deleted resources of single-endpoint groups */
+  specEndpoints?: Endpoint[];
+  /** Where snapshots of deleted resources are saved (they are restored either way) */
+  journal?: RestoreJournal;
 }
 
 export async function runEndpointTest(
@@ -87,6 +38,7 @@ export async function runEndpointTest(
   options?: TestOptions
 ): Promise<TestResult> {
   const mode = options?.mode || 'full';
+  const validateSchema = options?.validateSchema !== false;
   
   const steps: TestStep[] = [];
   const startTime = Date.now();
@@ -112,17 +64,84 @@ export async function runEndpointTest(
     }
   };
   
-  // Build auth headers
+  // Helper to validate a response body against the documented schema
+  // for its status code and content type. Records a VALIDATE step when a schema exists.
+  const validateResponse = (
+    endpoint: Endpoint,
+    response: { status: number; data: unknown; headers?: unknown },
+    url: string
+  ): Difference[] => {
+    if (!validateSchema) return [];
+    
+    const responseHeaders = (response.headers || {}) as Record<string, unknown>;
+    const contentType = responseHeaders['content-type'] as string | undefined;
+    const documented = getResponseSchema(endpoint, response.status, contentType);
+    if (!documented) return [];
+    
+    const violations = violationsToDifferences(validateAgainstSchema(response.data, documented.schema));
+    
+    addStep({
+      step: 'VALIDATE',
+      method: endpoint.method,
+      url,
+      status: response.status,
+      data: {
+        schema: `${documented.status} ${documented.contentType}`,
+        violations,
+      },
+      error: violations.length > 0
+        ? `${violations.length} schema violation${violations.length !== 1 ? 's' : ''} (${violations[0].path}: ${violations[0].message})`
+        : undefined,
+      timestamp: new Date(),
+    });
+    
+    return violations;
+  };
+  
+  // Helper to classify a response status against the endpoint's documented responses.
+  // Undocumented statuses (or statuses outside an expected-status override) are contract violations.
+  const observedStatuses: ObservedStatus[] = [];
+  const statusDifferences: Difference[] = [];
+  const checkResponseStatus = (endpoint: Endpoint, status: number): StatusCheck | undefined => {
+    if (!status) return undefined; // No response (network error, timeout)
+    
+    const check = checkStatus(endpoint, status, options?.expectedStatus?.[`${endpoint.method} ${endpoint.path}`]);
+    observedStatuses.push({ method: endpoint.method, path: endpoint.path, status, outcome: check.outcome });
+    if (isStatusViolation(check)) {
+      statusDifferences.push({
+        path: 'status',
+        expected: check.expectedStatuses,
+        actual: status,
+        type: 'violation',
+        message: `${endpoint.method} ${endpoint.path}: ${describeStatusCheck(check)}`,
+      });
+    }
+    return check;
+  };
+  
+  // Error text for a step: the request error, plus how its status relates to the spec
+  const describeError = (errorMsg: string, check: StatusCheck | undefined): string => {
+    return check ? `${errorMsg} (${describeStatusCheck(check)})` : errorMsg;
+  };
+  
+  // Error text for a successful request whose status is a contract violation
+  const violationError = (check: StatusCheck | undefined): string | undefined => {
+    return check && isStatusViolation(check) ? describeStatusCheck(check) : undefined;
+  };
+  
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   };
   
-  // Handle OAuth2 authentication
-  if (auth?.type === 'oauth2' && auth.username && auth.password && auth.tokenUrl) {
+  // The shared client adds the auth headers and retries once with a fresh token on 401
+  const tokenProvider = getTokenProvider(auth);
+  const http = tokenProvider.client;
+  
+  // Handle OAuth2 authentication (the token is cached across endpoints)
+  if (auth?.tokenUrl && tokenProvider.usesOAuth2) {
     try {
-      const token = await getOAuth2Token(auth.tokenUrl, auth.username, auth.password);
-      headers['Authorization'] = `Bearer ${token}`;
+      await tokenProvider.getToken();
       
       addStep({
         step: 'AUTH',
@@ -156,10 +175,6 @@ export async function runEndpointTest(
         duration: Date.now() - startTime,
       };
     }
-  } else if (auth?.type === 'bearer' && auth.token) {
-    headers['Authorization'] = `Bearer ${auth.token}`;
-  } else if (auth?.type === 'apikey' && auth.token) {
-    headers['X-API-Key'] = auth.token;
   }
   
   const config: AxiosRequestConfig = { headers, timeout: 30000 };
@@ -169,12 +184,392 @@ export async function runEndpointTest(
   const getListEndpoint = group.endpoints.find(e => e.method === 'GET' && !e.path.includes('{'));
   const deleteEndpoint = group.endpoints.find(e => e.method === 'DELETE');
   const postEndpoint = group.endpoints.find(e => e.method === 'POST');
+  const updateEndpoints = group.endpoints.filter(e => e.method === 'PUT' || e.method === 'PATCH');
+  
+  // Update phase for one PUT/PATCH endpoint: GET the resource, change one field,
+  // re-GET it to check the change persisted, then restore the original value
+  const runUpdate = async (updateEndpoint: Endpoint): Promise<{ differences: Difference[]; expected: unknown; verified: unknown }> => {
+    const method = updateEndpoint.method as 'PUT' | 'PATCH';
+    const readEndpoint = group.endpoints.find(e => e.method === 'GET' && e.path === updateEndpoint.path);
+    const fullUrl = buildFullUrl(substitutePath(updateEndpoint.path));
+    
+    if (!readEndpoint) {
+      const errorMsg = 'No GET endpoint on the same path to read the resource';
+      addStep({
+        step: method,
+        method,
+        url: fullUrl,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      console.error(`  ❌ ${method} failed: ${fullUrl} - ${errorMsg}`);
+      return {
+        differences: [{ path: 'error', expected: 'GET endpoint', actual: 'none', type: 'changed' }],
+        expected: null,
+        verified: null,
+      };
+    }
+    
+    const queryParams = getQueryParams(readEndpoint.path);
+    const readConfig: AxiosRequestConfig = {
+      ...config,
+      params: Object.keys(queryParams).length > 0 ? queryParams : undefined,
+    };
+    const differences: Difference[] = [];
+    
+    // GET the current state
+    let original: unknown;
+    try {
+      const response = await http.get(fullUrl, readConfig);
+      const check = checkResponseStatus(readEndpoint, response.status);
+      addStep({
+        step: 'GET',
+        method: 'GET',
+        url: fullUrl,
+        status: response.status,
+        outcome: check?.outcome,
+        data: response.data,
+        error: violationError(check),
+        timestamp: new Date(),
+      });
+      differences.push(...validateResponse(readEndpoint, response, fullUrl));
+      original = response.data;
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const check = checkResponseStatus(readEndpoint, statusCode);
+      const errorMsg = axiosError.message || 'Unknown error';
+      
+      addStep({
+        step: 'GET',
+        method: 'GET',
+        url: fullUrl,
+        status: statusCode,
+        outcome: check?.outcome,
+        error: describeError(errorMsg, check),
+        timestamp: new Date(),
+      });
+      
+      console.error(`  ❌ GET failed: ${fullUrl} [${statusCode}] - ${errorMsg}`);
+      return {
+        differences: [{ path: 'error', expected: 'success', actual: errorMsg, type: 'changed' }],
+        expected: null,
+        verified: null,
+      };
+    }
+    
+    const update = generateUpdate(updateEndpoint, original, { seed: options?.bodySeed }, getResponseSchema(readEndpoint, 200)?.schema);
+    if (!update) {
+      const errorMsg = 'No writable field to change (needs a JSON request schema and an object resource)';
+      addStep({
+        step: method,
+        method,
+        url: fullUrl,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      console.error(`  ❌ ${method} failed: ${fullUrl} - ${errorMsg}`);
+      return {
+        differences: [{ path: 'error', expected: 'updatable field', actual: 'none', type: 'changed' }],
+        expected: null,
+        verified: null,
+      };
+    }
+    
+    const writeConfig: AxiosRequestConfig = {
+      ...config,
+      headers: { ...headers, 'Content-Type': update.contentType },
+    };
+    const send = (body: unknown) => method === 'PUT'
+      ? http.put(fullUrl, body, writeConfig)
+      : http.patch(fullUrl, body, writeConfig);
+    
+    // PUT/PATCH the changed field
+    try {
+      const response = await send(update.body);
+      const check = checkResponseStatus(updateEndpoint, response.status);
+      addStep({
+        step: method,
+        method,
+        url: fullUrl,
+        status: response.status,
+        outcome: check?.outcome,
+        data: response.data,
+        error: violationError(check),
+        timestamp: new Date(),
+      });
+      differences.push(...validateResponse(updateEndpoint, response, fullUrl));
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const check = checkResponseStatus(updateEndpoint, statusCode);
+      const errorMsg = axiosError.response?.data?.message || axiosError.message || 'Unknown error';
+      
+      addStep({
+        step: method,
+        method,
+        url: fullUrl,
+        status: statusCode,
+        outcome: check?.outcome,
+        data: update.body,
+        error: describeError(errorMsg, check),
+        timestamp: new Date(),
+      });
+      
+      console.error(`  ❌ ${method} failed: ${fullUrl} [${statusCode}] - ${errorMsg}`);
+      return {
+        differences: [...differences, { path: 'error', expected: 'success', actual: errorMsg, type: 'changed' }],
+        expected: null,
+        verified: null,
+      };
+    }
+    
+    // VERIFY the change persisted
+    const expected = { [update.field]: update.value };
+    let verified: unknown = null;
+    try {
+      const response = await http.get(fullUrl, readConfig);
+      verified = pickFields(response.data, expected);
+      const changeDifferences = deepCompare(expected, verified);
+      const check = checkResponseStatus(readEndpoint, response.status);
+      
+      addStep({
+        step: 'VERIFY',
+        method: 'GET',
+        url: fullUrl,
+        status: response.status,
+        outcome: check?.outcome,
+        data: response.data,
+        error: changeDifferences.length > 0
+          ? `${method} did not persist: expected ${update.field} = ${JSON.stringify(update.value)}`
+          : violationError(check),
+        timestamp: new Date(),
+      });
+      differences.push(...changeDifferences, ...validateResponse(readEndpoint, response, fullUrl));
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const check = checkResponseStatus(readEndpoint, statusCode);
+      const errorMsg = axiosError.message || 'Unknown error';
+      
+      addStep({
+        step: 'VERIFY',
+        method: 'GET',
+        url: fullUrl,
+        status: statusCode,
+        outcome: check?.outcome,
+        error: describeError(errorMsg, check),
+        timestamp: new Date(),
+      });
+      
+      console.error(`  ❌ VERIFY failed: ${fullUrl} [${statusCode}] - ${errorMsg}`);
+      differences.push({ path: 'error', expected: 'success', actual: errorMsg, type: 'changed' });
+    }
+    
+    // RESTORE the original value (also when the check failed - the update may have partly applied)
+    try {
+      const response = await send(update.restoreBody);
+      const check = checkResponseStatus(updateEndpoint, response.status);
+      addStep({
+        step: 'RESTORE',
+        method,
+        url: fullUrl,
+        status: response.status,
+        outcome: check?.outcome,
+        error: violationError(check),
+        timestamp: new Date(),
+      });
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const check = checkResponseStatus(updateEndpoint, statusCode);
+      const errorMsg = axiosError.response?.data?.message || axiosError.message || 'Unknown error';
+      
+      addStep({
+        step: 'RESTORE',
+        method,
+        url: fullUrl,
+        status: statusCode,
+        outcome: check?.outcome,
+        data: update.restoreBody,
+        error: describeError(errorMsg, check),
+        timestamp: new Date(),
+      });
+      
+      // The resource is left modified - log what it was
+      console.error(`  ❌ RESTORE failed: ${fullUrl} [${statusCode}] - ${errorMsg} (original ${update.field}: ${JSON.stringify(update.originalValue)})`);
+      differences.push({ path: 'restore', expected: 'success', actual: errorMsg, type: 'changed' });
+    }
+    
+    return { differences, expected, verified };
+  };
+  
+  const knownEndpoints = [...group.endpoints, ...(options?.specEndpoints || [])];
+  
+  // Read the resource a DELETE is about to remove, so it can be restored.
+  // A resource that doesn't exist (404) needs no snapshot; one that can't be read is not deleted.
+  const takeSnapshot = async (deleteEndpoint: Endpoint, fullUrl: string): Promise<{ snapshot?: ResourceSnapshot; error?: string }> => {
+    const readEndpoint = knownEndpoints.find(e => e.method === 'GET' && e.path === deleteEndpoint.path);
+    if (!readEndpoint) {
+      return { error: 'No GET endpoint on the same path to snapshot the resource' };
+    }
+    
+    // Read it the way the GET step does, with the read endpoint's query parameters
+    const queryParams = getQueryParams(readEndpoint.path);
+    const readParams = Object.keys(queryParams).length > 0 ? queryParams : undefined;
+    
+    try {
+      const response = await http.get(fullUrl, { ...config, params: readParams });
+      const restore = findRestoreRequest(deleteEndpoint, knownEndpoints, path => buildFullUrl(substitutePath(path)));
+      const snapshot = createSnapshot(deleteEndpoint, fullUrl, response.data, restore, readParams);
+      addStep({
+        step: 'SNAPSHOT',
+        method: 'GET',
+        url: fullUrl,
+        status: response.status,
+        data: response.data,
+        timestamp: new Date(),
+      });
+      options?.journal?.save(snapshot);
+      return { snapshot };
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      if (statusCode === 404) {
+        addStep({
+          step: 'SNAPSHOT',
+          method: 'GET',
+          url: fullUrl,
+          status: statusCode,
+          timestamp: new Date(),
+        });
+        return {};
+      }
+      
+      const errorMsg = `Snapshot failed: ${axiosError.message || 'Unknown error'}`;
+      addStep({
+        step: 'SNAPSHOT',
+        method: 'GET',
+        url: fullUrl,
+        status: statusCode,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      return { error: errorMsg };
+    }
+  };
+  
+  // Send a deleted resource's snapshot back (PUT to its URL or POST to its collection)
+  const restoreDeleted = async (snapshot: ResourceSnapshot): Promise<Difference[]> => {
+    try {
+      const status = await restoreSnapshot(http, snapshot, config);
+      updateSnapshot(snapshot, 'restored', options?.journal);
+      addStep({
+        step: 'RESTORE',
+        method: snapshot.restore?.method,
+        url: snapshot.restore?.url,
+        status,
+        data: snapshot.data,
+        timestamp: new Date(),
+      });
+      return [];
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const errorMsg = axiosError.response?.data?.message || axiosError.message || 'Unknown error';
+      updateSnapshot(snapshot, 'restore-failed', options?.journal, errorMsg);
+      
+      addStep({
+        step: 'RESTORE',
+        method: snapshot.restore?.method,
+        url: snapshot.restore?.url || snapshot.url,
+        status: statusCode,
+        data: snapshot.data,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      
+      // The resource stays deleted - the snapshot (journal or step data) is the way back
+      console.error(`  ❌ RESTORE failed: ${snapshot.url} [${statusCode}] - ${errorMsg}`);
+      return [{ path: 'restore', expected: 'success', actual: errorMsg, type: 'changed', message: `${snapshot.url} was deleted and could not be restored` }];
+    }
+  };
+  
+  // DELETE a resource the test created, so the run leaves no trace
+  const removeCreated = async (url: string): Promise<Difference[]> => {
+    try {
+      const response = await http.delete(url, config);
+      addStep({
+        step: 'CLEANUP',
+        method: 'DELETE',
+        url,
+        status: response.status,
+        timestamp: new Date(),
+      });
+      return [];
+    } catch (error: unknown) {
+      const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+      const statusCode = axiosError.response?.status || 0;
+      const errorMsg = axiosError.response?.data?.message || axiosError.message || 'Unknown error';
+      addStep({
+        step: 'CLEANUP',
+        method: 'DELETE',
+        url,
+        status: statusCode,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      console.error(`  ❌ CLEANUP failed: ${url} [${statusCode}] - ${errorMsg}`);
+      return [{ path: 'cleanup', expected: 'success', actual: errorMsg, type: 'changed', message: `${url} was created by the test and could not be deleted` }];
+    }
+  };
+  
+  // Snapshot of the resource deleted in step 3, while it is not back
+  let snapshot: ResourceSnapshot | undefined;
+  // URL of the resource a generated POST body created, while it is not deleted
+  let created: string | undefined;
   
   try {
+    // Update-only groups (a PUT/PATCH endpoint and the GET on its path, as the CLI tests them)
+    if (mode === 'full' && updateEndpoints.length > 0 && !deleteEndpoint && !postEndpoint) {
+      const differences: Difference[] = [];
+      let expectedData: unknown = null;
+      let verifiedData: unknown = null;
+      
+      for (const updateEndpoint of updateEndpoints) {
+        const update = await runUpdate(updateEndpoint);
+        differences.push(...update.differences);
+        expectedData = update.expected;
+        verifiedData = update.verified;
+      }
+      
+      addStep({
+        step: 'COMPARE',
+        data: {
+          original: expectedData,
+          verified: verifiedData,
+          differences,
+        },
+        timestamp: new Date(),
+      });
+      
+      differences.push(...statusDifferences);
+      
+      return {
+        resource: group.resource,
+        steps,
+        passed: differences.length === 0,
+        differences,
+        duration: Date.now() - startTime,
+        observedStatuses,
+      };
+    }
+    
     // Step 1: GET (try specific ID first, then list)
-    let getResponse: { status: number; data: unknown } | undefined;
+    let getResponse: { status: number; data: unknown; headers?: unknown } | undefined;
     let resourceId = '1';
     let originalData: unknown = null;
+    const schemaDifferences: Difference[] = [];
     
     // If readonly mode, just test GET and return
     if (mode === 'readonly') {
@@ -208,52 +603,88 @@ export async function runEndpointTest(
       const queryParams = getQueryParams(testEndpoint.path);
       
       try {
-        const response = await axios.get(fullUrl, { 
+        const response = await http.get(fullUrl, { 
           ...config, 
           params: Object.keys(queryParams).length > 0 ? queryParams : undefined 
         });
         
+        const check = checkResponseStatus(testEndpoint, response.status);
         addStep({
           step: 'GET',
           method: 'GET',
           url: fullUrl,
           status: response.status,
+          outcome: check?.outcome,
           data: response.data,
+          error: violationError(check),
           timestamp: new Date(),
         });
         
-        const passed = response.status === 200;
+        const schemaDifferences = validateResponse(testEndpoint, response, fullUrl);
+        const differences: Difference[] = [...statusDifferences, ...schemaDifferences];
         
         return {
           resource: group.resource,
           steps,
-          passed,
-          differences: passed ? [] : [{ path: 'status', expected: 200, actual: response.status, type: 'changed' }],
+          passed: differences.length === 0,
+          differences,
           duration: Date.now() - startTime,
+          observedStatuses,
         };
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(testEndpoint, statusCode);
         const errorMsg = axiosError.message || 'Unknown error';
+        
+        if (check?.expected) {
+          // An error status listed in the endpoint's expected-status override
+          addStep({
+            step: 'GET',
+            method: 'GET',
+            url: fullUrl,
+            status: statusCode,
+            outcome: check.outcome,
+            timestamp: new Date(),
+          });
+          
+          return {
+            resource: group.resource,
+            steps,
+            passed: true,
+            differences: [],
+            duration: Date.now() - startTime,
+            observedStatuses,
+          };
+        }
 
         addStep({
           step: 'GET',
           method: 'GET',
           url: fullUrl,
           status: statusCode,
-          error: errorMsg,
+          outcome: check?.outcome,
+          error: describeError(errorMsg, check),
           timestamp: new Date(),
         });
 
         // Log detailed error to console
         console.error(`  ❌ GET failed: ${fullUrl} [${statusCode}] - ${errorMsg}`);
+        
+        // Undocumented statuses are already reported as violations
+        const differences: Difference[] = !check
+          ? [{ path: 'error', expected: 'success', actual: errorMsg, type: 'changed' }]
+          : statusDifferences.length > 0
+            ? statusDifferences
+            : [{ path: 'status', expected: check.expectedStatuses, actual: statusCode, type: 'changed', message: `${testEndpoint.method} ${testEndpoint.path}: ${describeStatusCheck(check)}` }];
 
         return {
           resource: group.resource,
           steps,
           passed: false,
-          differences: [{ path: 'error', expected: 'success', actual: errorMsg, type: 'changed' }],
+          differences,
           duration: Date.now() - startTime,
+          observedStatuses,
         };
       }
     }
@@ -266,32 +697,39 @@ export async function runEndpointTest(
       const queryParams = getQueryParams(getEndpoint.path);
       
       try {
-        getResponse = await axios.get(fullUrl, { 
+        getResponse = await http.get(fullUrl, { 
           ...config, 
           params: Object.keys(queryParams).length > 0 ? queryParams : undefined 
         });
+        const check = checkResponseStatus(getEndpoint, getResponse.status);
         addStep({
           step: 'GET',
           method: 'GET',
           url: fullUrl,
           status: getResponse.status,
+          outcome: check?.outcome,
           data: getResponse.data,
+          error: violationError(check),
           timestamp: new Date(),
         });
+        schemaDifferences.push(...validateResponse(getEndpoint, getResponse, fullUrl));
         originalData = getResponse.data;
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(getEndpoint, statusCode);
 
         if (statusCode === 404 && getListEndpoint) {
           // Try getting list
           const listUrl = buildFullUrl(getListEndpoint.path);
           const listQueryParams = getQueryParams(getListEndpoint.path);
-          const listResponse = await axios.get(listUrl, { 
+          const listResponse = await http.get(listUrl, { 
             ...config, 
             params: Object.keys(listQueryParams).length > 0 ? listQueryParams : undefined 
           });
           const items = Array.isArray(listResponse.data) ? listResponse.data : listResponse.data?.items || listResponse.data?.data || [];
+          schemaDifferences.push(...validateResponse(getListEndpoint, listResponse, listUrl));
+          const listCheck = checkResponseStatus(getListEndpoint, listResponse.status);
           
           if (items.length > 0) {
             originalData = items[0];
@@ -302,6 +740,7 @@ export async function runEndpointTest(
               method: 'GET',
               url: listUrl,
               status: 200,
+              outcome: listCheck?.outcome,
               data: originalData,
               timestamp: new Date(),
             });
@@ -311,6 +750,7 @@ export async function runEndpointTest(
               method: 'GET',
               url: listUrl,
               status: 200,
+              outcome: listCheck?.outcome,
               data: null,
               error: 'No resources found in collection',
               timestamp: new Date(),
@@ -323,7 +763,8 @@ export async function runEndpointTest(
             method: 'GET',
             url: fullUrl,
             status: statusCode,
-            error: errorMsg,
+            outcome: check?.outcome,
+            error: describeError(errorMsg, check),
             timestamp: new Date(),
           });
           
@@ -336,7 +777,7 @@ export async function runEndpointTest(
       const listQueryParams = getQueryParams(getListEndpoint.path);
       
       try {
-        const listResponse = await axios.get(listUrl, { 
+        const listResponse = await http.get(listUrl, { 
           ...config, 
           params: Object.keys(listQueryParams).length > 0 ? listQueryParams : undefined 
         });
@@ -348,17 +789,22 @@ export async function runEndpointTest(
           resourceId = String(item.id || item._id || '1');
         }
 
+        const check = checkResponseStatus(getListEndpoint, listResponse.status);
         addStep({
           step: 'GET',
           method: 'GET',
           url: listUrl,
           status: listResponse.status,
+          outcome: check?.outcome,
           data: originalData || items,
+          error: violationError(check),
           timestamp: new Date(),
         });
+        schemaDifferences.push(...validateResponse(getListEndpoint, listResponse, listUrl));
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(getListEndpoint, statusCode);
         const errorMsg = axiosError.message || 'Unknown error';
         
         addStep({
@@ -366,7 +812,8 @@ export async function runEndpointTest(
           method: 'GET',
           url: listUrl,
           status: statusCode,
-          error: errorMsg,
+          outcome: check?.outcome,
+          error: describeError(errorMsg, check),
           timestamp: new Date(),
         });
         
@@ -375,31 +822,58 @@ export async function runEndpointTest(
       }
     }
     
-    // Step 2: DELETE
-    if (deleteEndpoint && resourceId) {
+    // Step 2: UPDATE (PUT/PATCH while the resource still exists)
+    const updateDifferences: Difference[] = [];
+    for (const updateEndpoint of updateEndpoints) {
+      updateDifferences.push(...(await runUpdate(updateEndpoint)).differences);
+    }
+    
+    // Step 3: DELETE (only after a snapshot of the resource)
+    const taken = deleteEndpoint && resourceId ? await takeSnapshot(deleteEndpoint, buildFullUrl(substitutePath(deleteEndpoint.path))) : undefined;
+    if (deleteEndpoint && taken?.error) {
+      const fullUrl = buildFullUrl(substitutePath(deleteEndpoint.path));
+      const errorMsg = `Not deleted: ${taken.error}`;
+      addStep({
+        step: 'DELETE',
+        method: 'DELETE',
+        url: fullUrl,
+        error: errorMsg,
+        timestamp: new Date(),
+      });
+      console.error(`  ❌ DELETE skipped: ${fullUrl} - ${taken.error}`);
+    } else if (deleteEndpoint && resourceId) {
       const deletePath = substitutePath(deleteEndpoint.path);
       const fullUrl = buildFullUrl(deletePath);
+      snapshot = taken?.snapshot;
       
       try {
-        const deleteResponse = await axios.delete(fullUrl, config);
+        const deleteResponse = await http.delete(fullUrl, config);
+        if (snapshot) updateSnapshot(snapshot, 'deleted', options?.journal);
+        const check = checkResponseStatus(deleteEndpoint, deleteResponse.status);
         addStep({
           step: 'DELETE',
           method: 'DELETE',
           url: fullUrl,
           status: deleteResponse.status,
+          outcome: check?.outcome,
+          error: violationError(check),
           timestamp: new Date(),
         });
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(deleteEndpoint, statusCode);
         const errorMsg = statusCode === 404 ? 'Resource not found (may be expected)' : (axiosError.message || 'Unknown error');
+        if (snapshot) updateSnapshot(snapshot, 'kept', options?.journal);
+        snapshot = undefined;
         
         addStep({
           step: 'DELETE',
           method: 'DELETE',
           url: fullUrl,
           status: statusCode,
-          error: errorMsg,
+          outcome: check?.outcome,
+          error: describeError(errorMsg, check),
           timestamp: new Date(),
         });
         
@@ -418,28 +892,52 @@ export async function runEndpointTest(
       });
     }
     
-    // Step 3: POST
+    // Step 4: POST (re-create the fetched object, or fall back to a body generated from the request schema)
     let newResourceId: string | null = null;
+    // Rules of the GET response being re-created and compared
+    const compareRules = resolveCompareRules(options?.compareRules, `GET ${(getEndpoint || getListEndpoint)?.path ?? group.resource}`);
+    let postPayload: unknown = originalData ? stripMetaFields(originalData, compareRules.metaFields) : undefined;
+    let generated: GeneratedBody | undefined;
+    let createdWithoutId = false;
+    // A generated body creates a new resource: only POST it when the spec has a DELETE to remove it again
+    const cleanupEndpoint = postEndpoint && findCleanupEndpoint(postEndpoint, knownEndpoints);
     
-    if (postEndpoint && originalData) {
-      const postPayload = stripMetaFields(originalData);
-      const fullUrl = buildFullUrl(postEndpoint.path);
+    if (postEndpoint && cleanupEndpoint && !originalData && options?.generateBodies !== false) {
+      generated = generateRequestBody(postEndpoint, { seed: options?.bodySeed });
+      if (generated && !/[/+]json\b/i.test(generated.contentType)) {
+        generated = undefined; // Only JSON bodies are generated
+      }
+      postPayload = generated?.body;
+    }
+    
+    if (postEndpoint && postPayload !== undefined) {
+      const fullUrl = buildFullUrl(generated ? buildUrl(postEndpoint.path, generated.pathParams) : postEndpoint.path);
       
       try {
-        const postResponse = await axios.post(fullUrl, postPayload, config);
-        newResourceId = postResponse.data?.id || postResponse.data?._id || null;
+        const postResponse = await http.post(fullUrl, postPayload, config);
+        const generatedId = generated ? Object.values(generated.pathParams).pop() : undefined;
+        newResourceId = postResponse.data?.id || postResponse.data?._id || generatedId || null;
+        if (generated && cleanupEndpoint) {
+          created = createdResourceUrl(cleanupEndpoint, postEndpoint, fullUrl, postResponse.data);
+          createdWithoutId = !created;
+        }
         
+        const check = checkResponseStatus(postEndpoint, postResponse.status);
         addStep({
           step: 'POST',
           method: 'POST',
           url: fullUrl,
           status: postResponse.status,
+          outcome: check?.outcome,
           data: postResponse.data,
+          error: violationError(check),
           timestamp: new Date(),
         });
+        schemaDifferences.push(...validateResponse(postEndpoint, postResponse, fullUrl));
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(postEndpoint, statusCode);
         const errorMsg = axiosError.response?.data?.message || axiosError.message || 'Unknown error';
         
         addStep({
@@ -447,8 +945,9 @@ export async function runEndpointTest(
           method: 'POST',
           url: fullUrl,
           status: statusCode,
+          outcome: check?.outcome,
           data: postPayload,
-          error: errorMsg,
+          error: describeError(generated ? `${errorMsg} (generated body)` : errorMsg, check),
           timestamp: new Date(),
         });
         
@@ -460,12 +959,16 @@ export async function runEndpointTest(
         step: 'POST',
         method: 'POST',
         url: group.resource,
-        error: postEndpoint ? 'No original data to recreate' : 'No POST endpoint available',
+        error: !postEndpoint
+          ? 'No POST endpoint available'
+          : cleanupEndpoint
+            ? 'No original data to recreate and no JSON request schema to generate a body from'
+            : `No original data to recreate, and no DELETE on ${postEndpoint.path} or ${postEndpoint.path}/{id} to remove a generated body`,
         timestamp: new Date(),
       });
     }
     
-    // Step 4: VERIFY (GET the newly created resource)
+    // Step 5: VERIFY (GET the newly created resource)
     let verifyData: unknown = null;
     
     if (getEndpoint && newResourceId) {
@@ -475,23 +978,28 @@ export async function runEndpointTest(
       const verifyQueryParams = getQueryParams(getEndpoint.path);
       
       try {
-        const verifyResponse = await axios.get(fullUrl, { 
+        const verifyResponse = await http.get(fullUrl, { 
           ...config, 
           params: Object.keys(verifyQueryParams).length > 0 ? verifyQueryParams : undefined 
         });
         verifyData = verifyResponse.data;
         
+        const check = checkResponseStatus(getEndpoint, verifyResponse.status);
         addStep({
           step: 'VERIFY',
           method: 'GET',
           url: fullUrl,
           status: verifyResponse.status,
+          outcome: check?.outcome,
           data: verifyData,
+          error: violationError(check),
           timestamp: new Date(),
         });
+        schemaDifferences.push(...validateResponse(getEndpoint, verifyResponse, fullUrl));
       } catch (error: unknown) {
         const axiosError = error as { response?: { status?: number }; message?: string };
         const statusCode = axiosError.response?.status || 0;
+        const check = checkResponseStatus(getEndpoint, statusCode);
         const errorMsg = axiosError.message || 'Unknown error';
 
         addStep({
@@ -499,7 +1007,8 @@ export async function runEndpointTest(
           method: 'GET',
           url: fullUrl,
           status: statusCode,
-          error: errorMsg,
+          outcome: check?.outcome,
+          error: describeError(errorMsg, check),
           timestamp: new Date(),
         });
 
@@ -516,35 +1025,73 @@ export async function runEndpointTest(
       });
     }
     
-    // Step 5: COMPARE
-    let differences: Array<{ path: string; expected: unknown; actual: unknown; type: 'added' | 'removed' | 'changed' }> = [];
+    // Step 6: COMPARE
+    let differences: Difference[] = [];
     let passed = false;
+    let expectedData: unknown = originalData ? stripMetaFields(originalData, compareRules.metaFields) : null;
+    const verifiedData = verifyData ? stripMetaFields(verifyData, compareRules.metaFields) : null;
     
     if (originalData && verifyData) {
-      const cleanedOriginal = stripMetaFields(originalData);
-      const cleanedVerify = stripMetaFields(verifyData);
-      differences = deepCompare(cleanedOriginal, cleanedVerify);
-      passed = differences.length === 0;
+      differences = compareResponses(expectedData, verifiedData, compareRules);
+      passed = failingDifferences(differences).length === 0 && schemaDifferences.length === 0;
+    } else if (generated && postEndpoint && verifyData) {
+      // A generated body only covers the request fields - compare those, minus writeOnly ones
+      const requestSchema = getRequestSchema(postEndpoint);
+      expectedData = stripMetaFields(requestSchema ? omitWriteOnly(generated.body, requestSchema.schema) : generated.body, compareRules.metaFields);
+      differences = compareResponses(expectedData, pickFields(verifiedData, expectedData), compareRules);
+      passed = failingDifferences(differences).length === 0 && schemaDifferences.length === 0;
     }
     
+    // The step keeps suppressed differences (with their rule), the result only the failing ones
     addStep({
       step: 'COMPARE',
       data: {
-        original: originalData ? stripMetaFields(originalData) : null,
-        verified: verifyData ? stripMetaFields(verifyData) : null,
+        original: expectedData,
+        verified: verifiedData,
         differences,
       },
       timestamp: new Date(),
     });
     
+    // Restore the deleted resource unless the POST brought it back: under its own URL and unchanged.
+    // A copy under another URL is deleted first, so the restored original isn't left next to it.
+    const restoreDifferences: Difference[] = [];
+    const cleanupDifferences: Difference[] = [];
+    if (snapshot) {
+      const copyUrl = deleteEndpoint && newResourceId && !generated
+        ? buildFullUrl(substitutePath(deleteEndpoint.path.replace(/\{[^}]+\}(\/?)$/, `${encodeURIComponent(newResourceId)}$1`)))
+        : undefined;
+      if (copyUrl === snapshot.url && verifyData && failingDifferences(differences).length === 0) {
+        updateSnapshot(snapshot, 'recreated', options?.journal);
+      } else {
+        // A changed copy under the same URL is overwritten by a restoring PUT, anything else is removed
+        if (copyUrl && (copyUrl !== snapshot.url || snapshot.restore?.method !== 'PUT')) {
+          cleanupDifferences.push(...await removeCreated(copyUrl));
+        }
+        restoreDifferences.push(...await restoreDeleted(snapshot));
+      }
+      snapshot = undefined;
+    }
+    
+    // Step 7: CLEANUP (DELETE the resource a generated body created)
+    if (created) {
+      cleanupDifferences.push(...await removeCreated(created));
+      created = undefined;
+    } else if (createdWithoutId) {
+      const errorMsg = 'No ID in the POST response to delete the created resource';
+      addStep({ step: 'CLEANUP', method: 'DELETE', url: group.resource, error: errorMsg, timestamp: new Date() });
+      cleanupDifferences.push({ path: 'cleanup', expected: 'success', actual: errorMsg, type: 'changed' });
+    }
+    
     const duration = Date.now() - startTime;
     
     return {
       resource: group.resource,
       steps,
-      passed,
-      differences,
+      passed: passed && updateDifferences.length === 0 && statusDifferences.length === 0 && restoreDifferences.length === 0 && cleanupDifferences.length === 0,
+      differences: [...failingDifferences(differences), ...schemaDifferences, ...updateDifferences, ...statusDifferences, ...restoreDifferences, ...cleanupDifferences],
       duration,
+      observedStatuses,
     };
     
   } catch (error: unknown) {
@@ -557,12 +1104,183 @@ export async function runEndpointTest(
       timestamp: new Date(),
     });
 
+    // A resource deleted before the failure is restored, one created is deleted
+    const restoreDifferences = snapshot ? await restoreDeleted(snapshot) : [];
+    const cleanupDifferences = created ? await removeCreated(created) : [];
+
     return {
       resource: group.resource,
       steps,
       passed: false,
-      differences: [{ path: 'error', expected: 'success', actual: err.message, type: 'changed' }],
+      differences: [{ path: 'error', expected: 'success', actual: err.message, type: 'changed' }, ...restoreDifferences, ...cleanupDifferences],
       duration,
+      observedStatuses,
     };
   }
 }
+
+/**
+ * The requests runEndpointTest would send for a group, in order, without sending any
+ * Requests that depend on a response (the POST re-creating the fetched resource,
+ * a PUT/PATCH changing one of its fields) carry a note instead of a body.
+ */
+export function planEndpointTest(baseUrl: string, group: EndpointGroup, options?: TestOptions): PlannedRequest[] {
+  const mode = options?.mode || 'full';
+  const requests: PlannedRequest[] = [];
+  
+  const substitutePath = (path: string): string => {
+    return options?.testDataCache ? substitutePathParameters(path, options.testDataCache) : path.replace(/\{[^}]+\}/g, '1');
+  };
+  const queryParams = (path: string): Record<string, unknown> | undefined => {
+    const params = getQueryParams(path);
+    return Object.keys(params).length > 0 ? params : undefined;
+  };
+  
+  const getEndpoint = group.endpoints.find(e => e.method === 'GET' && e.path.includes('{'));
+  const getListEndpoint = group.endpoints.find(e => e.method === 'GET' && !e.path.includes('{'));
+  const deleteEndpoint = group.endpoints.find(e => e.method === 'DELETE');
+  const postEndpoint = group.endpoints.find(e => e.method === 'POST');
+  const updateEndpoints = group.endpoints.filter(e => e.method === 'PUT' || e.method === 'PATCH');
+  const knownEndpoints = [...group.endpoints, ...(options?.specEndpoints || [])];
+  
+  const planUpdate = (updateEndpoint: Endpoint) => {
+    const method = updateEndpoint.method as 'PUT' | 'PATCH';
+    const readEndpoint = group.endpoints.find(e => e.method === 'GET' && e.path === updateEndpoint.path);
+    if (!readEndpoint) return; // Fails before sending anything
+    
+    const url = `${baseUrl}${substitutePath(updateEndpoint.path)}`;
+    const params = queryParams(readEndpoint.path);
+    requests.push(
+      { step: 'GET', method: 'GET', url, params },
+      { step: method, method, url, note: 'Body: one writable field of the GET response, changed to another schema-valid value' },
+      { step: 'VERIFY', method: 'GET', url, params },
+      { step: 'RESTORE', method, url, note: 'Body: the original value of the changed field' },
+    );
+  };
+  
+  if (mode === 'full' && updateEndpoints.length > 0 && !deleteEndpoint && !postEndpoint) {
+    updateEndpoints.forEach(planUpdate);
+    return requests;
+  }
+  
+  if (mode === 'readonly') {
+    const testEndpoint = getEndpoint || getListEndpoint;
+    if (testEndpoint) {
+      requests.push({ step: 'GET', method: 'GET', url: `${baseUrl}${substitutePath(testEndpoint.path)}`, params: queryParams(testEndpoint.path) });
+    }
+    return requests;
+  }
+  
+  // Full CRUD: GET, updates, SNAPSHOT + DELETE, POST, VERIFY (+ RESTORE)
+  if (getEndpoint) {
+    requests.push({
+      step: 'GET',
+      method: 'GET',
+      url: `${baseUrl}${substitutePath(getEndpoint.path)}`,
+      params: queryParams(getEndpoint.path),
+      note: getListEndpoint ? `On 404: GET ${baseUrl}${getListEndpoint.path} and use its first item` : undefined,
+    });
+  } else if (getListEndpoint) {
+    requests.push({ step: 'GET', method: 'GET', url: `${baseUrl}${getListEndpoint.path}`, params: queryParams(getListEndpoint.path) });
+  }
+  
+  updateEndpoints.forEach(planUpdate);
+  
+  // A resource that can't be snapshotted is not deleted
+  const snapshotted = !!deleteEndpoint && knownEndpoints.some(e => e.method === 'GET' && e.path === deleteEndpoint.path);
+  if (deleteEndpoint && snapshotted) {
+    const url = `${baseUrl}${substitutePath(deleteEndpoint.path)}`;
+    requests.push(
+      { step: 'SNAPSHOT', method: 'GET', url, note: 'Saved to the restore journal' },
+      { step: 'DELETE', method: 'DELETE', url },
+    );
+  }
+  
+  let posted = false;
+  let cleanup: PlannedRequest | undefined;
+  if (postEndpoint) {
+    const fetched = getEndpoint || getListEndpoint;
+    const cleanupEndpoint = findCleanupEndpoint(postEndpoint, knownEndpoints);
+    const generates = options?.generateBodies !== false && !!cleanupEndpoint;
+    if (fetched) {
+      const metaFields = resolveCompareRules(options?.compareRules, `GET ${fetched.path}`).metaFields;
+      requests.push({
+        step: 'POST',
+        method: 'POST',
+        url: `${baseUrl}${postEndpoint.path}`,
+        note: `Body: the fetched resource without ${metaFields.join(', ')}${generates ? ' (a generated body when nothing was fetched)' : ''}`,
+      });
+      posted = true;
+    } else if (generates && cleanupEndpoint) {
+      const generated = generateRequestBody(postEndpoint, { seed: options?.bodySeed });
+      if (generated && /[/+]json\b/i.test(generated.contentType)) {
+        const postUrl = `${baseUrl}${buildUrl(postEndpoint.path, generated.pathParams)}`;
+        requests.push({ step: 'POST', method: 'POST', url: postUrl, body: generated.body });
+        posted = true;
+        cleanup = {
+          step: 'CLEANUP',
+          method: 'DELETE',
+          url: cleanupEndpoint.path === postEndpoint.path ? postUrl : `${postUrl}/<new id>`,
+          note: 'Removes the resource the generated body created',
+        };
+      }
+    }
+  }
+  
+  if (getEndpoint && posted) {
+    requests.push({
+      step: 'VERIFY',
+      method: 'GET',
+      url: `${baseUrl}${getEndpoint.path.replace(/\{[^}]+\}/g, '<new id>')}`,
+      params: queryParams(getEndpoint.path),
+      note: 'ID from the POST response',
+    });
+  }
+  
+  if (deleteEndpoint && snapshotted) {
+    const restore = findRestoreRequest(deleteEndpoint, knownEndpoints, path => `${baseUrl}${substitutePath(path)}`);
+    if (restore) {
+      requests.push({ ...restore, step: 'RESTORE', note: 'Unless the POST brought the resource back under its URL and unchanged (after deleting a copy under a new ID) - body: the snapshot' });
+    }
+  }
+  
+  if (cleanup) {
+    requests.push(cleanup);
+  }
+  
+  return requests;
+}
+
+/**
+ * DELETE endpoint that removes what a POST creates: the POST's own path when it
+ * posts to an item ({id} last), else {collection}/{id}
+ */
+function findCleanupEndpoint(postEndpoint: Endpoint, endpoints: Endpoint[]): Endpoint | undefined {
+  if (/\}\/?$/.test(postEndpoint.path)) {
+    return endpoints.find(e => e.method === 'DELETE' && e.path === postEndpoint.path);
+  }
+  const prefix = `${postEndpoint.path.replace(/\/$/, '')}/`;
+  return endpoints.find(e => e.method === 'DELETE' && e.path.startsWith(prefix) && /^\{[^}/]+\}$/.test(e.path.slice(prefix.length)));
+}
+
+/**
+ * URL of the resource a generated POST body created
+ * @returns undefined when a collection POST's response has no ID
+ */
+function createdResourceUrl(
+  cleanupEndpoint: Endpoint,
+  postEndpoint: Endpoint,
+  postUrl: string,
+  responseData: unknown
+): string | undefined {
+  if (cleanupEndpoint.path === postEndpoint.path) {
+    return postUrl;
+  }
+  const idParam = cleanupEndpoint.path.slice(cleanupEndpoint.path.lastIndexOf('{') + 1, -1);
+  const data = (responseData ?? {}) as Record<string, unknown>;
+  const id = data.id ?? data._id ?? data[idParam];
+  if (id === undefined || id === null || typeof id === 'object') {
+    return undefined;
+  }
+  return `${postUrl.replace(/\/$/, '')}/${encodeURIComponent(String(id))}`;
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { EndpointCard } from '@/components/EndpointCard';
 import { EndpointGroup, TestResult, AuthConfig } from '@/types';
 import { runEndpointTest } from '@/lib/tester';
@@ -10,11 +11,22 @@ import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Download, Play, Loader2, Layers } from 'lucide-react';
 import { motion } from 'framer-motion';
 
+const GROUP_BY_CHOICES = [
+  { value: 'prefix', label: 'Group by path prefix' },
+  { value: 'tag', label: 'Group by tag' },
+  { value: 'operationId-prefix', label: 'Group by operationId prefix' },
+  { value: 'depth=2', label: 'Group by path depth 2' },
+  { value: 'depth=3', label: 'Group by path depth 3' },
+  { value: 'depth=4', label: 'Group by path depth 4' },
+];
+
 interface EndpointsProps {
   swaggerUrl: string;
   baseUrl: string;
   auth: AuthConfig;
   endpointGroups: EndpointGroup[];
+  groupBy: string;
+  onGroupByChange: (groupBy: string) => void;
   onTestComplete: (resource: string, result: TestResult) => void;
   testResults: Map<string, TestResult>;
 }
@@ -24,6 +36,8 @@ export default function Endpoints({
   baseUrl,
   auth,
   endpointGroups,
+  groupBy,
+  onGroupByChange,
   onTestComplete,
   testResults,
 }: EndpointsProps) {
@@ -135,6 +149,18 @@ export default function Endpoints({
             </div>
 
             <div className="flex gap-3">
+              <Select value={groupBy} onValueChange={onGroupByChange} disabled={isTestingAll}>
+                <SelectTrigger className="w-[230px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GROUP_BY_CHOICES.map(choice => (
+                    <SelectItem key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 onClick={handleExportConfig}
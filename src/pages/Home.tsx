@@ -5,23 +5,18 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { parseSwaggerUrl } from '@/lib/swagger';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Zap, Shield, GitCompare, ArrowRight, Server, TestTube, Terminal } from 'lucide-react';
-import { EndpointGroup } from '@/types';
+import { ApiKeyLocation, AuthConfig, AuthType, EndpointGroup, OAuth2GrantType } from '@/types';
 import { motion } from 'framer-motion';
 
 interface HomeProps {
   onConfigUpdate: (config: {
     swaggerUrl: string;
     baseUrl: string;
-    auth: { 
-      type: 'none' | 'bearer' | 'apikey' | 'oauth2'; 
-      token?: string;
-      username?: string;
-      password?: string;
-      tokenUrl?: string;
-    };
+    auth: AuthConfig;
     endpointGroups: EndpointGroup[];
   }) => void;
 }
@@ -31,11 +26,22 @@ export default function Home({ onConfigUpdate }: HomeProps) {
   const { toast } = useToast();
   
   const [swaggerUrl, setSwaggerUrl] = useState('https://petstore.swagger.io/v2/swagger.json');
-  const [authType, setAuthType] = useState<'none' | 'bearer' | 'apikey' | 'oauth2'>('none');
+  const [authType, setAuthType] = useState<AuthType>('none');
   const [token, setToken] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [tokenUrl, setTokenUrl] = useState('');
+  const [grantType, setGrantType] = useState<OAuth2GrantType>('password');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [scope, setScope] = useState('');
+  const [audience, setAudience] = useState('');
+  const [apiKeyIn, setApiKeyIn] = useState<ApiKeyLocation>('header');
+  const [apiKeyName, setApiKeyName] = useState('');
+  const [useMtls, setUseMtls] = useState(false);
+  const [clientCert, setClientCert] = useState('');
+  const [clientKey, setClientKey] = useState('');
+  const [caCert, setCaCert] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
   const handleParse = async () => {
@@ -51,7 +57,29 @@ export default function Home({ onConfigUpdate }: HomeProps) {
     setIsLoading(true);
 
     try {
-      const { groups, baseUrl } = await parseSwaggerUrl(swaggerUrl);
+      const auth: AuthConfig = {
+        type: authType,
+        token: token || undefined,
+        username: username || undefined,
+        password: password || undefined,
+        tokenUrl: tokenUrl || undefined,
+        ...(authType === 'oauth2' ? {
+          grantType,
+          clientId: clientId || undefined,
+          clientSecret: clientSecret || undefined,
+          scope: scope || undefined,
+          audience: audience || undefined,
+        } : {}),
+        ...(authType === 'apikey' ? { apiKeyIn, apiKeyName: apiKeyName || undefined } : {}),
+        ...(useMtls ? {
+          clientCert: clientCert || undefined,
+          clientKey: clientKey || undefined,
+          caCert: caCert || undefined,
+        } : {}),
+      };
+
+      // Protected specs are fetched with the same credentials as the tests
+      const { groups, baseUrl } = await parseSwaggerUrl(swaggerUrl, { auth });
       
       if (groups.length === 0) {
         toast({
@@ -65,13 +93,7 @@ export default function Home({ onConfigUpdate }: HomeProps) {
       onConfigUpdate({
         swaggerUrl,
         baseUrl,
-        auth: { 
-          type: authType, 
-          token: token || undefined,
-          username: username || undefined,
-          password: password || undefined,
-          tokenUrl: tokenUrl || undefined,
-        },
+        auth,
         endpointGroups: groups,
       });
 
@@ -111,7 +133,7 @@ export default function Home({ onConfigUpdate }: HomeProps) {
     {
       icon: Shield,
       title: 'Auth Support',
-      description: 'OAuth2, Bearer tokens, and API keys',
+      description: 'OAuth2, basic, bearer tokens, API keys and mTLS',
     },
   ];
 
@@ -190,19 +212,39 @@ export default function Home({ onConfigUpdate }: HomeProps) {
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
                   <Label htmlFor="auth-type">Authentication</Label>
-                  <Select value={authType} onValueChange={(v) => setAuthType(v as 'none' | 'bearer' | 'apikey' | 'oauth2')}>
+                  <Select value={authType} onValueChange={(v) => setAuthType(v as AuthType)}>
                     <SelectTrigger id="auth-type">
                       <SelectValue placeholder="Select auth type" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="none">No Authentication</SelectItem>
-                      <SelectItem value="oauth2">OAuth2 Username/Password</SelectItem>
+                      <SelectItem value="oauth2">OAuth2</SelectItem>
+                      <SelectItem value="basic">HTTP Basic</SelectItem>
                       <SelectItem value="bearer">Bearer Token</SelectItem>
                       <SelectItem value="apikey">API Key</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
+                {authType === 'oauth2' && (
+                  <motion.div
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="space-y-2"
+                  >
+                    <Label htmlFor="grant-type">Grant Type</Label>
+                    <Select value={grantType} onValueChange={(v) => setGrantType(v as OAuth2GrantType)}>
+                      <SelectTrigger id="grant-type">
+                        <SelectValue placeholder="Select grant type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="password">Username/Password</SelectItem>
+                        <SelectItem value="client_credentials">Client Credentials</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </motion.div>
+                )}
+
                 {authType === 'oauth2' && (
                   <motion.div
                     initial={{ opacity: 0, y: -10 }}
@@ -221,35 +263,119 @@ export default function Home({ onConfigUpdate }: HomeProps) {
                           className="font-mono text-sm"
                         />
                       </div>
+                      {grantType === 'password' ? (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="username">Username</Label>
+                            <Input
+                              id="username"
+                              type="text"
+                              placeholder="Enter username"
+                              value={username}
+                              onChange={(e) => setUsername(e.target.value)}
+                              className="font-mono text-sm"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="password">Password</Label>
+                            <Input
+                              id="password"
+                              type="password"
+                              placeholder="Enter password"
+                              value={password}
+                              onChange={(e) => setPassword(e.target.value)}
+                              className="font-mono text-sm"
+                            />
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="client-id">Client ID</Label>
+                            <Input
+                              id="client-id"
+                              type="text"
+                              placeholder="Enter client ID"
+                              value={clientId}
+                              onChange={(e) => setClientId(e.target.value)}
+                              className="font-mono text-sm"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="client-secret">Client Secret</Label>
+                            <Input
+                              id="client-secret"
+                              type="password"
+                              placeholder="Enter client secret"
+                              value={clientSecret}
+                              onChange={(e) => setClientSecret(e.target.value)}
+                              className="font-mono text-sm"
+                            />
+                          </div>
+                        </>
+                      )}
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
                       <div className="space-y-2">
-                        <Label htmlFor="username">Username</Label>
+                        <Label htmlFor="scope">Scope (optional)</Label>
                         <Input
-                          id="username"
+                          id="scope"
                           type="text"
-                          placeholder="Enter username"
-                          value={username}
-                          onChange={(e) => setUsername(e.target.value)}
+                          placeholder="api.read api.write"
+                          value={scope}
+                          onChange={(e) => setScope(e.target.value)}
                           className="font-mono text-sm"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="password">Password</Label>
+                        <Label htmlFor="audience">Audience (optional)</Label>
                         <Input
-                          id="password"
-                          type="password"
-                          placeholder="Enter password"
-                          value={password}
-                          onChange={(e) => setPassword(e.target.value)}
+                          id="audience"
+                          type="text"
+                          placeholder="https://api.example.com"
+                          value={audience}
+                          onChange={(e) => setAudience(e.target.value)}
                           className="font-mono text-sm"
                         />
                       </div>
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      OAuth2 password grant flow. Credentials are never logged or exported.
+                      OAuth2 {grantType === 'password' ? 'password' : 'client credentials'} grant flow. Credentials are never logged or exported.
                     </p>
                   </motion.div>
                 )}
 
+                {authType === 'basic' && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="md:col-span-2 grid gap-4 md:grid-cols-2"
+                  >
+                    <div className="space-y-2">
+                      <Label htmlFor="basic-username">Username</Label>
+                      <Input
+                        id="basic-username"
+                        type="text"
+                        placeholder="Enter username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="basic-password">Password</Label>
+                      <Input
+                        id="basic-password"
+                        type="password"
+                        placeholder="Enter password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                  </motion.div>
+                )}
+
                 {(authType === 'bearer' || authType === 'apikey') && (
                   <motion.div
                     initial={{ opacity: 0, x: -10 }}
@@ -269,6 +395,94 @@ export default function Home({ onConfigUpdate }: HomeProps) {
                     />
                   </motion.div>
                 )}
+
+                {authType === 'apikey' && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="md:col-span-2 grid gap-4 md:grid-cols-2"
+                  >
+                    <div className="space-y-2">
+                      <Label htmlFor="api-key-in">Send API Key In</Label>
+                      <Select value={apiKeyIn} onValueChange={(v) => setApiKeyIn(v as ApiKeyLocation)}>
+                        <SelectTrigger id="api-key-in">
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="header">Header</SelectItem>
+                          <SelectItem value="query">Query Parameter</SelectItem>
+                          <SelectItem value="cookie">Cookie</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="api-key-name">Name</Label>
+                      <Input
+                        id="api-key-name"
+                        type="text"
+                        placeholder="X-API-Key"
+                        value={apiKeyName}
+                        onChange={(e) => setApiKeyName(e.target.value)}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                  </motion.div>
+                )}
+
+                {/* Mutual TLS (combines with any auth type) */}
+                <div className="md:col-span-2 space-y-4">
+                  <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-card">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="use-mtls" className="text-sm font-medium">Client Certificate (mTLS)</Label>
+                      <p className="text-xs text-muted-foreground">
+                        The browser presents certificates from its own store; these PEM file paths are used for CLI runs of the exported config.
+                      </p>
+                    </div>
+                    <Switch id="use-mtls" checked={useMtls} onCheckedChange={setUseMtls} />
+                  </div>
+
+                  {useMtls && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="grid gap-4 md:grid-cols-3"
+                    >
+                      <div className="space-y-2">
+                        <Label htmlFor="client-cert">Certificate File</Label>
+                        <Input
+                          id="client-cert"
+                          type="text"
+                          placeholder="./certs/client.pem"
+                          value={clientCert}
+                          onChange={(e) => setClientCert(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-key">Key File</Label>
+                        <Input
+                          id="client-key"
+                          type="text"
+                          placeholder="./certs/client.key"
+                          value={clientKey}
+                          onChange={(e) => setClientKey(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ca-cert">CA File (optional)</Label>
+                        <Input
+                          id="ca-cert"
+                          type="text"
+                          placeholder="./certs/ca.pem"
+                          value={caCert}
+                          onChange={(e) => setCaCert(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                    </motion.div>
+                  )}
+                </div>
               </div>
 
               {/* Parse Button */}
@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ResultsTimeline } from '@/components/ResultsTimeline';
 import { DiffViewer } from '@/components/DiffViewer';
-import { EndpointGroup, TestResult, TestStep, AuthConfig } from '@/types';
+import { EndpointGroup, TestResult, TestStep, AuthConfig, Difference } from '@/types';
 import { runEndpointTest } from '@/lib/tester';
 import { generateTestResultsJSON, downloadFile } from '@/lib/exporter';
 import { useToast } from '@/hooks/use-toast';
@@ -105,7 +105,7 @@ export default function Results({
   const displaySteps = result?.steps || liveSteps;
   const compareStep = displaySteps.find(s => s.step === 'COMPARE');
   const displayResult = result || (displaySteps.length > 0 ? {
-    passed: compareStep?.data?.differences?.length === 0,
+    passed: compareStep?.data?.differences?.filter((diff: Difference) => !diff.suppressedBy).length === 0,
     duration: displaySteps.reduce((_, s) => Date.now() - new Date(displaySteps[0]?.timestamp || Date.now()).getTime(), 0),
     steps: displaySteps,
     differences: compareStep?.data?.differences || [],
@@ -231,11 +231,11 @@ export default function Results({
                   <CardTitle className="text-lg">JSON Comparison</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  {compareStep?.data ? (
+                  {compareStep?.data || displayResult?.differences?.length ? (
                     <DiffViewer
-                      original={compareStep.data.original}
-                      verified={compareStep.data.verified}
-                      differences={compareStep.data.differences || []}
+                      original={compareStep?.data?.original}
+                      verified={compareStep?.data?.verified}
+                      differences={displayResult?.differences || compareStep?.data?.differences || []}
                     />
                   ) : (
                     <div className="p-6 text-center text-muted-foreground">
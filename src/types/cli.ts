@@ -50,6 +50,120 @@ export interface CLICommandOption {
   placeholder?: string;
 }
 
+/**
+ * Auth options shared by test and test-posts (see src/cli/auth-options.ts)
+ */
+const AUTH_OPTIONS: CLICommandOption[] = [
+  {
+    name: 'auth',
+    flag: '--auth',
+    description: 'Auth strategy',
+    type: 'select',
+    default: 'oauth2',
+    options: ['oauth2', 'basic', 'bearer', 'apikey', 'none'],
+  },
+  {
+    name: 'tokenUrl',
+    flag: '--token-url',
+    description: 'OAuth2 token endpoint',
+    type: 'string',
+    placeholder: 'https://api.example.com/oauth/token',
+  },
+  {
+    name: 'grantType',
+    flag: '--grant-type',
+    description: 'OAuth2 grant',
+    type: 'select',
+    default: 'password',
+    options: ['password', 'client_credentials'],
+  },
+  {
+    name: 'username',
+    flag: '--username',
+    description: 'OAuth2 / basic auth username',
+    type: 'string',
+    placeholder: 'Enter username',
+  },
+  {
+    name: 'password',
+    flag: '--password',
+    description: 'OAuth2 / basic auth password',
+    type: 'string',
+    placeholder: 'Enter password',
+  },
+  {
+    name: 'clientId',
+    flag: '--client-id',
+    description: 'OAuth2 client ID',
+    type: 'string',
+    placeholder: 'Enter client ID',
+  },
+  {
+    name: 'clientSecret',
+    flag: '--client-secret',
+    description: 'OAuth2 client secret',
+    type: 'string',
+    placeholder: 'Enter client secret',
+  },
+  {
+    name: 'scope',
+    flag: '--scope',
+    description: 'OAuth2 scopes (space-separated)',
+    type: 'string',
+    placeholder: 'api.read api.write',
+  },
+  {
+    name: 'audience',
+    flag: '--audience',
+    description: 'OAuth2 audience',
+    type: 'string',
+    placeholder: 'https://api.example.com',
+  },
+  {
+    name: 'token',
+    flag: '--token',
+    description: 'Bearer token or API key',
+    type: 'string',
+    placeholder: 'eyJhbGciOiJ...',
+  },
+  {
+    name: 'apiKeyIn',
+    flag: '--api-key-in',
+    description: 'Where the API key is sent',
+    type: 'select',
+    default: 'header',
+    options: ['header', 'query', 'cookie'],
+  },
+  {
+    name: 'apiKeyName',
+    flag: '--api-key-name',
+    description: 'Header, query parameter or cookie name of the API key',
+    type: 'string',
+    placeholder: 'X-API-Key',
+  },
+  {
+    name: 'clientCert',
+    flag: '--client-cert',
+    description: 'PEM client certificate for mutual TLS',
+    type: 'string',
+    placeholder: './certs/client.pem',
+  },
+  {
+    name: 'clientKey',
+    flag: '--client-key',
+    description: 'PEM private key of the client certificate',
+    type: 'string',
+    placeholder: './certs/client.key',
+  },
+  {
+    name: 'caCert',
+    flag: '--ca-cert',
+    description: 'PEM CA bundle to verify the server certificate with',
+    type: 'string',
+    placeholder: './certs/ca.pem',
+  },
+];
+
 export const CLI_COMMANDS: CLICommandConfig[] = [
   {
     name: 'test',
@@ -58,35 +172,12 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
       {
         name: 'swaggerUrl',
         flag: '--swagger-url',
-        description: 'Swagger/OpenAPI JSON URL',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
         type: 'string',
         required: true,
         placeholder: 'https://api.example.com/swagger.json',
       },
-      {
-        name: 'tokenUrl',
-        flag: '--token-url',
-        description: 'OAuth2 token endpoint',
-        type: 'string',
-        required: true,
-        placeholder: 'https://api.example.com/oauth/token',
-      },
-      {
-        name: 'username',
-        flag: '--username',
-        description: 'OAuth2 username',
-        type: 'string',
-        required: true,
-        placeholder: 'Enter username',
-      },
-      {
-        name: 'password',
-        flag: '--password',
-        description: 'OAuth2 password',
-        type: 'string',
-        required: true,
-        placeholder: 'Enter password',
-      },
+      ...AUTH_OPTIONS,
       {
         name: 'output',
         flag: '--output',
@@ -122,7 +213,7 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         description: 'Test mode',
         type: 'select',
         default: 'full',
-        options: ['full', 'readonly'],
+        options: ['full', 'readonly', 'negative'],
       },
       {
         name: 'useRealData',
@@ -138,6 +229,26 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         type: 'boolean',
         default: false,
       },
+      {
+        name: 'noGenerateBodies',
+        flag: '--no-generate-bodies',
+        description: 'Do not POST bodies generated from the request schema',
+        type: 'boolean',
+      },
+      {
+        name: 'seed',
+        flag: '--seed',
+        description: 'Seed for generated request bodies',
+        type: 'number',
+        default: 1,
+      },
+      {
+        name: 'config',
+        flag: '--config',
+        description: 'Config file with expected-status overrides and auth',
+        type: 'string',
+        placeholder: 'gate.config.yaml',
+      },
       {
         name: 'testPosts',
         flag: '--test-posts',
@@ -152,44 +263,150 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         type: 'boolean',
         default: false,
       },
-    ],
-  },
-  {
-    name: 'test-posts',
-    description: 'Run POST endpoint tests with predefined fixtures',
-    options: [
       {
-        name: 'swaggerUrl',
-        flag: '--swagger-url',
-        description: 'Swagger/OpenAPI JSON URL',
+        name: 'noSchemaValidation',
+        flag: '--no-schema-validation',
+        description: 'Do not validate responses against the documented schemas',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'server',
+        flag: '--server',
+        description: 'Spec server to use: index or description (default: first)',
         type: 'string',
-        required: true,
-        placeholder: 'https://api.example.com/swagger.json',
+        placeholder: '0',
       },
       {
-        name: 'tokenUrl',
-        flag: '--token-url',
-        description: 'OAuth2 token endpoint',
+        name: 'serverVar',
+        flag: '--server-var',
+        description: 'Value for a server URL variable',
         type: 'string',
-        required: true,
-        placeholder: 'https://api.example.com/oauth/token',
+        placeholder: 'environment=staging',
       },
       {
-        name: 'username',
-        flag: '--username',
-        description: 'OAuth2 username',
+        name: 'baseUrl',
+        flag: '--base-url',
+        description: 'Base URL override (ignores the spec servers)',
         type: 'string',
-        required: true,
-        placeholder: 'Enter username',
+        placeholder: 'http://localhost:8080',
+      },
+      {
+        name: 'include',
+        flag: '--include',
+        description: 'Only include endpoints matching tag:, operationId:, method: or path: filters (comma-separated)',
+        type: 'string',
+        placeholder: 'tag:model,method:GET',
+      },
+      {
+        name: 'exclude',
+        flag: '--exclude',
+        description: 'Skip endpoints matching tag:, operationId:, method: or path: filters (comma-separated)',
+        type: 'string',
+        placeholder: 'path:/api/v2/schedule/**',
+      },
+      {
+        name: 'groupBy',
+        flag: '--group-by',
+        description: 'Group endpoints by prefix, tag, operationId-prefix or depth=N',
+        type: 'select',
+        default: 'prefix',
+        options: ['prefix', 'tag', 'operationId-prefix', 'depth=2', 'depth=3', 'depth=4'],
       },
       {
-        name: 'password',
-        flag: '--password',
-        description: 'OAuth2 password',
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+      {
+        name: 'againstBaseline',
+        flag: '--against-baseline',
+        description: 'Diff each GET response against its recorded baseline',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'updateBaseline',
+        flag: '--update-baseline',
+        description: 'Accept the live GET responses as the new baselines',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'baselineDir',
+        flag: '--baseline-dir',
+        description: 'Directory with the baseline files',
+        type: 'string',
+        default: 'baselines',
+        placeholder: 'baselines',
+      },
+      {
+        name: 'compareMode',
+        flag: '--compare-mode',
+        description: 'Compare response values, or only their shape',
+        type: 'select',
+        default: 'value',
+        options: ['value', 'shape'],
+      },
+      {
+        name: 'journal',
+        flag: '--journal',
+        description: 'Restore journal with a snapshot of every resource full mode deletes',
+        type: 'string',
+        default: 'restore-journal.json',
+        placeholder: 'restore-journal.json',
+      },
+      {
+        name: 'dryRun',
+        flag: '--dry-run',
+        description: 'Print the ordered requests the run would send without sending them',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'planOutput',
+        flag: '--plan-output',
+        description: 'Also write the --dry-run request plan as JSON',
+        type: 'string',
+        placeholder: 'plan.json',
+      },
+      {
+        name: 'replay',
+        flag: '--replay',
+        description: 'Answer requests from a HAR recording (file or directory) instead of the network',
+        type: 'string',
+        placeholder: 'run.har',
+      },
+      {
+        name: 'recordHar',
+        flag: '--record-har',
+        description: 'Record every HTTP exchange as a HAR 1.2 file (credentials redacted)',
+        type: 'string',
+        placeholder: 'run.har',
+      },
+    ],
+  },
+  {
+    name: 'test-posts',
+    description: 'Run POST endpoint tests with predefined fixtures',
+    options: [
+      {
+        name: 'swaggerUrl',
+        flag: '--swagger-url',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
         type: 'string',
         required: true,
-        placeholder: 'Enter password',
+        placeholder: 'https://api.example.com/swagger.json',
       },
+      ...AUTH_OPTIONS,
       {
         name: 'output',
         flag: '--output',
@@ -198,6 +415,13 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         default: 'junit-posts.xml',
         placeholder: 'junit-posts.xml',
       },
+      {
+        name: 'config',
+        flag: '--config',
+        description: 'Config file with auth settings',
+        type: 'string',
+        placeholder: 'gate.config.yaml',
+      },
       {
         name: 'autoStartVm',
         flag: '--auto-start-vm',
@@ -226,6 +450,83 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         type: 'string',
         placeholder: 'SystemHandler, Model, etc.',
       },
+      {
+        name: 'server',
+        flag: '--server',
+        description: 'Spec server to use: index or description (default: first)',
+        type: 'string',
+        placeholder: '0',
+      },
+      {
+        name: 'serverVar',
+        flag: '--server-var',
+        description: 'Value for a server URL variable',
+        type: 'string',
+        placeholder: 'environment=staging',
+      },
+      {
+        name: 'baseUrl',
+        flag: '--base-url',
+        description: 'Base URL override (ignores the spec servers)',
+        type: 'string',
+        placeholder: 'http://localhost:8080',
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+      {
+        name: 'dryRun',
+        flag: '--dry-run',
+        description: 'Print the ordered requests the run would send without sending them',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'planOutput',
+        flag: '--plan-output',
+        description: 'Also write the --dry-run request plan as JSON',
+        type: 'string',
+        placeholder: 'plan.json',
+      },
+      {
+        name: 'recordHar',
+        flag: '--record-har',
+        description: 'Record every HTTP exchange as a HAR 1.2 file (credentials redacted)',
+        type: 'string',
+        placeholder: 'run.har',
+      },
+    ],
+  },
+  {
+    name: 'restore',
+    description: 'Re-create the resources of a restore journal that full mode deleted and could not restore',
+    options: [
+      {
+        name: 'journal',
+        flag: '--journal',
+        description: 'Restore journal written by "test"',
+        type: 'string',
+        default: 'restore-journal.json',
+        placeholder: 'restore-journal.json',
+      },
+      ...AUTH_OPTIONS,
+      {
+        name: 'config',
+        flag: '--config',
+        description: 'Config file with auth settings',
+        type: 'string',
+        placeholder: 'gate.config.yaml',
+      },
     ],
   },
   {
@@ -256,7 +557,7 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
       {
         name: 'swaggerUrl',
         flag: '--swagger-url',
-        description: 'Swagger/OpenAPI JSON URL',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
         type: 'string',
         required: true,
         placeholder: 'https://api.example.com/swagger.json',
@@ -275,6 +576,328 @@ export const CLI_COMMANDS: CLICommandConfig[] = [
         type: 'boolean',
         default: false,
       },
+      {
+        name: 'server',
+        flag: '--server',
+        description: 'Spec server to use: index or description (default: first)',
+        type: 'string',
+        placeholder: '0',
+      },
+      {
+        name: 'serverVar',
+        flag: '--server-var',
+        description: 'Value for a server URL variable',
+        type: 'string',
+        placeholder: 'environment=staging',
+      },
+      {
+        name: 'baseUrl',
+        flag: '--base-url',
+        description: 'Base URL override (ignores the spec servers)',
+        type: 'string',
+        placeholder: 'http://localhost:8080',
+      },
+      {
+        name: 'include',
+        flag: '--include',
+        description: 'Only include endpoints matching tag:, operationId:, method: or path: filters (comma-separated)',
+        type: 'string',
+        placeholder: 'tag:model,method:GET',
+      },
+      {
+        name: 'exclude',
+        flag: '--exclude',
+        description: 'Skip endpoints matching tag:, operationId:, method: or path: filters (comma-separated)',
+        type: 'string',
+        placeholder: 'path:/api/v2/schedule/**',
+      },
+      {
+        name: 'groupBy',
+        flag: '--group-by',
+        description: 'Group endpoints by prefix, tag, operationId-prefix or depth=N',
+        type: 'select',
+        default: 'prefix',
+        options: ['prefix', 'tag', 'operationId-prefix', 'depth=2', 'depth=3', 'depth=4'],
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+    ],
+  },
+  {
+    name: 'spec-diff',
+    description: 'Compare two specs and classify changes as breaking, non-breaking or info',
+    options: [
+      {
+        name: 'old',
+        flag: '--old',
+        description: 'Baseline spec URL or file path (JSON or YAML)',
+        type: 'string',
+        required: true,
+        placeholder: 'https://api.example.com/swagger.json',
+      },
+      {
+        name: 'new',
+        flag: '--new',
+        description: 'Changed spec URL or file path (JSON or YAML)',
+        type: 'string',
+        required: true,
+        placeholder: './openapi.yaml',
+      },
+      {
+        name: 'markdown',
+        flag: '--markdown',
+        description: 'Markdown report output path',
+        type: 'string',
+        placeholder: 'spec-diff.md',
+      },
+      {
+        name: 'junit',
+        flag: '--junit',
+        description: 'JUnit XML report output path',
+        type: 'string',
+        placeholder: 'spec-diff.xml',
+      },
+      {
+        name: 'failOn',
+        flag: '--fail-on',
+        description: 'Exit non-zero on changes of this severity or worse',
+        type: 'select',
+        default: 'breaking',
+        options: ['breaking', 'non-breaking', 'info', 'none'],
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+    ],
+  },
+  {
+    name: 'lint-spec',
+    description: 'Check a spec for contract-quality issues (operationIds, response schemas, path parameters, examples)',
+    options: [
+      {
+        name: 'swaggerUrl',
+        flag: '--swagger-url',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
+        type: 'string',
+        required: true,
+        placeholder: 'https://api.example.com/swagger.json',
+      },
+      {
+        name: 'config',
+        flag: '--config',
+        description: 'Config file with lint rule severities',
+        type: 'string',
+        placeholder: 'gate.config.yaml',
+      },
+      {
+        name: 'rule',
+        flag: '--rule',
+        description: 'Override a rule severity (rule=error|warn|off)',
+        type: 'string',
+        placeholder: 'operation-id-missing=error',
+      },
+      {
+        name: 'markdown',
+        flag: '--markdown',
+        description: 'Markdown report output path',
+        type: 'string',
+        placeholder: 'spec-lint.md',
+      },
+      {
+        name: 'junit',
+        flag: '--junit',
+        description: 'JUnit XML report output path',
+        type: 'string',
+        placeholder: 'spec-lint.xml',
+      },
+      {
+        name: 'failOn',
+        flag: '--fail-on',
+        description: 'Exit non-zero on issues of this severity or worse',
+        type: 'select',
+        default: 'error',
+        options: ['error', 'warn', 'none'],
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+    ],
+  },
+  {
+    name: 'generate-body',
+    description: 'Generate request bodies from the requestBody schema (JSON, or POST fixture scaffolds)',
+    options: [
+      {
+        name: 'swaggerUrl',
+        flag: '--swagger-url',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
+        type: 'string',
+        required: true,
+        placeholder: 'https://api.example.com/swagger.json',
+      },
+      {
+        name: 'endpoint',
+        flag: '--endpoint',
+        description: 'Endpoint to generate a body for (default: all POST endpoints)',
+        type: 'string',
+        placeholder: 'POST /api/v2/systems/{system}',
+      },
+      {
+        name: 'seed',
+        flag: '--seed',
+        description: 'Seed for generated values',
+        type: 'number',
+        default: 1,
+      },
+      {
+        name: 'requiredOnly',
+        flag: '--required-only',
+        description: 'Only generate required properties',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'format',
+        flag: '--format',
+        description: 'Output format',
+        type: 'select',
+        default: 'json',
+        options: ['json', 'fixture'],
+      },
+      {
+        name: 'output',
+        flag: '--output',
+        description: 'Output file (default: stdout)',
+        type: 'string',
+        placeholder: 'bodies.json',
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
+    ],
+  },
+  {
+    name: 'mock',
+    description: 'Serve a local mock API from the spec (CRUD state, optional fault injection)',
+    options: [
+      {
+        name: 'swaggerUrl',
+        flag: '--swagger-url',
+        description: 'Swagger/OpenAPI spec URL or file path (JSON or YAML)',
+        type: 'string',
+        required: true,
+        placeholder: 'https://api.example.com/swagger.json',
+      },
+      {
+        name: 'port',
+        flag: '--port',
+        description: 'Port to listen on',
+        type: 'number',
+        default: 4010,
+      },
+      {
+        name: 'host',
+        flag: '--host',
+        description: 'Interface to listen on',
+        type: 'string',
+        default: '127.0.0.1',
+      },
+      {
+        name: 'seed',
+        flag: '--seed',
+        description: 'Seed for generated data and fault picks',
+        type: 'number',
+        default: 1,
+      },
+      {
+        name: 'items',
+        flag: '--items',
+        description: 'Items each collection starts with when there is no list example',
+        type: 'number',
+        default: 3,
+      },
+      {
+        name: 'faults',
+        flag: '--faults',
+        description: 'Inject faults: 300 ms latency, 10% 500 responses, 20% responses with a dropped field',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'latency',
+        flag: '--latency',
+        description: 'Delay every response in milliseconds (overrides --faults)',
+        type: 'number',
+        placeholder: '300',
+      },
+      {
+        name: 'errorRate',
+        flag: '--error-rate',
+        description: 'Share of requests answered with 500, 0-1 (overrides --faults)',
+        type: 'number',
+        placeholder: '0.1',
+      },
+      {
+        name: 'dropRate',
+        flag: '--drop-rate',
+        description: 'Share of successful responses with one field removed, 0-1 (overrides --faults)',
+        type: 'number',
+        placeholder: '0.2',
+      },
+      {
+        name: 'specHeader',
+        flag: '--spec-header',
+        description: 'Header sent when fetching the spec URL',
+        type: 'string',
+        placeholder: 'Authorization: Bearer <token>',
+      },
+      {
+        name: 'noSpecCache',
+        flag: '--no-spec-cache',
+        description: 'Do not cache the fetched spec or fall back to the cached copy',
+        type: 'boolean',
+      },
     ],
   },
 ];
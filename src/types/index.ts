@@ -3,22 +3,62 @@ export interface SwaggerConfig {
   auth?: AuthConfig;
 }
 
+export type AuthType = 'none' | 'bearer' | 'apikey' | 'oauth2' | 'basic';
+
+export type OAuth2GrantType = 'password' | 'client_credentials';
+
+export type ApiKeyLocation = 'header' | 'query' | 'cookie';
+
 export interface AuthConfig {
-  type: 'none' | 'bearer' | 'apikey' | 'oauth2';
+  type: AuthType;
+  /** Bearer token, or the API key for apikey */
   token?: string;
+  /** OAuth2 password grant and basic auth credentials */
   username?: string;
   password?: string;
   tokenUrl?: string;
+  /** OAuth2 grant (default: password, or the GRANT_TYPE env var) */
+  grantType?: OAuth2GrantType;
+  /** OAuth2 client credentials (required for client_credentials, sent with password grant when set) */
+  clientId?: string;
+  clientSecret?: string;
+  /** Space-separated OAuth2 scopes */
+  scope?: string;
+  /** OAuth2 audience (resource the token is issued for) */
+  audience?: string;
+  /** Where the API key is sent (default: header) */
+  apiKeyIn?: ApiKeyLocation;
+  /** Header, query parameter or cookie name of the API key (default: X-API-Key) */
+  apiKeyName?: string;
+  /** Mutual TLS: PEM client certificate and key files (Node.js only; any auth type) */
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  /** PEM CA bundle file to verify the server certificate with */
+  caCert?: string;
 }
 
+/**
+ * A resolved (dereferenced) JSON Schema object from the spec.
+ * May contain object cycles when the spec has circular $refs.
+ */
+export type JsonSchema = Record<string, unknown>;
+
 export interface Endpoint {
   path: string;
   method: 'GET' | 'POST' | 'DELETE' | 'PUT' | 'PATCH';
   summary?: string;
+  /** Path-level and operation-level parameters, merged (no Swagger 2.0 body/formData) */
   parameters?: Record<string, unknown>[];
+  /** OpenAPI 3 style request body (Swagger 2.0 body/formData parameters are converted) */
   requestBody?: Record<string, unknown>;
   responses?: Record<string, unknown>;
   operationId?: string;
+  tags?: string[];
+  /** Resolved request body schemas keyed by content type */
+  requestSchemas?: Record<string, JsonSchema>;
+  /** Resolved response schemas keyed by status code, then content type */
+  responseSchemas?: Record<string, Record<string, JsonSchema>>;
 }
 
 export interface EndpointGroup {
@@ -26,11 +66,20 @@ export interface EndpointGroup {
   endpoints: Endpoint[];
 }
 
+/**
+ * How a response status relates to the operation's documented responses
+ */
+export type StatusOutcome = 'documented-success' | 'documented-error' | 'undocumented';
+
 export interface TestStep {
-  step: 'AUTH' | 'GET' | 'DELETE' | 'POST' | 'VERIFY' | 'COMPARE' | 'VALIDATE' | 'CLEANUP';
+  step: 'AUTH' | 'GET' | 'PUT' | 'PATCH' | 'RESTORE' | 'DELETE' | 'POST' | 'VERIFY' | 'COMPARE' | 'VALIDATE' | 'CLEANUP' | 'PROBE' | 'SNAPSHOT';
+  /** Negative case of a PROBE step, e.g. "no-auth" */
+  probe?: string;
   method?: string;
   url?: string;
   status?: number;
+  /** Classification of `status` against the endpoint's documented responses */
+  outcome?: StatusOutcome;
   data?: unknown;
   error?: string;
   timestamp: Date;
@@ -73,13 +122,46 @@ export interface TestResult {
   passed: boolean;
   differences?: Difference[];
   duration: number;
+  /** Response statuses returned by the endpoints under test */
+  observedStatuses?: ObservedStatus[];
+}
+
+export interface ObservedStatus {
+  method: string;
+  path: string;
+  status: number;
+  outcome: StatusOutcome;
+}
+
+/**
+ * A request a test would send (--dry-run request plan)
+ */
+export interface PlannedRequest {
+  /** Step of the test; LIST is a collection listing before / after a full mode run */
+  step: TestStep['step'] | 'LIST';
+  method: string;
+  url: string;
+  /** Query parameters */
+  params?: Record<string, unknown>;
+  body?: unknown;
+  /** When the request is sent, or which response it depends on */
+  note?: string;
 }
 
 export interface Difference {
+  /** Dotted path for comparison diffs, JSON pointer for schema violations */
   path: string;
   expected: unknown;
   actual: unknown;
-  type: 'added' | 'removed' | 'changed';
+  /**
+   * 'violation' = response does not match the documented schema;
+   * 'type-changed' / 'field-added' / 'field-removed' = shape differences (shape comparison mode)
+   */
+  type: 'added' | 'removed' | 'changed' | 'violation' | 'type-changed' | 'field-added' | 'field-removed';
+  /** Human-readable explanation (set for schema violations) */
+  message?: string;
+  /** Compare rule that suppressed the difference, e.g. "ignore $.items[*].lastRun" - suppressed differences don't fail a test */
+  suppressedBy?: string;
 }
 
 export interface AppState {